@@ -1,119 +1,48 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ChevronLeft } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { Editor } from './components/Editor';
 import { Requirements } from './components/Requirements';
 import { StructuredAnalysis } from './components/StructuredAnalysis/StructuredAnalysis';
 import { IEOrchestrator } from './components/InformationEngineering/IEOrchestrator';
-import { Project, Task, Requirement } from './types';
+import { Project, Task, Requirement, ScheduleSettings } from './types';
+import { migrateProject, CURRENT_SCHEMA_VERSION } from './utils/projectMigration';
+import { loadProjects, saveProjects } from './utils/projectStorage';
+import { EXAMPLE_PROJECT_ID, EXAMPLE_STRUCTURED_ANALYSIS, EXAMPLE_INFORMATION_ENGINEERING } from './utils/exampleProjects';
 
 const NEW_PROJECT_TEMPLATE: Task[] = [
     { id: 'A', name: 'Start Task', duration: 1, predecessors: [] },
 ];
 
 const EXAMPLE_PROJECT: Project = {
-    id: 'example-mobile-app',
+    id: EXAMPLE_PROJECT_ID,
     name: 'Example: ATM System (Process-Oriented)',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     taskCount: 12,
     designTechnique: 'process-oriented',
     data: [
         { id: 'A', name: 'Market Research', duration: 5, predecessors: [], type: 'start' },
-        { id: 'B', name: 'Define Requirements', duration: 3, predecessors: ['A'], type: 'task' },
-        { id: 'C', name: 'UI/UX Design', duration: 8, predecessors: ['B'], type: 'task' },
-        { id: 'D', name: 'Tech Stack Selection', duration: 2, predecessors: ['B'], type: 'task' },
-        { id: 'E', name: 'Frontend Dev', duration: 10, predecessors: ['C', 'D'], type: 'task' },
-        { id: 'F', name: 'Backend Dev', duration: 12, predecessors: ['D'], type: 'task' },
-        { id: 'G', name: 'API Integration', duration: 5, predecessors: ['E', 'F'], type: 'task' },
-        { id: 'H', name: 'Testing', duration: 5, predecessors: ['G'], type: 'task' },
-        { id: 'I', name: 'Bug Fixes', duration: 3, predecessors: ['H'], type: 'task' },
-        { id: 'J', name: 'App Store Submission', duration: 2, predecessors: ['I'], type: 'task' },
-        { id: 'K', name: 'Marketing Campaign', duration: 7, predecessors: ['C'], type: 'task' },
-        { id: 'L', name: 'Launch', duration: 0, predecessors: ['J', 'K'], type: 'end' },
+        { id: 'B', name: 'Define Requirements', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'C', name: 'UI/UX Design', duration: 8, predecessors: [{ id: 'B', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'D', name: 'Tech Stack Selection', duration: 2, predecessors: [{ id: 'B', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'E', name: 'Frontend Dev', duration: 10, predecessors: [{ id: 'C', type: 'FS', lag: 0 }, { id: 'D', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'F', name: 'Backend Dev', duration: 12, predecessors: [{ id: 'D', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'G', name: 'API Integration', duration: 5, predecessors: [{ id: 'E', type: 'FS', lag: 0 }, { id: 'F', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'H', name: 'Testing', duration: 5, predecessors: [{ id: 'G', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'I', name: 'Bug Fixes', duration: 3, predecessors: [{ id: 'H', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'J', name: 'App Store Submission', duration: 2, predecessors: [{ id: 'I', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'K', name: 'Marketing Campaign', duration: 7, predecessors: [{ id: 'C', type: 'FS', lag: 0 }], type: 'task' },
+        { id: 'L', name: 'Launch', duration: 0, predecessors: [{ id: 'J', type: 'FS', lag: 0 }, { id: 'K', type: 'FS', lag: 0 }], type: 'end' },
     ],
     requirements: [
         { id: 'R1', title: 'User Authentication', description: 'Secure login via Email and OAuth (Google, Apple).', priority: 'Must', type: 'Functional', status: 'Approved' },
         { id: 'R2', title: 'Push Notifications', description: 'Real-time alerts for user engagement.', priority: 'Should', type: 'Functional', status: 'Pending' },
         { id: 'R3', title: 'Offline Mode', description: 'App must function without internet connection for core features.', priority: 'Must', type: 'Non-Functional', status: 'Draft' },
     ],
-    structuredAnalysis: {
-        contextDiagram: {
-            id: 'context',
-            nodes: [
-                { id: 'sys', type: 'process', name: 'Mobile App', position: { x: 400, y: 300 }, size: { width: 150, height: 150 } },
-                { id: 'user', type: 'external_entity', name: 'User', position: { x: 100, y: 300 }, size: { width: 120, height: 80 } },
-                { id: 'store', type: 'external_entity', name: 'App Store', position: { x: 700, y: 300 }, size: { width: 120, height: 80 } },
-                { id: 'bound', type: 'boundary', name: 'System Boundary', position: { x: 300, y: 200 }, size: { width: 350, height: 350 } }
-            ],
-            connections: [
-                { id: 'c1', sourceId: 'user', targetId: 'sys', label: 'Credentials' },
-                { id: 'c2', sourceId: 'sys', targetId: 'user', label: 'App Content' },
-                { id: 'c3', sourceId: 'sys', targetId: 'store', label: 'App Binary' }
-            ]
-        },
-        dfds: [
-            {
-                id: 'level0',
-                level: 0,
-                nodes: [
-                    { id: 'p1', type: 'process', name: 'Authenticate', position: { x: 150, y: 150 }, size: { width: 160, height: 96 }, level: 1 },
-                    { id: 'p2', type: 'process', name: 'Browse Content', position: { x: 400, y: 150 }, size: { width: 160, height: 96 }, level: 1 },
-                    { id: 'p3', type: 'process', name: 'Process Order', position: { x: 400, y: 400 }, size: { width: 160, height: 96 }, level: 1 },
-                    { id: 'd1', type: 'data_store', name: 'User DB', position: { x: 150, y: 400 }, size: { width: 160, height: 64 } },
-                    { id: 'd2', type: 'data_store', name: 'Product DB', position: { x: 650, y: 150 }, size: { width: 160, height: 64 } }
-                ],
-                connections: [
-                    { id: 'f1', sourceId: 'p1', targetId: 'd1', label: 'Verify User' },
-                    { id: 'f2', sourceId: 'p2', targetId: 'd2', label: 'Get Products' },
-                    { id: 'f3', sourceId: 'p1', targetId: 'p2', label: 'User Token' },
-                    { id: 'f4', sourceId: 'p2', targetId: 'p3', label: 'Order Details' }
-                ]
-            }
-        ],
-        dictionary: [
-            { id: 'de1', name: 'Credentials', type: 'data_structure', definition: 'Username + Password', relatedDiagramIds: ['context'] },
-            { id: 'de2', name: 'User Token', type: 'data_element', definition: 'JWT String', relatedDiagramIds: ['level0'] }
-        ],
-        stds: []
-    },
-    informationEngineering: {
-        id: 'ie-example',
-        name: 'Mobile App IE',
-        currentStep: 1,
-        entities: {
-            'e1': { id: 'e1', name: 'Customer', attributes: [], position: { x: 100, y: 100 }, size: { width: 140, height: 70 } },
-            'e2': { id: 'e2', name: 'Order', attributes: [], position: { x: 500, y: 100 }, size: { width: 140, height: 70 } },
-            'e3': { id: 'e3', name: 'Inventory', attributes: [], position: { x: 300, y: 300 }, size: { width: 140, height: 70 } }
-        },
-        relationships: {
-            'r1': { 
-                id: 'r1', 
-                sourceEntityId: 'e1', 
-                targetEntityId: 'e2', 
-                sourceCardinality: 'one_one', 
-                targetCardinality: 'zero_many', 
-                label: 'places', 
-                position: { x: 300, y: 100 },
-                controlPoints: []
-            }
-        },
-        processes: {
-            'p1': { id: 'p1', name: 'Manage Orders', type: 'function', level: 0, position: { x: 400, y: 50 }, size: { width: 160, height: 60 } },
-            'p2': { id: 'p2', name: 'Receive Order', type: 'process', parentId: 'p1', level: 1, position: { x: 100, y: 250 }, size: { width: 140, height: 60 } },
-            'p3': { id: 'p3', name: 'Validate Stock', type: 'process', parentId: 'p1', level: 1, position: { x: 400, y: 250 }, size: { width: 140, height: 60 } },
-            'p4': { id: 'p4', name: 'Ship Items', type: 'process', parentId: 'p1', level: 1, position: { x: 700, y: 250 }, size: { width: 140, height: 60 } }
-        },
-        processDependencies: {
-            'd1': { id: 'd1', sourceProcessId: 'p2', targetProcessId: 'p3', type: 'sequence' },
-            'd2': { id: 'd2', sourceProcessId: 'p3', targetProcessId: 'p4', type: 'sequence' }
-        },
-        dataFlows: {
-            'df1': { id: 'df1', processDependencyId: 'd1', entityId: 'e2', accessType: 'create' }, // Receive creates Order
-            'df2': { id: 'df2', processDependencyId: 'd1', entityId: 'e1', accessType: 'update' }, // Receive updates Customer?
-            'df3': { id: 'df3', processDependencyId: 'd2', entityId: 'e3', accessType: 'read' },   // Validate reads Inventory
-        }
-    }
+    structuredAnalysis: EXAMPLE_STRUCTURED_ANALYSIS,
+    informationEngineering: EXAMPLE_INFORMATION_ENGINEERING
 };
 
 const DATA_ORIENTED_EXAMPLE: Project = { ...EXAMPLE_PROJECT,
@@ -126,35 +55,52 @@ const DATA_ORIENTED_EXAMPLE: Project = { ...EXAMPLE_PROJECT,
 
 
 export default function App() {
-    const [projects, setProjects] = useState<Project[]>(() => {
-        const saved = localStorage.getItem('pathfinder_projects');
-        let initialProjects = saved ? JSON.parse(saved) : [EXAMPLE_PROJECT];
-        
-        // Patch: Ensure example project has structured analysis data
-        // should be removed when example project is removed. TODO
-        // This fixes the issue where old data in localStorage might be missing the new fields
-        initialProjects = initialProjects.map((p: Project) => {
-            let updated = { ...p };
-            if (p.id === EXAMPLE_PROJECT.id) {
-                if (!p.structuredAnalysis) {
-                    updated = { ...updated, structuredAnalysis: EXAMPLE_PROJECT.structuredAnalysis };
-                }
-                if (!p.informationEngineering) {
-                    updated = { ...updated, informationEngineering: EXAMPLE_PROJECT.informationEngineering };
-                }
-            }
-            return updated;
-        });
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [loaded, setLoaded] = useState(false);
+    // Last saved version of each project, to write only the ones that changed
+    const savedProjects = useRef<Map<string, Project>>(new Map());
+
+    useEffect(() => {
+        let cancelled = false;
+        loadProjects()
+            .then(stored => {
+                if (cancelled) return;
+                if (stored) savedProjects.current = new Map(stored.map(p => [p.id, p]));
+                setProjects(stored ?? [EXAMPLE_PROJECT]);
+                setLoaded(true);
+            })
+            .catch(err => {
+                console.error('Failed to load projects', err);
+                alert('Saved projects could not be opened. Changes made now will not be saved.');
+            });
+        return () => { cancelled = true; };
+    }, []);
 
-        return initialProjects;
-    });
     const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
     const [view, setView] = useState<'dashboard' | 'editor' | 'requirements' | 'structured_analysis' | 'information_engineering'>('dashboard');
 
-    // Save to LocalStorage whenever projects change
+    // Save the projects that changed since the last successful save. A failed save leaves the
+    // snapshot alone, so the same projects are written again with the next change.
+    const saveFailed = useRef(false);
     useEffect(() => {
-        localStorage.setItem('pathfinder_projects', JSON.stringify(projects));
-    }, [projects]);
+        if (!loaded) return;
+        const changed = projects.filter(p => savedProjects.current.get(p.id) !== p);
+        const removedIds = [...savedProjects.current.keys()].filter(id => !projects.some(p => p.id === id));
+        if (changed.length === 0 && removedIds.length === 0) return;
+        const snapshot = new Map(projects.map(p => [p.id, p]));
+        saveProjects(changed, removedIds)
+            .then(() => {
+                savedProjects.current = snapshot;
+                saveFailed.current = false;
+            })
+            .catch(err => {
+                console.error('Failed to save projects', err);
+                // Only tell the user once per run of failures rather than on every edit
+                if (saveFailed.current) return;
+                saveFailed.current = true;
+                alert(`Your changes could not be saved (${err instanceof Error ? err.message : 'storage error'}). Saving will be retried with your next change; export a backup to be safe.`);
+            });
+    }, [projects, loaded]);
 
     // Sync URL with view state
     useEffect(() => {
@@ -199,6 +145,7 @@ export default function App() {
         const newProject: Project = {
             id: crypto.randomUUID(),
             name: name,
+            schemaVersion: CURRENT_SCHEMA_VERSION,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
             data: NEW_PROJECT_TEMPLATE,
@@ -215,14 +162,13 @@ export default function App() {
     const handleDeleteProject = (id: string) => {
         if (window.confirm("Are you sure you want to delete this project?")) {
             setProjects(projects.filter(p => p.id !== id));
-            localStorage.setItem('pathfinder_projects', JSON.stringify(projects.filter(p => p.id !== id)));
         }
     };
 
-    const handleSaveProject = (id: string, taskData: Task[]) => {
+    const handleSaveProject = (id: string, taskData: Task[], schedule?: ScheduleSettings) => {
         const updatedProjects = projects.map(p => {
             if (p.id === id) {
-                return { ...p, data: taskData, taskCount: taskData.length, updatedAt: new Date().toISOString() };
+                return { ...p, data: taskData, schedule: schedule ?? p.schedule, taskCount: taskData.length, updatedAt: new Date().toISOString() };
             }
             return p;
         });
@@ -254,7 +200,7 @@ export default function App() {
                         const parsed = JSON.parse(event.target.result as string);
                         if (Array.isArray(parsed)) {
                             if (window.confirm(`Importing ${parsed.length} projects. This will replace current data. Continue?`)) {
-                                setProjects(parsed);
+                                setProjects(parsed.map(migrateProject));
                             }
                         } else {
                             alert("Invalid file format");
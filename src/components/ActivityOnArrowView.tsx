@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ProcessedTask } from '../types';
+import { buildAoaNetwork } from '../utils/activityOnArrow';
+import { BaseDiagramEditor } from './StructuredAnalysis/BaseDiagramEditor';
+import { CanvasNode, CanvasConnection } from './common/DiagramCanvas';
+
+interface ActivityOnArrowViewProps {
+    tasks: ProcessedTask[];
+    isDark: boolean;
+}
+
+const EVENT_SIZE = 84;
+const LAYER_SPACING = 240;
+const EVENT_SPACING = 150;
+
+export const ActivityOnArrowView: React.FC<ActivityOnArrowViewProps> = ({ tasks, isDark }) => {
+    const network = useMemo(() => buildAoaNetwork(tasks), [tasks]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [activeTool, setActiveTool] = useState<'select' | 'connect' | 'pan'>('select');
+    // Events are regenerated from the task list, so dragged positions only last for the session
+    const [moved, setMoved] = useState<Record<string, { x: number; y: number }>>({});
+
+    const positions = useMemo(() => {
+        const byLayer = new Map<number, string[]>();
+        network.events.forEach(e => byLayer.set(e.layer, [...(byLayer.get(e.layer) || []), e.id]));
+        const result = new Map<string, { x: number; y: number }>();
+        byLayer.forEach((ids, layer) => ids.forEach((id, i) => {
+            result.set(id, moved[id] || {
+                x: layer * LAYER_SPACING + 100,
+                y: 400 + (i - (ids.length - 1) / 2) * EVENT_SPACING
+            });
+        }));
+        return result;
+    }, [network, moved]);
+
+    const names = new Map(tasks.map(t => [t.id, t.name]));
+
+    const nodes: CanvasNode[] = network.events.map(event => {
+        const critical = Math.abs(event.latest - event.earliest) < 1e-9;
+        return {
+            id: event.id,
+            x: positions.get(event.id)!.x,
+            y: positions.get(event.id)!.y,
+            width: EVENT_SIZE,
+            height: EVENT_SIZE,
+            shape: 'circle',
+            content: (
+                <div className={`w-full h-full rounded-full border-[3px] flex flex-col overflow-hidden ${critical ? 'border-red-500' : (isDark ? 'border-slate-600' : 'border-slate-900')} ${isDark ? 'bg-slate-900 text-slate-200' : 'bg-white text-slate-800'}`}
+                    title={`Event ${event.number}: earliest ${event.earliest}, latest ${event.latest}`}>
+                    <div className={`flex-1 flex items-end justify-center pb-0.5 text-sm font-bold border-b ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>{event.number}</div>
+                    <div className="flex-1 grid grid-cols-2 text-[11px] font-mono">
+                        <span className={`flex items-start justify-end pr-1.5 pt-0.5 border-r ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>{event.earliest}</span>
+                        <span className={`flex items-start justify-start pl-1.5 pt-0.5 ${critical ? 'text-rose-500 font-bold' : ''}`}>{event.latest}</span>
+                    </div>
+                </div>
+            )
+        };
+    });
+
+    const connections: CanvasConnection[] = network.activities.map(activity => {
+        const from = positions.get(activity.from)!;
+        const to = positions.get(activity.to)!;
+        return {
+            id: activity.id,
+            start: { x: from.x + EVENT_SIZE / 2, y: from.y + EVENT_SIZE / 2 },
+            end: { x: to.x + EVENT_SIZE / 2, y: to.y + EVENT_SIZE / 2 },
+            sourceNodeId: activity.from,
+            targetNodeId: activity.to,
+            color: activity.isCritical ? (isDark ? '#ef4444' : '#dc2626') : undefined,
+            label: activity.taskId ? `${activity.taskId} (${activity.duration})` : undefined,
+            dashed: activity.taskId === null,
+            targetArrow: true,
+            lineStyle: 'straight'
+        };
+    });
+
+    return (
+        <div className="w-full h-full relative">
+            <BaseDiagramEditor
+                nodes={nodes}
+                connections={connections}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                activeTool={activeTool}
+                setActiveTool={setActiveTool}
+                isDark={isDark}
+                onNodeMove={(id, x, y) => setMoved(prev => ({ ...prev, [id]: { x, y } }))}
+            />
+            <div className={`absolute bottom-4 left-4 z-10 max-w-sm p-3 rounded-xl border text-xs space-y-1 ${isDark ? 'bg-slate-900/90 border-slate-800 text-slate-400' : 'bg-white/90 border-stone-200 text-stone-500'}`}>
+                <p>Events show <span className="font-mono">earliest | latest</span> times. Dashed arrows are dummy activities.</p>
+                {selectedIds.length === 1 && names.has(selectedIds[0]) && (
+                    <p className={isDark ? 'text-slate-200' : 'text-stone-800'}><span className="font-mono font-bold">{selectedIds[0]}</span> {names.get(selectedIds[0])}</p>
+                )}
+                {network.approximatedLinks > 0 && (
+                    <p className="flex items-center gap-1 text-amber-500">
+                        <AlertTriangle size={12} /> {network.approximatedLinks} link{network.approximatedLinks === 1 ? '' : 's'} with a type or lag drawn as finish-to-start
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Flag, Save, Trash2 } from 'lucide-react';
+import { Baseline } from '../types';
+
+interface BaselinePanelProps {
+    baselines: Baseline[];
+    activeBaselineId?: string;
+    onSelect: (id: string | undefined) => void;
+    onCreate: (name: string) => void;
+    onDelete: (id: string) => void;
+    isDark: boolean;
+}
+
+export const BaselinePanel: React.FC<BaselinePanelProps> = ({ baselines, activeBaselineId, onSelect, onCreate, onDelete, isDark }) => {
+    const [name, setName] = useState('');
+    const inputClass = `px-2 py-1 border rounded-lg text-xs ${isDark ? 'bg-slate-950 border-slate-800 text-slate-300 placeholder-slate-600' : 'bg-stone-50 border-stone-200'}`;
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        onCreate(name.trim() || `Baseline ${baselines.length + 1}`);
+        setName('');
+    };
+
+    return (
+        <div className={`mb-4 p-4 rounded-xl border text-sm flex flex-wrap items-center gap-4 ${isDark ? 'bg-slate-900 border-slate-800 text-slate-300' : 'bg-white border-stone-200 text-stone-700 shadow-sm'}`}>
+            <span className="flex items-center gap-2 font-bold">
+                <Flag size={16} className="text-amber-500" /> Baseline
+            </span>
+            <select className={inputClass} value={activeBaselineId || ''} onChange={e => onSelect(e.target.value || undefined)}>
+                <option value="">None</option>
+                {baselines.map(b => (
+                    <option key={b.id} value={b.id}>{b.name} ({new Date(b.createdAt).toLocaleDateString()})</option>
+                ))}
+            </select>
+            {activeBaselineId && (
+                <button onClick={() => { if (window.confirm('Delete this baseline?')) onDelete(activeBaselineId); }} className={`p-1.5 rounded ${isDark ? 'text-slate-500 hover:text-rose-400 hover:bg-rose-500/10' : 'text-stone-400 hover:text-rose-500 hover:bg-rose-50'}`} title="Delete baseline">
+                    <Trash2 size={14} />
+                </button>
+            )}
+            <form onSubmit={handleCreate} className="flex items-center gap-2 ml-auto">
+                <input className={inputClass} placeholder={`Baseline ${baselines.length + 1}`} value={name} onChange={e => setName(e.target.value)} />
+                <button type="submit" className={`btn text-xs border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`}>
+                    <Save size={14} /> Save baseline
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Task, Resource, Baseline } from '../types';
+import { calculateVariance } from '../utils/baselines';
+
+interface BaselineVarianceTableProps {
+    tasks: Task[];
+    baseline: Baseline;
+    pool: Resource[];
+    isDark: boolean;
+}
+
+const formatVariance = (value: number | null, unit = 'd') => {
+    if (value === null) return '—';
+    const rounded = Math.round(value * 100) / 100;
+    return `${rounded > 0 ? '+' : ''}${rounded}${unit}`;
+};
+
+export const BaselineVarianceTable: React.FC<BaselineVarianceTableProps> = ({ tasks, baseline, pool, isDark }) => {
+    const rows = useMemo(() => {
+        const variances = new Map(calculateVariance(tasks, baseline, pool).map(v => [v.id, v]));
+        const planned = new Map(baseline.tasks.map(t => [t.id, t]));
+        return tasks
+            .filter(t => t.type !== 'start' && t.type !== 'end')
+            .map(task => ({ task, base: planned.get(task.id), variance: variances.get(task.id)! }));
+    }, [tasks, baseline, pool]);
+
+    const varianceClass = (value: number | null) =>
+        value === null || Math.abs(value) < 1e-9 ? (isDark ? 'text-slate-500' : 'text-slate-400') : value > 0 ? 'text-rose-500' : 'text-emerald-500';
+    const cell = `px-3 py-2 border-b ${isDark ? 'border-slate-800' : 'border-slate-100'}`;
+
+    return (
+        <div className={`mt-6 overflow-x-auto rounded-xl shadow-sm border ${isDark ? 'bg-slate-900 border-slate-800 dark-scrollbar' : 'bg-white border-slate-200 light-scrollbar'}`}>
+            <table className={`w-full text-sm ${isDark ? 'text-slate-300' : 'text-slate-700'}`}>
+                <thead className={`text-[10px] font-bold uppercase ${isDark ? 'bg-slate-900 text-slate-500' : 'bg-slate-50 text-slate-400'}`}>
+                    <tr>
+                        <th className={`${cell} text-left`}>Task</th>
+                        <th className={`${cell} text-right`}>Baseline Start</th>
+                        <th className={`${cell} text-right`}>Start</th>
+                        <th className={`${cell} text-right`}>Start Var.</th>
+                        <th className={`${cell} text-right`}>Baseline Finish</th>
+                        <th className={`${cell} text-right`}>Finish</th>
+                        <th className={`${cell} text-right`}>Finish Var.</th>
+                        <th className={`${cell} text-right`}>Duration Var.</th>
+                        <th className={`${cell} text-right`}>Cost Var.</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono">
+                    {rows.map(({ task, base, variance }) => (
+                        <tr key={task.id} className={isDark ? 'hover:bg-slate-800/50' : 'hover:bg-slate-50'}>
+                            <td className={`${cell} font-sans`}>
+                                <span className={`font-mono text-xs px-1 rounded mr-2 ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-400'}`}>{task.id}</span>
+                                {task.name}
+                                {!base && <span className="ml-2 text-[10px] font-bold uppercase text-blue-500">New</span>}
+                            </td>
+                            <td className={`${cell} text-right`}>{base ? base.es : '—'}</td>
+                            <td className={`${cell} text-right`}>{task.es ?? 0}</td>
+                            <td className={`${cell} text-right ${varianceClass(variance.startVariance)}`}>{formatVariance(variance.startVariance)}</td>
+                            <td className={`${cell} text-right`}>{base ? base.ef : '—'}</td>
+                            <td className={`${cell} text-right`}>{task.ef ?? task.duration}</td>
+                            <td className={`${cell} text-right ${varianceClass(variance.finishVariance)}`}>{formatVariance(variance.finishVariance)}</td>
+                            <td className={`${cell} text-right ${varianceClass(variance.durationVariance)}`}>{formatVariance(variance.durationVariance)}</td>
+                            <td className={`${cell} text-right ${varianceClass(variance.costVariance)}`}>{formatVariance(variance.costVariance, '')}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -1,32 +1,62 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Project, Task, LayoutNode } from '../types';
-import { calculateCPM } from '../utils/cpmLogic';
+import { Project, Task, LayoutNode, ScheduleSettings, Resource, CrashRecommendation } from '../types';
+import { calculateCPM, isDrivingLink, isNearCritical, DEFAULT_NEAR_CRITICAL_THRESHOLD } from '../utils/cpmLogic';
+import { migrateTasks, parsePredecessors, formatLinkLabel, toPredecessorLinks } from '../utils/dependencies';
 import { calculateLayout } from '../utils/layoutLogic';
+import { levelResources, DEFAULT_LEVELLING_OPTIONS } from '../utils/resourceLevelling';
+import { createBaseline } from '../utils/baselines';
+import { mergeResourcePools } from '../utils/resources';
+import { MspdiImport } from '../utils/mspdi';
+import { buildNetworkDrawing, buildGanttDrawing } from '../utils/planDrawing';
+import { CONSTRAINT_LABELS, formatConstraint } from '../utils/constraints';
+import { buildChildrenMap, getAncestors, getDescendants, collapseNetwork, wbsOrder } from '../utils/wbs';
 import { BaseDiagramEditor } from './StructuredAnalysis/BaseDiagramEditor';
 import { CanvasNode, CanvasConnection } from './common/DiagramCanvas';
 import { GanttChart } from './GanttChart';
 import { EditTaskModal } from './EditTaskModal';
 import { NodeDetailsPanel } from './NodeDetailsPanel';
 import { HelpModal } from './HelpModal';
-import { ArrowLeft, Save, Plus, List, HelpCircle, ImageIcon, ZoomIn, ZoomOut, Move, Edit2 } from 'lucide-react';
+import { ScheduleSettingsModal } from './ScheduleSettingsModal';
+import { PertAnalysisPanel } from './PertAnalysisPanel';
+import { CriticalPathsPanel } from './CriticalPathsPanel';
+import { RiskAnalysisView } from './RiskAnalysisView';
+import { EarnedValueView } from './EarnedValueView';
+import { CrashingView } from './CrashingView';
+import { ActivityOnArrowView } from './ActivityOnArrowView';
+import { TimeScaledDiagram } from './TimeScaledDiagram';
+import { TaskGridView } from './TaskGridView';
+import { ResourcePoolModal } from './ResourcePoolModal';
+import { ImportExportModal } from './ImportExportModal';
+import { DrawingExportModal, DrawingView } from './DrawingExportModal';
+import { ResourceLevellingPanel } from './ResourceLevellingPanel';
+import { BaselinePanel } from './BaselinePanel';
+import { BaselineVarianceTable } from './BaselineVarianceTable';
+import { ArrowLeft, Save, Plus, List, HelpCircle, ImageIcon, ZoomIn, ZoomOut, Move, Edit2, CalendarDays, Users, Lock, Flag, ChevronRight, ChevronDown, Clock, AlertTriangle, ArrowLeftRight, Printer } from 'lucide-react';
 import { toPng } from 'html-to-image';
 
 interface CPMEditorProps {
     project: Project;
-    onSave: (id: string, taskData: Task[]) => void;
+    onSave: (id: string, taskData: Task[], schedule?: ScheduleSettings) => void;
     onBack: () => void;
     theme: 'dark' | 'light';
 }
 
 export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, theme }) => {
-    const [tasks, setTasks] = useState<Task[]>(project.data || []);
-    const [viewMode, setViewMode] = useState<'diagram' | 'gantt'>('diagram');
+    const [tasks, setTasks] = useState<Task[]>(() => migrateTasks(project.data || []));
+    const [viewMode, setViewMode] = useState<'diagram' | 'aoa' | 'gantt' | 'grid' | 'risk' | 'evm' | 'crash'>('diagram');
     const [selectedIds, setSelectedIds] = useState<string[]>([]);
     const [activeTool, setActiveTool] = useState<'select' | 'connect' | 'pan'>('select');
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const [helpOpen, setHelpOpen] = useState(false);
     const [editingTask, setEditingTask] = useState<Task | null>(null);
     const [lastSaved, setLastSaved] = useState(false);
+    const [schedule, setSchedule] = useState<ScheduleSettings>(project.schedule || {});
+    const [scheduleSettingsOpen, setScheduleSettingsOpen] = useState(false);
+    const [resourcePoolOpen, setResourcePoolOpen] = useState(false);
+    const [importExportOpen, setImportExportOpen] = useState(false);
+    const [drawingExportOpen, setDrawingExportOpen] = useState(false);
+    const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
+    const [timeScaled, setTimeScaled] = useState(false);
 
     // Undo/Redo State
     const [history, setHistory] = useState<{ past: Task[][], future: Task[][] }>({ past: [], future: [] });
@@ -45,24 +75,68 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
     // Auto-save
     useEffect(() => {
         const timer = setTimeout(() => {
-            if (JSON.stringify(tasks) !== JSON.stringify(project.data)) {
-                onSave(project.id, tasks);
+            if (JSON.stringify(tasks) !== JSON.stringify(project.data) || JSON.stringify(schedule) !== JSON.stringify(project.schedule || {})) {
+                onSave(project.id, tasks, schedule);
                 setLastSaved(true);
                 setTimeout(() => setLastSaved(false), 2000);
             }
         }, 1000);
         return () => clearTimeout(timer);
-    }, [tasks, project.id, onSave, project.data]);
+    }, [tasks, schedule, project.id, onSave, project.data, project.schedule]);
 
-    const processedData = useMemo(() => {
-        const cpmResult = calculateCPM(tasks);
-        return calculateLayout(cpmResult.processedTasks);
-    }, [tasks]);
+    const cpmResult = useMemo(() => calculateCPM(tasks, { statusDate: schedule.statusDate }), [tasks, schedule.statusDate]);
+
+    const children = useMemo(() => buildChildrenMap(tasks), [tasks]);
+
+    // A dependency loop leaves nothing scheduled, so lay out the unscheduled network to show where it is
+    const networkTasks = useMemo(() => cpmResult.cycles.length === 0 ? cpmResult.processedTasks : tasks.map(t => ({
+        ...t, predecessors: toPredecessorLinks(t.predecessors), es: 0, ef: t.duration, ls: 0, lf: t.duration, slack: 0, isCritical: false
+    })), [cpmResult, tasks]);
+    const cycleLinks = new Set(cpmResult.cycles.flatMap(cycle => cycle.map((id, i) => `${id}-${cycle[(i + 1) % cycle.length]}`)));
+    const cycleTaskIds = new Set(cpmResult.cycles.flat());
+
+    // The network shows leaf tasks, with collapsed branches folded into one summary node
+    const processedData = useMemo(
+        () => calculateLayout(collapseNetwork(networkTasks, tasks, new Set(collapsedIds))),
+        [networkTasks, tasks, collapsedIds]
+    );
+
+    const wbsCodes = new Map(cpmResult.processedTasks.map(t => [t.id, t.wbsCode]));
+
+    const toggleCollapse = (id: string) => {
+        setCollapsedIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+    };
+
+    const nearCriticalThreshold = schedule.nearCriticalThreshold ?? DEFAULT_NEAR_CRITICAL_THRESHOLD;
+    const nearCriticalCount = cpmResult.processedTasks.filter(t => isNearCritical(t, nearCriticalThreshold)).length;
+
+    const levellingOptions = schedule.levelling || DEFAULT_LEVELLING_OPTIONS;
+    const levellingResult = useMemo(() => {
+        if (!levellingOptions.enabled || !schedule.resources?.length) return null;
+        return levelResources(tasks, schedule.resources, levellingOptions, { statusDate: schedule.statusDate });
+    }, [tasks, schedule.resources, schedule.statusDate, levellingOptions]);
+
+    const ganttTasks = levellingResult ? levellingResult.levelledTasks : (cpmResult.processedTasks.length > 0 ? cpmResult.processedTasks : tasks);
+    const baselines = schedule.baselines || [];
+    const activeBaseline = baselines.find(b => b.id === schedule.activeBaselineId);
+
+    const saveBaseline = (name: string) => {
+        const baseline = createBaseline(name, ganttTasks, schedule.resources || []);
+        setSchedule({ ...schedule, baselines: [...baselines, baseline], activeBaselineId: baseline.id });
+    };
+
+    const deleteBaseline = (id: string) => {
+        setSchedule({
+            ...schedule,
+            baselines: baselines.filter(b => b.id !== id),
+            activeBaselineId: schedule.activeBaselineId === id ? undefined : schedule.activeBaselineId
+        });
+    };
 
     const projectDuration = useMemo(() => {
-        if (processedData.length === 0) return 0;
-        return Math.max(...processedData.map(t => t.ef));
-    }, [processedData]);
+        if (cpmResult.processedTasks.length === 0) return 0;
+        return Math.max(...cpmResult.processedTasks.map(t => t.ef));
+    }, [cpmResult]);
 
     // Undo/Redo Logic
     const pushToHistory = (currentTasks: Task[]) => {
@@ -96,7 +170,7 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
             id: (tasks.length + 1).toString(),
             name: newTaskName,
             duration: newTaskType === 'task' ? parseInt(newTaskDuration) || 1 : 0,
-            predecessors: newTaskPred ? newTaskPred.split(',').map(s => s.trim()) : [],
+            predecessors: parsePredecessors(newTaskPred),
             type: newTaskType
         };
 
@@ -113,10 +187,11 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
             if (t.id === originalId) {
                 return { ...t, ...updates, id: newId };
             }
-            if (originalId !== newId && t.predecessors.includes(originalId)) {
+            if (originalId !== newId && (t.parentId === originalId || t.predecessors.some(p => p.id === originalId))) {
                 return {
                     ...t,
-                    predecessors: t.predecessors.map(p => p === originalId ? newId : p)
+                    parentId: t.parentId === originalId ? newId : t.parentId,
+                    predecessors: t.predecessors.map(p => p.id === originalId ? { ...p, id: newId } : p)
                 };
             }
             return t;
@@ -126,17 +201,55 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
 
     const removeTask = (taskId: string) => {
         pushToHistory(tasks);
+        const removed = tasks.find(t => t.id === taskId);
+        // Children move up to the removed task's own parent
         setTasks(prev => prev.filter(t => t.id !== taskId).map(t => ({
             ...t,
-            predecessors: t.predecessors.filter(p => p !== taskId)
+            parentId: t.parentId === taskId ? removed?.parentId : t.parentId,
+            predecessors: t.predecessors.filter(p => p.id !== taskId)
         })));
         setEditingTask(null);
         setSelectedIds([]);
     };
 
+    const importProjectXml = ({ tasks: imported, resources, startDate }: MspdiImport) => {
+        const { pool, idMap } = mergeResourcePools(schedule.resources || [], resources);
+        pushToHistory(tasks);
+        setTasks(imported.map(t => t.resources
+            ? { ...t, resources: t.resources.map(a => ({ ...a, resourceId: idMap.get(a.resourceId) || a.resourceId })) }
+            : t));
+        setSchedule({ ...schedule, resources: pool, startDate: startDate ?? schedule.startDate });
+        setCollapsedIds([]);
+        setSelectedIds([]);
+    };
+
+    const applyCrashes = (recommendations: CrashRecommendation[]) => {
+        const crashed = new Map(recommendations.map(r => [r.id, r.toDuration]));
+        pushToHistory(tasks);
+        setTasks(prev => prev.map(t => crashed.has(t.id) ? {
+            ...t,
+            duration: crashed.get(t.id)!,
+            // Keep the remaining crash potential consistent with the new duration
+            crashCost: t.crashDuration !== undefined && t.crashDuration < t.duration
+                ? (t.crashCost ?? 0) * (crashed.get(t.id)! - t.crashDuration) / (t.duration - t.crashDuration)
+                : t.crashCost
+        } : t));
+    };
+
+    const saveResourcePool = (pool: Resource[]) => {
+        // Drop assignments to resources that were removed from the pool
+        const ids = new Set(pool.map(r => r.id));
+        if (tasks.some(t => t.resources?.some(a => !ids.has(a.resourceId)))) {
+            pushToHistory(tasks);
+            setTasks(prev => prev.map(t => ({ ...t, resources: t.resources?.filter(a => ids.has(a.resourceId)) })));
+        }
+        setSchedule({ ...schedule, resources: pool });
+    };
+
     // Transform for BaseDiagramEditor
     const canvasNodes: CanvasNode[] = processedData.map(node => {
         const isCritical = node.isCritical;
+        const nearCritical = isNearCritical(node, nearCriticalThreshold);
         const isStart = node.type === 'start';
         const isEnd = node.type === 'end';
         const isSelected = selectedIds.includes(node.id);
@@ -144,12 +257,21 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
         // Replicate Node.tsx styles
         let colorClasses = isCritical
             ? `border-[3px] border-red-500 ${isDark ? 'bg-slate-900 text-slate-200' : 'bg-white text-slate-800'}`
-            : `border-[3px] ${isDark ? 'bg-slate-900 border-slate-600 text-slate-200' : 'bg-white border-slate-900 text-slate-800'}`;
+            : nearCritical
+                ? `border-[3px] border-amber-500 ${isDark ? 'bg-slate-900 text-slate-200' : 'bg-white text-slate-800'}`
+                : `border-[3px] ${isDark ? 'bg-slate-900 border-slate-600 text-slate-200' : 'bg-white border-slate-900 text-slate-800'}`;
 
         if (isSelected) {
             colorClasses = `border-[3px] border-blue-500 ${isDark ? 'bg-slate-900 text-slate-200' : 'bg-white text-slate-800'}`;
         }
 
+        if (cycleTaskIds.has(node.id) && !isSelected) {
+            colorClasses = `border-[3px] border-rose-600 ring-8 ring-rose-500/30 ${isDark ? 'bg-slate-900 text-slate-200' : 'bg-white text-slate-800'}`;
+        }
+
+        // Collapsed summary nodes stand in for a whole branch
+        if (node.isSummary) colorClasses += ' border-dashed';
+
         if (isStart) {
             colorClasses = isDark
                 ? 'bg-emerald-950/30 border-[3px] border-emerald-500/50 text-emerald-400'
@@ -184,11 +306,27 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                     <div className={`absolute top-2 px-3 py-0.5 rounded-full text-[10px] font-bold tracking-wider ${isStart ? (isDark ? 'bg-emerald-900/50 text-emerald-400' : 'bg-emerald-100 text-emerald-700') :
                         isEnd ? (isDark ? 'bg-slate-700 text-slate-300' : 'bg-slate-800 text-slate-300') :
                             isCritical ? (isDark ? 'bg-rose-900/30 text-rose-300' : 'bg-rose-100 text-rose-700') :
+                                nearCritical ? (isDark ? 'bg-amber-900/30 text-amber-300' : 'bg-amber-100 text-amber-700') :
                                 (isDark ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-500')
                         }`}>
                         ID: {node.id}
                     </div>
 
+                    {(node.constraint || node.deadline !== undefined) && (
+                        <div className="absolute top-8 flex gap-1 text-[9px] font-bold">
+                            {node.constraint && (
+                                <span className={`flex items-center gap-0.5 px-1.5 rounded ${node.constraintViolated ? 'bg-rose-500 text-white' : (isDark ? 'bg-amber-500/10 text-amber-400' : 'bg-amber-100 text-amber-700')}`} title={`${CONSTRAINT_LABELS[node.constraint.type]} day ${node.constraint.day}${node.constraintViolated ? ' (violated)' : ''}`}>
+                                    <Lock size={8} /> {formatConstraint(node.constraint)}
+                                </span>
+                            )}
+                            {node.deadline !== undefined && (
+                                <span className={`flex items-center gap-0.5 px-1.5 rounded ${node.deadlineMissed ? 'bg-rose-500 text-white' : (isDark ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-500')}`} title={`Deadline day ${node.deadline}${node.deadlineMissed ? ' (missed)' : ''}`}>
+                                    <Flag size={8} /> {node.deadline}
+                                </span>
+                            )}
+                        </div>
+                    )}
+
                     <div className="flex flex-col items-center text-center px-4 w-full">
                         <span className={`text-sm font-bold leading-tight mb-1 line-clamp-2 ${isEnd ? (isDark ? 'text-slate-200' : 'text-white') : (isDark ? 'text-slate-200' : 'text-slate-800')}`}>
                             {node.name}
@@ -198,6 +336,15 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                                 {node.duration} days
                             </span>
                         )}
+                        {node.isSummary && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); toggleCollapse(node.id); }}
+                                className={`mt-1 text-[10px] font-bold px-2 rounded-full ${isDark ? 'bg-slate-800 text-slate-400 hover:text-slate-200' : 'bg-slate-100 text-slate-500 hover:text-slate-800'}`}
+                                title="Expand summary"
+                            >
+                                Σ {getDescendants(node.id, children).length} tasks
+                            </button>
+                        )}
                     </div>
 
                     <div className={`absolute bottom-6 w-[70%] grid grid-cols-2 gap-x-2 gap-y-1 text-[9px] border-t pt-1 mt-1 ${isEnd ? 'border-slate-500 text-slate-400' : (isDark ? 'border-slate-700 text-slate-500' : 'border-slate-100 text-slate-400')}`}>
@@ -211,7 +358,7 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                         </div>
                         <div className="text-center">
                             <span className="block text-[7px] uppercase opacity-50">Slack</span>
-                            <span className={`font-mono font-bold ${node.slack === 0 ? 'text-rose-500' : (isEnd ? 'text-slate-300' : (isDark ? 'text-slate-400' : 'text-slate-600'))}`}>
+                            <span className={`font-mono font-bold ${node.slack <= 0 ? 'text-rose-500' : (isEnd ? 'text-slate-300' : (isDark ? 'text-slate-400' : 'text-slate-600'))}`}>
                                 {node.manualSlack !== undefined && node.manualSlack !== null && node.manualSlack !== '' ? (
                                     <span className="flex items-center justify-center gap-0.5 text-blue-500">
                                         {node.slack}*
@@ -226,11 +373,24 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
     });
 
     const canvasConnections: CanvasConnection[] = processedData.flatMap(node =>
-        node.predecessors.map(predId => {
+        node.predecessors.map(link => {
+            const predId = link.id;
             const predNode = processedData.find(n => n.id === predId);
             if (!predNode) return null;
 
-            const isCritical = node.isCritical && predNode.isCritical && (Math.abs(node.es - predNode.ef) < 0.001);
+            // A link is on the critical path only if it is the one driving the successor's start
+            const isDriving = isDrivingLink(predNode, node, link);
+            const isCritical = node.isCritical && predNode.isCritical && isDriving;
+            // Near-critical chains: driving links between tasks that are each critical or near-critical
+            const isNearCriticalLink = !isCritical && isDriving
+                && (predNode.isCritical || isNearCritical(predNode, nearCriticalThreshold))
+                && (node.isCritical || isNearCritical(node, nearCriticalThreshold));
+
+            // Start-linked ends leave from the left of the node, finish-linked ends from the right
+            const sourceSide = link.type === 'SS' || link.type === 'SF' ? 'left' : 'right';
+            const targetSide = link.type === 'FF' || link.type === 'SF' ? 'right' : 'left';
+
+            const inCycle = cycleLinks.has(`${predId}-${node.id}`);
 
             const connection: CanvasConnection = {
                 id: `${predId}-${node.id}`,
@@ -238,7 +398,13 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                 end: { x: (node.x || 0) - 90, y: (node.y || 0) }, // Left center (radius 90)
                 sourceNodeId: predId,
                 targetNodeId: node.id,
-                color: isCritical ? (isDark ? '#ef4444' : '#dc2626') : undefined,
+                color: inCycle ? '#e11d48' : isCritical ? (isDark ? '#ef4444' : '#dc2626') : isNearCriticalLink ? (isDark ? '#f59e0b' : '#d97706') : undefined,
+                dashed: inCycle,
+                label: formatLinkLabel(link) || undefined,
+                anchors: link.type === 'FS' ? undefined : {
+                    source: { x: (predNode.x || 0) + (sourceSide === 'left' ? 0 : 180), y: (predNode.y || 0) + 90, side: sourceSide },
+                    target: { x: (node.x || 0) + (targetSide === 'left' ? 0 : 180), y: (node.y || 0) + 90, side: targetSide }
+                },
                 targetArrow: true,
                 lineStyle: 'curved'
             };
@@ -252,11 +418,23 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
 
     const handleConnectionCreate = (sourceId: string, targetId: string) => {
         const targetTask = tasks.find(t => t.id === targetId);
-        if (targetTask && !targetTask.predecessors.includes(sourceId)) {
-            updateTask(targetId, targetId, { predecessors: [...targetTask.predecessors, sourceId] });
+        if (targetTask && !targetTask.predecessors.some(p => p.id === sourceId)) {
+            updateTask(targetId, targetId, { predecessors: [...targetTask.predecessors, { id: sourceId, type: 'FS', lag: 0 }] });
         }
     };
 
+    const timeScaleToggle = (
+        <button
+            onClick={() => setTimeScaled(!timeScaled)}
+            className={`p-2 rounded-lg transition-colors ${timeScaled ? 'bg-blue-500 text-white' : (isDark ? 'text-slate-400 hover:text-slate-200 hover:bg-slate-800' : 'text-stone-500 hover:text-stone-700 hover:bg-stone-100')}`}
+            title="Time-scaled: place tasks by early start with float as dashed tails"
+        >
+            <Clock size={20} />
+        </button>
+    );
+
+    const selectedNode = selectedIds.length === 1 ? processedData.find(n => n.id === selectedIds[0]) : undefined;
+
     const handleDelete = () => {
         selectedIds.forEach(id => removeTask(id));
     };
@@ -329,6 +507,10 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
         }
     };
 
+    const buildDrawing = (view: DrawingView) => view === 'network'
+        ? buildNetworkDrawing(processedData, nearCriticalThreshold)
+        : buildGanttDrawing(levellingResult ? levellingResult.levelledTasks : cpmResult.processedTasks, schedule, nearCriticalThreshold);
+
     const handleExport = async () => {
         if (viewMode === 'gantt' && ganttRef.current) {
             try {
@@ -360,8 +542,22 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                         <p><strong>Critical Path Method (CPM)</strong> helps you plan and schedule projects.</p>
                         <ul className="list-disc pl-5 space-y-2">
                             <li><strong>Nodes:</strong> Represent tasks.</li>
-                            <li><strong>Arrows:</strong> Represent dependencies.</li>
+                            <li><strong>Gantt editing:</strong> Drag a bar to give the task a start-no-earlier-than constraint (must-start-on if it had a mandatory constraint), drag its right edge to change the duration, or drag the dot after a bar onto another task to link them. Undo reverts these edits too.</li>
+                            <li><strong>Time-scaled:</strong> The clock button in the diagram toolbar places each task at its early start along a date axis; dashed tails show how far it can slip. Nodes can only be dragged up and down in this mode.</li>
+                            <li><strong>Dependency problems:</strong> A dependency loop stops the schedule from being calculated. The tasks and links in the loop are outlined in red and listed at the bottom left; links to tasks that do not exist are listed as warnings and ignored.</li>
+                            <li><strong>Grid:</strong> Edit tasks as a spreadsheet. Use the arrow keys and Tab to move, Enter or typing to edit, and paste rows copied from Excel (ID, name, duration, predecessors, resources, cost). Problem links are highlighted in red.</li>
+                            <li><strong>Arrow view:</strong> Shows the same network as an activity-on-arrow diagram. Circles are events with their earliest and latest times; dashed arrows are dummy activities that carry dependencies without taking time.</li>
+                            <li><strong>Arrows:</strong> Represent dependencies. Labels show the link type and lag (e.g. <code>SS+3</code>); unlabeled arrows are Finish-to-Start.</li>
                             <li><strong>Red Nodes/Arrows:</strong> The Critical Path. Any delay here delays the project.</li>
+                            <li><strong>Amber Nodes/Arrows:</strong> Near-critical work whose slack is within the threshold set in the sidebar.</li>
+                            <li><strong>PERT:</strong> Give tasks optimistic / most likely / pessimistic estimates and enter a target finish day to see the probability of meeting it.</li>
+                            <li><strong>Progress:</strong> Record actual start/finish and percent complete on each task, then set a status date in the calendar settings; remaining work is rescheduled from that day.</li>
+                            <li><strong>Constraints:</strong> Start/finish constraints and deadlines are shown as badges; a red badge means the network logic cannot meet it and the path gets negative slack.</li>
+                            <li><strong>Crashing:</strong> Give tasks a crash duration and the extra cost of reaching it, then pick a target duration to see the cheapest way there.</li>
+                            <li><strong>Summary Tasks:</strong> Pick a summary task when editing a task to build a work breakdown structure. Summaries roll up dates and cost from their children, links to a summary apply to all of its children, and collapsed summaries show as a single dashed node.</li>
+                            <li><strong>Import / Export:</strong> Exchange the plan with Microsoft Project as Project XML, or with spreadsheets as CSV, and export milestones and tasks to your calendar as an .ics file. Project XML imports replace the task list and list anything that could not be carried over; CSV imports let you map columns and either replace or merge by task ID.</li>
+                            <li><strong>Vector / PDF:</strong> Export the network or Gantt as SVG, or as a PDF scaled to one sheet or tiled across several at a chosen scale, with the title block on every page. Export PNG still captures the screen as shown.</li>
+                            <li><strong>Earned Value:</strong> With a baseline selected and a status date set, enter actual costs on tasks to see PV, EV, AC and the performance indices.</li>
                         </ul>
                     </div>
                 }
@@ -390,11 +586,28 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                 <div className="flex items-center gap-2">
                     <div className={`flex rounded-lg p-1 mr-2 ${isDark ? 'bg-slate-800' : 'bg-stone-100'}`}>
                         <button onClick={() => setViewMode('diagram')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'diagram' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>Diagram</button>
+                        <button onClick={() => setViewMode('aoa')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'aoa' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`} title="Activity-on-arrow diagram">Arrow</button>
                         <button onClick={() => setViewMode('gantt')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'gantt' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>Gantt</button>
+                        <button onClick={() => setViewMode('grid')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'grid' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`} title="Spreadsheet task entry">Grid</button>
+                        <button onClick={() => setViewMode('risk')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'risk' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>Risk</button>
+                        <button onClick={() => setViewMode('evm')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'evm' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>Earned Value</button>
+                        <button onClick={() => setViewMode('crash')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'crash' ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>Crashing</button>
                     </div>
+                    <button onClick={() => setScheduleSettingsOpen(true)} className={`btn border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`} title="Project start date and working calendar">
+                        <CalendarDays size={16} /> <span className="hidden md:inline">Calendar</span>
+                    </button>
+                    <button onClick={() => setResourcePoolOpen(true)} className={`btn border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`} title="Project resource pool">
+                        <Users size={16} /> <span className="hidden md:inline">Resources</span>
+                    </button>
+                    <button onClick={() => setImportExportOpen(true)} className={`btn border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`} title="Exchange the plan with other tools">
+                        <ArrowLeftRight size={16} /> <span className="hidden md:inline">Import / Export</span>
+                    </button>
                     <button onClick={handleExport} className={`btn border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`}>
                         <ImageIcon size={16} /> <span className="hidden md:inline">Export PNG</span>
                     </button>
+                    <button onClick={() => setDrawingExportOpen(true)} className={`btn border ${isDark ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-stone-200 text-stone-700 hover:bg-stone-50'}`} title="Sharp SVG or print-ready PDF of the network or Gantt">
+                        <Printer size={16} /> <span className="hidden md:inline">Vector / PDF</span>
+                    </button>
                     <div className={`text-xs font-medium px-3 py-1.5 rounded-full ${lastSaved ? 'bg-green-100 text-green-700' : 'opacity-0'}`}>
                         Saved
                     </div>
@@ -403,7 +616,44 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
             </div>
 
             {/* Modals */}
-            {editingTask && <EditTaskModal task={editingTask} onSave={updateTask} onDelete={removeTask} onClose={() => setEditingTask(null)} allTaskIds={tasks.map(t => t.id)} />}
+            {scheduleSettingsOpen && <ScheduleSettingsModal schedule={schedule} onSave={setSchedule} onClose={() => setScheduleSettingsOpen(false)} />}
+            {resourcePoolOpen && <ResourcePoolModal resources={schedule.resources || []} onSave={saveResourcePool} onClose={() => setResourcePoolOpen(false)} />}
+            {importExportOpen && (
+                <ImportExportModal
+                    projectId={project.id}
+                    projectName={project.name}
+                    tasks={tasks}
+                    scheduledTasks={cpmResult.processedTasks}
+                    schedule={schedule}
+                    onImportProjectXml={importProjectXml}
+                    onImportCsv={next => { pushToHistory(tasks); setTasks(next); }}
+                    onSetStartDate={startDate => setSchedule({ ...schedule, startDate })}
+                    onClose={() => setImportExportOpen(false)}
+                />
+            )}
+            {drawingExportOpen && (
+                <DrawingExportModal
+                    projectName={project.name}
+                    stats={`${tasks.length} Tasks / ${projectDuration} Days`}
+                    initialView={viewMode === 'gantt' ? 'gantt' : 'network'}
+                    buildDrawing={buildDrawing}
+                    onClose={() => setDrawingExportOpen(false)}
+                />
+            )}
+            {editingTask && (
+                <EditTaskModal
+                    task={editingTask}
+                    onSave={updateTask}
+                    onDelete={removeTask}
+                    onClose={() => setEditingTask(null)}
+                    allTaskIds={tasks.map(t => t.id)}
+                    resourcePool={schedule.resources || []}
+                    parentCandidates={tasks
+                        .filter(t => t.id !== editingTask.id && !getDescendants(editingTask.id, children).includes(t.id) && t.type !== 'start' && t.type !== 'end')
+                        .map(t => t.id)}
+                    isSummary={children.has(editingTask.id)}
+                />
+            )}
 
             {/* Main Content */}
             <div className="flex flex-col md:flex-row flex-1 overflow-hidden relative">
@@ -423,17 +673,39 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
                                     <input type="number" min="1" placeholder="Days" className={`w-1/3 px-3 py-2 border rounded-lg text-sm ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200' : 'bg-stone-50 border-stone-200'}`} value={newTaskDuration} onChange={e => setNewTaskDuration(e.target.value)} />
                                 )}
                             </div>
-                            <input type="text" placeholder="Preds (e.g. A, B)" className={`w-full px-3 py-2 border rounded-lg text-sm uppercase ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200 placeholder-slate-600' : 'bg-stone-50 border-stone-200'}`} value={newTaskPred} onChange={e => setNewTaskPred(e.target.value)} />
+                            <input type="text" placeholder="Preds (e.g. A, B SS+2)" className={`w-full px-3 py-2 border rounded-lg text-sm uppercase ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200 placeholder-slate-600' : 'bg-stone-50 border-stone-200'}`} value={newTaskPred} onChange={e => setNewTaskPred(e.target.value)} />
                             <button disabled={!newTaskName} type="submit" className={`btn w-full text-white ${isDark ? 'bg-slate-800 hover:bg-slate-700' : 'bg-stone-900 hover:bg-stone-800'}`}><Plus size={16} /> Add</button>
                         </form>
 
+                        <PertAnalysisPanel
+                            expectedDuration={cpmResult.criticalPathExpectedDuration}
+                            stdDev={cpmResult.criticalPathStdDev}
+                            schedule={schedule}
+                            onScheduleChange={setSchedule}
+                            isDark={isDark}
+                        />
+
+                        <CriticalPathsPanel
+                            criticalPaths={cpmResult.criticalPaths}
+                            nearCriticalCount={nearCriticalCount}
+                            schedule={schedule}
+                            onScheduleChange={setSchedule}
+                            isDark={isDark}
+                        />
+
                         <div className="space-y-2">
                             <label className={`text-[10px] font-bold uppercase ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Tasks</label>
-                            {tasks.map(t => (
-                                <div key={t.id} className={`group flex items-center justify-between p-2.5 border rounded-lg transition-colors cursor-pointer ${isDark ? 'bg-slate-950 border-slate-800 hover:border-blue-500/50 text-slate-300' : 'bg-white border-stone-200 hover:border-blue-400'}`} onClick={() => setEditingTask(t)}>
+                            {wbsOrder(tasks).filter(t => !getAncestors(t.id, tasks).some(a => collapsedIds.includes(a))).map(t => (
+                                <div key={t.id} className={`group flex items-center justify-between p-2.5 border rounded-lg transition-colors cursor-pointer ${isDark ? 'bg-slate-950 border-slate-800 hover:border-blue-500/50 text-slate-300' : 'bg-white border-stone-200 hover:border-blue-400'}`} style={{ marginLeft: getAncestors(t.id, tasks).length * 12 }} onClick={() => setEditingTask(t)}>
                                     <div className="flex items-center gap-3 overflow-hidden">
+                                        {children.has(t.id) && (
+                                            <button onClick={(e) => { e.stopPropagation(); toggleCollapse(t.id); }} className={`-mr-2 ${isDark ? 'text-slate-500 hover:text-slate-300' : 'text-stone-400 hover:text-stone-700'}`} title={collapsedIds.includes(t.id) ? 'Expand' : 'Collapse'}>
+                                                {collapsedIds.includes(t.id) ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                                            </button>
+                                        )}
                                         <span className={`w-6 h-6 flex items-center justify-center text-xs font-bold rounded ${t.type === 'start' ? (isDark ? 'bg-emerald-500/10 text-emerald-400' : 'bg-emerald-100 text-emerald-700') : t.type === 'end' ? (isDark ? 'bg-slate-800 text-slate-300' : 'bg-slate-800 text-white') : (isDark ? 'bg-slate-800 text-slate-400' : 'bg-stone-100')}`}>{t.id}</span>
-                                        <span className="text-sm font-medium truncate">{t.name}</span>
+                                        <span className={`text-sm truncate ${children.has(t.id) ? 'font-bold' : 'font-medium'}`}>{t.name}</span>
+                                        {wbsCodes.get(t.id) && <span className={`ml-auto text-[10px] font-mono ${isDark ? 'text-slate-600' : 'text-stone-400'}`}>{wbsCodes.get(t.id)}</span>}
                                     </div>
                                     <Edit2 size={12} className={`group-hover:text-blue-500 ${isDark ? 'text-slate-600' : 'text-stone-300'}`} />
                                 </div>
@@ -444,29 +716,138 @@ export const CPMEditor: React.FC<CPMEditorProps> = ({ project, onSave, onBack, t
 
                 {/* Canvas/Gantt */}
                 <div className={`flex-1 relative overflow-hidden ${isDark ? 'bg-slate-950' : 'bg-stone-50'}`}>
-                    {viewMode === 'gantt' ? (
-                        <div className="p-8 h-full overflow-auto" ref={ganttRef}>
-                            <GanttChart project={{ ...project, data: processedData.length > 0 ? processedData : tasks }} theme={theme} />
+                    {viewMode === 'aoa' ? (
+                        <ActivityOnArrowView tasks={cpmResult.processedTasks} isDark={isDark} />
+                    ) : viewMode === 'risk' ? (
+                        <div className="p-8 h-full overflow-auto">
+                            <RiskAnalysisView tasks={tasks} schedule={schedule} theme={theme} />
                         </div>
-                    ) : (
-                        <div className="w-full h-full" ref={exportRef}>
-                            <BaseDiagramEditor
-                                nodes={canvasNodes}
-                                connections={canvasConnections}
-                                selectedIds={selectedIds}
-                                onSelectionChange={setSelectedIds}
-                                activeTool={activeTool}
-                                setActiveTool={setActiveTool}
+                    ) : viewMode === 'grid' ? (
+                        <div className="p-8 h-full overflow-auto">
+                            <TaskGridView
+                                tasks={tasks}
+                                scheduledTasks={cpmResult.processedTasks}
+                                pool={schedule.resources || []}
                                 isDark={isDark}
-                                onNodeMove={handleNodeMove}
-                                onConnectionCreate={handleConnectionCreate}
-                                onDelete={handleDelete}
-                                undo={undo}
-                                redo={redo}
-                                canUndo={history.past.length > 0}
-                                canRedo={history.future.length > 0}
+                                onChange={next => { pushToHistory(tasks); setTasks(next); }}
                             />
                         </div>
+                    ) : viewMode === 'crash' ? (
+                        <div className="p-8 h-full overflow-auto">
+                            <CrashingView tasks={tasks} projectDuration={projectDuration} schedule={schedule} onApply={applyCrashes} theme={theme} />
+                        </div>
+                    ) : viewMode === 'evm' ? (
+                        <div className="p-8 h-full overflow-auto">
+                            <EarnedValueView tasks={ganttTasks} schedule={schedule} theme={theme} />
+                        </div>
+                    ) : viewMode === 'gantt' ? (
+                        <div className="p-8 h-full overflow-auto">
+                            <BaselinePanel
+                                baselines={baselines}
+                                activeBaselineId={activeBaseline?.id}
+                                onSelect={id => setSchedule({ ...schedule, activeBaselineId: id })}
+                                onCreate={saveBaseline}
+                                onDelete={deleteBaseline}
+                                isDark={isDark}
+                            />
+                            {(schedule.resources?.length ?? 0) > 0 && (
+                                <ResourceLevellingPanel
+                                    options={levellingOptions}
+                                    onOptionsChange={levelling => setSchedule({ ...schedule, levelling })}
+                                    result={levellingResult}
+                                    isDark={isDark}
+                                />
+                            )}
+                            <div ref={ganttRef}>
+                                <GanttChart
+                                    project={{ ...project, data: ganttTasks }}
+                                    theme={theme}
+                                    schedule={schedule}
+                                    originalTasks={levellingResult ? cpmResult.processedTasks : undefined}
+                                    baseline={activeBaseline}
+                                    collapsedIds={collapsedIds}
+                                    onToggleCollapse={toggleCollapse}
+                                    onTaskChange={(id, updates) => updateTask(id, id, updates)}
+                                    onLinkCreate={handleConnectionCreate}
+                                />
+                            </div>
+                            {activeBaseline && (
+                                <BaselineVarianceTable tasks={ganttTasks} baseline={activeBaseline} pool={schedule.resources || []} isDark={isDark} />
+                            )}
+                        </div>
+                    ) : (
+                        <div className="w-full h-full" ref={exportRef}>
+                            {timeScaled ? (
+                                <TimeScaledDiagram
+                                    nodes={processedData}
+                                    schedule={schedule}
+                                    nearCriticalThreshold={nearCriticalThreshold}
+                                    isDark={isDark}
+                                    selectedIds={selectedIds}
+                                    onSelectionChange={setSelectedIds}
+                                    activeTool={activeTool}
+                                    setActiveTool={setActiveTool}
+                                    onRowMove={(id, manualY) => updateTask(id, id, { manualY })}
+                                    onEdit={id => setEditingTask(tasks.find(t => t.id === id) || null)}
+                                    onConnectionCreate={handleConnectionCreate}
+                                    onDelete={handleDelete}
+                                    undo={undo}
+                                    redo={redo}
+                                    canUndo={history.past.length > 0}
+                                    canRedo={history.future.length > 0}
+                                    toolbarContent={timeScaleToggle}
+                                />
+                            ) : (
+                                <BaseDiagramEditor
+                                    nodes={canvasNodes}
+                                    connections={canvasConnections}
+                                    selectedIds={selectedIds}
+                                    onSelectionChange={setSelectedIds}
+                                    activeTool={activeTool}
+                                    setActiveTool={setActiveTool}
+                                    isDark={isDark}
+                                    onNodeMove={handleNodeMove}
+                                    onConnectionCreate={handleConnectionCreate}
+                                    onDelete={handleDelete}
+                                    undo={undo}
+                                    redo={redo}
+                                    canUndo={history.past.length > 0}
+                                    canRedo={history.future.length > 0}
+                                    toolbarContent={timeScaleToggle}
+                                />
+                            )}
+                        </div>
+                    )}
+                    {viewMode !== 'grid' && (cpmResult.cycles.length > 0 || cpmResult.warnings.length > 0) && (
+                        <div className={`absolute bottom-4 left-4 z-30 max-w-md p-3 rounded-xl border shadow-lg text-xs space-y-1 ${isDark ? 'bg-slate-900 border-rose-900 text-slate-300' : 'bg-white border-rose-200 text-stone-700'}`}>
+                            {cpmResult.cycles.map(cycle => (
+                                <button
+                                    key={cycle.join('-')}
+                                    onClick={() => setSelectedIds(cycle)}
+                                    className="flex items-start gap-2 text-left font-bold text-rose-500 hover:underline"
+                                    title="Select the tasks in this loop"
+                                >
+                                    <AlertTriangle size={14} className="shrink-0" />
+                                    Dependency loop: {[...cycle, cycle[0]].join(' → ')}
+                                </button>
+                            ))}
+                            {cpmResult.warnings.map(w => (
+                                <div key={`${w.taskId}-${w.predecessorId}`} className="flex items-start gap-2 text-amber-500">
+                                    <AlertTriangle size={14} className="shrink-0" />
+                                    {w.message}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {viewMode === 'diagram' && selectedNode && (
+                        <NodeDetailsPanel
+                            node={selectedNode}
+                            onEdit={() => setEditingTask(tasks.find(t => t.id === selectedNode.id) || null)}
+                            onDelete={() => removeTask(selectedNode.id)}
+                            onClose={() => setSelectedIds([])}
+                            theme={theme}
+                            schedule={schedule}
+                        />
                     )}
                 </div>
             </div>
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { Zap, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Task, ScheduleSettings, CrashRecommendation } from '../types';
+import { optimiseCrashing, crashSlope } from '../utils/crashing';
+
+interface CrashingViewProps {
+    tasks: Task[];
+    projectDuration: number;
+    schedule: ScheduleSettings;
+    onApply: (recommendations: CrashRecommendation[]) => void;
+    theme: 'dark' | 'light';
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const PADDING = 32;
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+export const CrashingView: React.FC<CrashingViewProps> = ({ tasks, projectDuration, schedule, onApply, theme }) => {
+    const isDark = theme === 'dark';
+    const [target, setTarget] = useState<number>(Math.max(0, projectDuration - 1));
+
+    const result = useMemo(() => optimiseCrashing(tasks, target, { statusDate: schedule.statusDate }), [tasks, target, schedule.statusDate]);
+    const crashableCount = tasks.filter(t => crashSlope(t) !== null).length;
+    const names = new Map(tasks.map(t => [t.id, t.name]));
+
+    const card = `p-4 rounded-xl border ${isDark ? 'bg-slate-900 border-slate-800' : 'bg-white border-stone-200 shadow-sm'}`;
+    const labelClass = `text-[10px] font-bold uppercase ${isDark ? 'text-slate-500' : 'text-stone-400'}`;
+    const inputClass = `px-3 py-2 border rounded-lg text-sm ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200' : 'bg-stone-50 border-stone-200 text-stone-800'}`;
+    const muted = isDark ? 'text-slate-500' : 'text-stone-500';
+
+    // Time-cost curve scales: duration on x (shorter to the left), extra cost on y
+    const minDuration = Math.min(...result.curve.map(p => p.duration));
+    const span = Math.max(1, result.originalDuration - minDuration);
+    const maxCost = Math.max(1, result.totalCost);
+    const x = (duration: number) => PADDING + ((duration - minDuration) / span) * (CHART_WIDTH - PADDING * 2);
+    const y = (cost: number) => CHART_HEIGHT - PADDING - (cost / maxCost) * (CHART_HEIGHT - PADDING * 2);
+
+    return (
+        <div className={`space-y-6 max-w-5xl mx-auto ${isDark ? 'text-slate-200' : 'text-stone-800'}`}>
+            {/* Controls */}
+            <div className={`${card} flex flex-wrap items-end gap-4`}>
+                <div className="flex items-center gap-2 mr-auto">
+                    <Zap size={20} className="text-amber-500" />
+                    <div>
+                        <h2 className="font-bold">Crashing</h2>
+                        <p className={`text-xs ${muted}`}>
+                            {crashableCount === 0
+                                ? 'Give tasks a crash duration and crash cost to explore time-cost trade-offs.'
+                                : `${crashableCount} crashable task${crashableCount === 1 ? '' : 's'}; the cheapest critical activities are shortened first.`}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <span className={labelClass}>Current</span>
+                    <span className="font-mono font-bold py-2">{result.originalDuration}d</span>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <span className={labelClass}>Target Duration</span>
+                    <input type="number" min="0" className={`${inputClass} w-28`} value={target} onChange={e => setTarget(Math.max(0, Number(e.target.value)))} />
+                </div>
+            </div>
+
+            {result.error ? (
+                <div className={`${card} text-rose-500 text-sm`}>{result.error}</div>
+            ) : (
+                <>
+                    {/* Outcome */}
+                    <div className={`${card} flex flex-wrap items-center gap-6`}>
+                        <div className={`flex items-center gap-2 text-sm font-bold ${result.reachedTarget ? 'text-emerald-500' : 'text-amber-500'}`}>
+                            {result.reachedTarget ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+                            {result.reachedTarget ? 'Target reachable' : `Can only reach ${result.finalDuration}d`}
+                        </div>
+                        <span className="text-sm"><span className={muted}>New duration:</span> <span className="font-mono font-bold">{result.finalDuration}d</span></span>
+                        <span className="text-sm"><span className={muted}>Extra cost:</span> <span className="font-mono font-bold">{formatMoney(result.totalCost)}</span></span>
+                        <button
+                            disabled={result.recommendations.length === 0}
+                            onClick={() => onApply(result.recommendations)}
+                            className={`btn ml-auto text-white disabled:opacity-40 ${isDark ? 'bg-slate-700 hover:bg-slate-600' : 'bg-stone-900 hover:bg-stone-800'}`}
+                        >
+                            Apply crashes
+                        </button>
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-6">
+                        {/* Time-cost curve */}
+                        <div className={card}>
+                            <span className={labelClass}>Time-Cost Curve</span>
+                            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto mt-2">
+                                <line x1={PADDING} y1={CHART_HEIGHT - PADDING} x2={CHART_WIDTH - PADDING} y2={CHART_HEIGHT - PADDING} stroke={isDark ? '#334155' : '#d6d3d1'} />
+                                <line x1={PADDING} y1={PADDING} x2={PADDING} y2={CHART_HEIGHT - PADDING} stroke={isDark ? '#334155' : '#d6d3d1'} />
+                                <polyline points={result.curve.map(p => `${x(p.duration)},${y(p.extraCost)}`).join(' ')} fill="none" stroke="#f59e0b" strokeWidth={2} />
+                                {result.curve.map(p => (
+                                    <circle key={p.duration} cx={x(p.duration)} cy={y(p.extraCost)} r={4} fill="#f59e0b">
+                                        <title>{`${p.duration}d: +${formatMoney(p.extraCost)}`}</title>
+                                    </circle>
+                                ))}
+                                <text x={PADDING} y={CHART_HEIGHT - 10} fontSize={10} fill={isDark ? '#64748b' : '#a8a29e'}>{minDuration}d</text>
+                                <text x={CHART_WIDTH - PADDING} y={CHART_HEIGHT - 10} fontSize={10} textAnchor="end" fill={isDark ? '#64748b' : '#a8a29e'}>{result.originalDuration}d</text>
+                                <text x={PADDING + 4} y={PADDING - 8} fontSize={10} fill={isDark ? '#64748b' : '#a8a29e'}>+{formatMoney(maxCost)}</text>
+                            </svg>
+                        </div>
+
+                        {/* Recommendations */}
+                        <div className={card}>
+                            <span className={labelClass}>Recommended Crashes</span>
+                            {result.recommendations.length === 0 && <p className={`text-xs italic mt-3 ${muted}`}>Nothing to crash</p>}
+                            <div className="mt-3 space-y-1.5">
+                                {result.recommendations.map(rec => (
+                                    <div key={rec.id} className="flex items-center gap-3 text-sm">
+                                        <span className={`w-10 font-mono text-xs px-1 rounded text-center ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-stone-100 text-stone-500'}`}>{rec.id}</span>
+                                        <span className="flex-1 truncate" title={names.get(rec.id)}>{names.get(rec.id)}</span>
+                                        <span className="font-mono text-xs">{rec.fromDuration}d → {rec.toDuration}d</span>
+                                        <span className="w-20 text-right font-mono text-xs">+{formatMoney(rec.cost)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            {result.steps.length > 0 && (
+                                <div className={`mt-4 pt-3 border-t text-xs space-y-1 ${isDark ? 'border-slate-800' : 'border-stone-100'}`}>
+                                    {result.steps.map((step, i) => (
+                                        <div key={i} className={`flex justify-between font-mono ${muted}`}>
+                                            <span>{step.fromDuration}d → {step.toDuration}d: {step.taskIds.join(' + ')}</span>
+                                            <span>+{formatMoney(step.cost)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { GitBranch } from 'lucide-react';
+import { ScheduleSettings } from '../types';
+import { DEFAULT_NEAR_CRITICAL_THRESHOLD } from '../utils/cpmLogic';
+
+interface CriticalPathsPanelProps {
+    criticalPaths: string[][];
+    nearCriticalCount: number;
+    schedule: ScheduleSettings;
+    onScheduleChange: (schedule: ScheduleSettings) => void;
+    isDark: boolean;
+}
+
+export const CriticalPathsPanel: React.FC<CriticalPathsPanelProps> = ({ criticalPaths, nearCriticalCount, schedule, onScheduleChange, isDark }) => {
+    const threshold = schedule.nearCriticalThreshold ?? DEFAULT_NEAR_CRITICAL_THRESHOLD;
+    const muted = isDark ? 'text-slate-500' : 'text-stone-400';
+
+    return (
+        <div className="space-y-3">
+            <label className={`text-[10px] font-bold uppercase flex items-center gap-1.5 ${muted}`}>
+                <GitBranch size={12} /> Critical Paths ({criticalPaths.length})
+            </label>
+            {criticalPaths.length === 0 && <p className={`text-xs italic ${muted}`}>No critical path</p>}
+            <div className="space-y-1">
+                {criticalPaths.map((path, i) => (
+                    <div key={path.join('>')} className={`px-2 py-1 rounded-lg border font-mono text-[11px] break-words ${isDark ? 'bg-slate-950 border-slate-800 text-rose-300' : 'bg-rose-50/50 border-rose-100 text-rose-700'}`}>
+                        <span className={`mr-1 ${muted}`}>{i + 1}.</span>{path.join(' → ')}
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center gap-2">
+                <span className={`text-xs flex-1 ${isDark ? 'text-slate-400' : 'text-stone-500'}`}>
+                    <span className="inline-block w-2 h-2 rounded-full bg-amber-500 mr-1.5" />
+                    Near-critical: slack ≤
+                </span>
+                <input
+                    type="number"
+                    min="0"
+                    className={`w-16 px-2 py-1 border rounded-lg text-sm text-center ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200' : 'bg-stone-50 border-stone-200 text-stone-800'}`}
+                    value={threshold}
+                    onChange={e => onScheduleChange({ ...schedule, nearCriticalThreshold: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                />
+                <span className={`text-xs ${muted}`}>d</span>
+            </div>
+            {nearCriticalCount > 0 && <p className={`text-[10px] ${muted}`}>{nearCriticalCount} near-critical task{nearCriticalCount === 1 ? '' : 's'}</p>}
+        </div>
+    );
+};
@@ -67,7 +67,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                             Create a new project, define your tasks and their dependencies, and Pathfinder will automatically calculate the Critical Path, Earliest/Latest Start/Finish times, and Slack for each task. You can also define project requirements and prioritize them using the MoSCoW method.
                         </p>
                         <p className="text-xs text-slate-500 mt-6 pt-4 border-t border-dashed border-slate-700/50">
-                            <strong className={isDark ? 'text-slate-400' : 'text-stone-500'}>Privacy Note:</strong> All data is stored locally in your browser's Local Storage. No data is sent to any server. Please use the Export feature to backup your work or transfer it to another device.
+                            <strong className={isDark ? 'text-slate-400' : 'text-stone-500'}>Privacy Note:</strong> All data is stored locally in your browser (IndexedDB). No data is sent to any server. Please use the Export feature to backup your work or transfer it to another device.
                         </p>
                     </div>
                 </div>
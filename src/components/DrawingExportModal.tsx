@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Printer, X, Download } from 'lucide-react';
+import { Drawing } from '../utils/planDrawing';
+import { drawingToSvg, drawingToPdf, PaperSize, PAPER_SIZES, PdfExportOptions, TitleBlock } from '../utils/vectorExport';
+import { downloadFile } from '../utils/download';
+
+export type DrawingView = 'network' | 'gantt';
+
+interface DrawingExportModalProps {
+    projectName: string;
+    stats: string; // Shown in the title block, e.g. "12 Tasks / 40 Days"
+    initialView: DrawingView;
+    buildDrawing: (view: DrawingView) => Drawing;
+    onClose: () => void;
+}
+
+const VIEW_LABELS: Record<DrawingView, string> = { network: 'Network Diagram', gantt: 'Gantt Chart' };
+
+const SCALES = [0.5, 0.75, 1, 1.5, 2];
+
+export const DrawingExportModal: React.FC<DrawingExportModalProps> = ({ projectName, stats, initialView, buildDrawing, onClose }) => {
+    const [view, setView] = useState<DrawingView>(initialView);
+    const [format, setFormat] = useState<'svg' | 'pdf'>('pdf');
+    const [options, setOptions] = useState<PdfExportOptions>({ paper: 'A3', orientation: 'landscape', mode: 'fit', scale: 1 });
+
+    const handleExport = () => {
+        const drawing = buildDrawing(view);
+        const title: TitleBlock = { project: projectName, view: VIEW_LABELS[view], stats, date: new Date().toLocaleDateString() };
+        const filename = `${projectName}-${view === 'network' ? 'cpm' : 'gantt'}-plan`;
+        if (format === 'svg') downloadFile(`${filename}.svg`, drawingToSvg(drawing, title), 'image/svg+xml');
+        else drawingToPdf(drawing, title, options).save(`${filename}.pdf`);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-sm p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Printer size={18} /> Vector / PDF Export
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-400"><X size={20} /></button>
+                </div>
+
+                <div className="space-y-4">
+                    <p className="text-[10px] text-slate-400">Drawn from the schedule rather than captured from the screen, so lines and text stay sharp at any size.</p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">View</label>
+                            <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs" value={view} onChange={e => setView(e.target.value as DrawingView)}>
+                                <option value="network">{VIEW_LABELS.network}</option>
+                                <option value="gantt">{VIEW_LABELS.gantt}</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Format</label>
+                            <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs" value={format} onChange={e => setFormat(e.target.value as 'svg' | 'pdf')}>
+                                <option value="pdf">PDF</option>
+                                <option value="svg">SVG</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    {format === 'pdf' && (
+                        <>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Paper</label>
+                                    <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs" value={options.paper} onChange={e => setOptions({ ...options, paper: e.target.value as PaperSize })}>
+                                        {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{size}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Orientation</label>
+                                    <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs" value={options.orientation} onChange={e => setOptions({ ...options, orientation: e.target.value as PdfExportOptions['orientation'] })}>
+                                        <option value="landscape">Landscape</option>
+                                        <option value="portrait">Portrait</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Layout</label>
+                                <div className="flex flex-col gap-1 text-xs text-slate-600">
+                                    <label className="flex items-center gap-1.5">
+                                        <input type="radio" name="pdf-mode" checked={options.mode === 'fit'} onChange={() => setOptions({ ...options, mode: 'fit' })} /> Scale to fit one page
+                                    </label>
+                                    <label className="flex items-center gap-1.5">
+                                        <input type="radio" name="pdf-mode" checked={options.mode === 'tile'} onChange={() => setOptions({ ...options, mode: 'tile' })} /> Tile across pages at
+                                        <select
+                                            className="px-1 py-0.5 bg-white border border-slate-200 rounded text-xs disabled:opacity-50"
+                                            value={options.scale}
+                                            disabled={options.mode !== 'tile'}
+                                            onChange={e => setOptions({ ...options, scale: Number(e.target.value) })}
+                                        >
+                                            {SCALES.map(s => <option key={s} value={s}>{s * 100}%</option>)}
+                                        </select>
+                                    </label>
+                                </div>
+                                {options.mode === 'tile' && (
+                                    <p className="text-[10px] text-slate-400 mt-1">Neighbouring sheets overlap by 10 mm; dashed lines mark where to trim and join them.</p>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800"
+                    >
+                        <Download size={14} /> Export .{format}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { Task, ScheduleSettings } from '../types';
+import { calculateEarnedValue, buildSCurve } from '../utils/earnedValue';
+import { workdayToDate, formatDate, DEFAULT_CALENDAR } from '../utils/calendar';
+
+interface EarnedValueViewProps {
+    tasks: Task[]; // Calculated schedule
+    schedule: ScheduleSettings;
+    theme: 'dark' | 'light';
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 260;
+const PADDING = 32;
+
+const formatMoney = (value: number | null) => value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+const formatIndex = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+export const EarnedValueView: React.FC<EarnedValueViewProps> = ({ tasks, schedule, theme }) => {
+    const isDark = theme === 'dark';
+    const baseline = schedule.baselines?.find(b => b.id === schedule.activeBaselineId);
+    const statusDate = schedule.statusDate;
+    const pool = schedule.resources || [];
+
+    const metrics = useMemo(() => baseline && statusDate !== undefined ? calculateEarnedValue(tasks, baseline, statusDate) : null, [tasks, baseline, statusDate]);
+    const curve = useMemo(() => baseline ? buildSCurve(tasks, baseline, pool) : [], [tasks, baseline, pool]);
+
+    const card = `p-4 rounded-xl border ${isDark ? 'bg-slate-900 border-slate-800' : 'bg-white border-stone-200 shadow-sm'}`;
+    const labelClass = `text-[10px] font-bold uppercase ${isDark ? 'text-slate-500' : 'text-stone-400'}`;
+    const muted = isDark ? 'text-slate-500' : 'text-stone-500';
+
+    if (!baseline || !metrics) {
+        return (
+            <div className={`${card} max-w-5xl mx-auto flex items-center gap-3 ${isDark ? 'text-slate-300' : 'text-stone-700'}`}>
+                <TrendingUp size={20} className="text-blue-500" />
+                <div>
+                    <h2 className="font-bold">Earned Value</h2>
+                    <p className={`text-xs ${muted}`}>
+                        {!baseline ? 'Save and select a baseline in the Gantt view to measure progress against.' : 'Set a status date in the calendar settings to report earned value.'}
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    const statusLabel = schedule.startDate
+        ? workdayToDate(schedule.startDate, metrics.statusDate, schedule.calendar || DEFAULT_CALENDAR)
+        : null;
+
+    // Chart scales
+    const horizon = Math.max(1, curve.length - 1);
+    const maxValue = Math.max(1, metrics.bac, metrics.ac, ...curve.map(p => Math.max(p.pv, p.forecast)));
+    const x = (day: number) => PADDING + (day / horizon) * (CHART_WIDTH - PADDING * 2);
+    const y = (value: number) => CHART_HEIGHT - PADDING - (value / maxValue) * (CHART_HEIGHT - PADDING * 2);
+    const line = (key: 'pv' | 'forecast') => curve.map(p => `${x(p.day)},${y(p[key])}`).join(' ');
+
+    const tiles: { label: string; value: string; hint: string; bad?: boolean }[] = [
+        { label: 'PV', value: formatMoney(metrics.pv), hint: 'Planned value' },
+        { label: 'EV', value: formatMoney(metrics.ev), hint: 'Earned value' },
+        { label: 'AC', value: formatMoney(metrics.ac), hint: 'Actual cost' },
+        { label: 'SV', value: formatMoney(metrics.sv), hint: 'Schedule variance (EV − PV)', bad: metrics.sv < 0 },
+        { label: 'CV', value: formatMoney(metrics.cv), hint: 'Cost variance (EV − AC)', bad: metrics.cv < 0 },
+        { label: 'SPI', value: formatIndex(metrics.spi), hint: 'Schedule performance index (EV / PV)', bad: metrics.spi !== null && metrics.spi < 1 },
+        { label: 'CPI', value: formatIndex(metrics.cpi), hint: 'Cost performance index (EV / AC)', bad: metrics.cpi !== null && metrics.cpi < 1 },
+        { label: 'BAC', value: formatMoney(metrics.bac), hint: 'Budget at completion' },
+        { label: 'EAC', value: formatMoney(metrics.eac), hint: 'Estimate at completion (BAC / CPI)', bad: metrics.eac !== null && metrics.eac > metrics.bac },
+        { label: 'ETC', value: formatMoney(metrics.etc), hint: 'Estimate to complete (EAC − AC)' },
+        { label: 'VAC', value: formatMoney(metrics.vac), hint: 'Variance at completion (BAC − EAC)', bad: metrics.vac !== null && metrics.vac < 0 },
+    ];
+
+    return (
+        <div className={`space-y-6 max-w-5xl mx-auto ${isDark ? 'text-slate-200' : 'text-stone-800'}`}>
+            {/* Summary */}
+            <div className={card}>
+                <div className="flex items-center gap-2 mb-4">
+                    <TrendingUp size={20} className="text-blue-500" />
+                    <div>
+                        <h2 className="font-bold">Earned Value</h2>
+                        <p className={`text-xs ${muted}`}>
+                            Against “{baseline.name}” as of day {metrics.statusDate}{statusLabel && ` (${formatDate(statusLabel)})`}
+                        </p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                    {tiles.map(tile => (
+                        <div key={tile.label} className={`p-3 rounded-lg border ${isDark ? 'bg-slate-950 border-slate-800' : 'bg-stone-50 border-stone-200'}`} title={tile.hint}>
+                            <span className={labelClass}>{tile.label}</span>
+                            <div className={`font-mono font-bold text-lg ${tile.bad ? 'text-rose-500' : ''}`}>{tile.value}</div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* S-curve */}
+            <div className={card}>
+                <div className="flex flex-wrap items-center gap-4 mb-2">
+                    <span className={labelClass}>S-Curve</span>
+                    <span className={`flex items-center gap-1 text-xs ${muted}`}><span className="w-4 border-t-2 border-blue-500" /> PV (baseline)</span>
+                    <span className={`flex items-center gap-1 text-xs ${muted}`}><span className={`w-4 border-t-2 border-dashed ${isDark ? 'border-slate-500' : 'border-stone-400'}`} /> Current schedule</span>
+                    <span className={`flex items-center gap-1 text-xs ${muted}`}><span className="w-2 h-2 rounded-full bg-emerald-500" /> EV</span>
+                    <span className={`flex items-center gap-1 text-xs ${muted}`}><span className="w-2 h-2 rounded-full bg-rose-500" /> AC</span>
+                </div>
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+                    <line x1={PADDING} y1={CHART_HEIGHT - PADDING} x2={CHART_WIDTH - PADDING} y2={CHART_HEIGHT - PADDING} stroke={isDark ? '#334155' : '#d6d3d1'} />
+                    <line x1={PADDING} y1={PADDING} x2={PADDING} y2={CHART_HEIGHT - PADDING} stroke={isDark ? '#334155' : '#d6d3d1'} />
+                    <polyline points={line('forecast')} fill="none" stroke={isDark ? '#64748b' : '#a8a29e'} strokeWidth={2} strokeDasharray="6 4" />
+                    <polyline points={line('pv')} fill="none" stroke="#3b82f6" strokeWidth={2} />
+                    <line x1={x(metrics.statusDate)} y1={PADDING} x2={x(metrics.statusDate)} y2={CHART_HEIGHT - PADDING} stroke="#f59e0b" strokeDasharray="4 4" />
+                    <circle cx={x(metrics.statusDate)} cy={y(metrics.ev)} r={5} fill="#10b981"><title>EV {formatMoney(metrics.ev)}</title></circle>
+                    <circle cx={x(metrics.statusDate)} cy={y(metrics.ac)} r={5} fill="#f43f5e"><title>AC {formatMoney(metrics.ac)}</title></circle>
+                    <text x={PADDING} y={CHART_HEIGHT - 10} fontSize={10} fill={isDark ? '#64748b' : '#a8a29e'}>0</text>
+                    <text x={CHART_WIDTH - PADDING} y={CHART_HEIGHT - 10} fontSize={10} textAnchor="end" fill={isDark ? '#64748b' : '#a8a29e'}>Day {horizon}</text>
+                    <text x={PADDING + 4} y={PADDING - 8} fontSize={10} fill={isDark ? '#64748b' : '#a8a29e'}>{formatMoney(maxValue)}</text>
+                </svg>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { Edit2, X, Settings2, Trash2 } from 'lucide-react';
-import { Task } from '../types';
+import { Edit2, X, Settings2, Trash2, Plus } from 'lucide-react';
+import { Task, PredecessorLink, DependencyType, Resource, ResourceAssignment, ConstraintType } from '../types';
+import { DEPENDENCY_TYPES } from '../utils/dependencies';
+import { pertEstimate } from '../utils/pert';
+import { CONSTRAINT_TYPES, CONSTRAINT_LABELS } from '../utils/constraints';
 
 interface EditTaskModalProps {
     task: Task;
@@ -8,13 +11,17 @@ interface EditTaskModalProps {
     onDelete: (id: string) => void;
     onClose: () => void;
     allTaskIds: string[];
+    resourcePool?: Resource[];
+    parentCandidates?: string[]; // Tasks that may become this task's summary (excludes its own subtree)
+    isSummary?: boolean; // Duration is rolled up from children and cannot be edited
 }
 
-export const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onSave, onDelete, onClose, allTaskIds }) => {
+export const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onSave, onDelete, onClose, allTaskIds, resourcePool = [], parentCandidates = [], isSummary = false }) => {
     const [id, setId] = useState(task.id);
     const [name, setName] = useState(task.name);
     const [duration, setDuration] = useState(task.duration);
-    const [preds, setPreds] = useState(task.predecessors.join(', '));
+    const [links, setLinks] = useState<PredecessorLink[]>(task.predecessors);
+    const [parentId, setParentId] = useState<string>(task.parentId || '');
 
     // Overrides
     const [manualSlack, setManualSlack] = useState<string>(task.manualSlack?.toString() || '');
@@ -25,27 +32,77 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onSave, onDe
     const [manualLF, setManualLF] = useState<string>(task.manualLF?.toString() || '');
 
     // New fields
-    const [resources, setResources] = useState<string>(task.resources?.join(', ') || '');
+    const [assignments, setAssignments] = useState<ResourceAssignment[]>(task.resources || []);
     const [cost, setCost] = useState<string>(task.cost?.toString() || '');
 
+    // Three-point estimate
+    const [optimistic, setOptimistic] = useState<string>(task.optimistic?.toString() || '');
+    const [mostLikely, setMostLikely] = useState<string>(task.mostLikely?.toString() || '');
+    const [pessimistic, setPessimistic] = useState<string>(task.pessimistic?.toString() || '');
+    const hasEstimate = optimistic !== '' && mostLikely !== '' && pessimistic !== '';
+    const estimate = hasEstimate ? pertEstimate({ ...task, optimistic: Number(optimistic), mostLikely: Number(mostLikely), pessimistic: Number(pessimistic) }) : null;
+
+    // Progress
+    const [actualStart, setActualStart] = useState<string>(task.actualStart?.toString() || '');
+    const [actualFinish, setActualFinish] = useState<string>(task.actualFinish?.toString() || '');
+    const [percent, setPercent] = useState<string>(task.percentComplete?.toString() || '');
+    const [remaining, setRemaining] = useState<string>(task.remainingDuration?.toString() || '');
+    const [actualCost, setActualCost] = useState<string>(task.actualCost?.toString() || '');
+
+    // Constraints
+    const [constraintType, setConstraintType] = useState<ConstraintType | ''>(task.constraint?.type || '');
+    const [constraintDay, setConstraintDay] = useState<string>(task.constraint?.day.toString() || '');
+    const [deadline, setDeadline] = useState<string>(task.deadline?.toString() || '');
+
+    // Crashing
+    const [crashDuration, setCrashDuration] = useState<string>(task.crashDuration?.toString() || '');
+    const [crashCost, setCrashCost] = useState<string>(task.crashCost?.toString() || '');
+
     const [error, setError] = useState<string | null>(null);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const parsedPreds = preds.split(',').map(s => s.trim().toUpperCase()).filter(s => s !== '');
+        const parsedPreds = links
+            .map(l => ({ ...l, id: l.id.trim().toUpperCase(), lag: Number(l.lag) || 0 }))
+            .filter(l => l.id !== '');
 
         // Validation
         const trimmedId = id.trim().toUpperCase();
         if (!trimmedId) { setError("ID cannot be empty"); return; }
         if (trimmedId !== task.id && allTaskIds.includes(trimmedId)) { setError("ID already exists"); return; }
-        if (parsedPreds.includes(trimmedId)) { setError("Self-dependency detected"); return; }
+        if (parsedPreds.some(l => l.id === trimmedId)) { setError("Self-dependency detected"); return; }
+        if (new Set(parsedPreds.map(l => l.id)).size !== parsedPreds.length) { setError("Duplicate predecessor"); return; }
+        const validAssignments = assignments.filter(a => a.resourceId !== '' && a.units > 0);
+        if (new Set(validAssignments.map(a => a.resourceId)).size !== validAssignments.length) { setError("Resource assigned twice"); return; }
+        if (hasEstimate && !(Number(optimistic) <= Number(mostLikely) && Number(mostLikely) <= Number(pessimistic))) { setError("Estimates must satisfy optimistic ≤ most likely ≤ pessimistic"); return; }
+        if (percent !== '' && !(Number(percent) >= 0 && Number(percent) <= 100)) { setError("Percent complete must be between 0 and 100"); return; }
+        if (actualStart !== '' && actualFinish !== '' && Number(actualFinish) < Number(actualStart)) { setError("Actual finish cannot be before actual start"); return; }
+        if (remaining !== '' && Number(remaining) < 0) { setError("Remaining duration cannot be negative"); return; }
+        if (actualCost !== '' && Number(actualCost) < 0) { setError("Actual cost cannot be negative"); return; }
+        if (constraintType && constraintDay === '') { setError("Constraint needs a day"); return; }
+        if (crashDuration !== '' && !(Number(crashDuration) >= 0 && Number(crashDuration) <= Number(duration))) { setError("Crash duration must be between 0 and the duration"); return; }
+        if (crashCost !== '' && Number(crashCost) < 0) { setError("Crash cost cannot be negative"); return; }
 
         onSave(task.id, trimmedId, { // Pass original ID and new ID
             name,
-            duration: parseInt(duration.toString()) || 0, // Ensure duration is parsed as int
+            duration: Number(duration) || 0, // Fractional durations come from PERT expected values
             predecessors: parsedPreds,
-            resources: resources.split(',').map(s => s.trim()).filter(s => s),
+            parentId: parentId || undefined,
+            resources: validAssignments,
             cost: parseFloat(cost) || 0,
+            optimistic: hasEstimate ? Number(optimistic) : undefined,
+            mostLikely: hasEstimate ? Number(mostLikely) : undefined,
+            pessimistic: hasEstimate ? Number(pessimistic) : undefined,
+            actualStart: actualStart === '' ? undefined : Number(actualStart),
+            actualFinish: actualFinish === '' ? undefined : Number(actualFinish),
+            // A recorded finish means the task is done
+            percentComplete: actualFinish !== '' ? 100 : (percent === '' ? undefined : Number(percent)),
+            remainingDuration: actualFinish !== '' || remaining === '' ? undefined : Number(remaining),
+            actualCost: actualCost === '' ? undefined : Number(actualCost),
+            constraint: constraintType ? { type: constraintType, day: Number(constraintDay) } : undefined,
+            deadline: deadline === '' ? undefined : Number(deadline),
+            crashDuration: crashDuration === '' ? undefined : Number(crashDuration),
+            crashCost: crashCost === '' ? undefined : Number(crashCost),
             manualSlack: manualSlack === '' ? undefined : parseFloat(manualSlack as string),
             manualCritical: manualCritical as 'auto' | 'true' | 'false',
             manualES: manualES === '' ? undefined : parseFloat(manualES as string),
@@ -56,6 +113,14 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onSave, onDe
         onClose();
     };
 
+    const updateLink = (index: number, updates: Partial<PredecessorLink>) => {
+        setLinks(prev => prev.map((l, i) => i === index ? { ...l, ...updates } : l));
+    };
+
+    const updateAssignment = (index: number, updates: Partial<ResourceAssignment>) => {
+        setAssignments(prev => prev.map((a, i) => i === index ? { ...a, ...updates } : a));
+    };
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-sm p-4">
             <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 max-h-[90vh] overflow-y-auto custom-scrollbar">
@@ -83,11 +148,152 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({ task, onSave, onDe
                         </div>
                         <div className="col-span-2">
                             <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Duration</label>
-                            <input type="number" className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={duration} onChange={e => setDuration(Number(e.target.value))} />
+                            <input type="number" step="any" disabled={isSummary} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm disabled:opacity-50" value={duration} onChange={e => setDuration(Number(e.target.value))} title={isSummary ? 'Rolled up from child tasks' : undefined} />
                         </div>
                         <div className="col-span-2">
-                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Preds (IDs)</label>
-                            <input className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono uppercase" value={preds} onChange={e => setPreds(e.target.value)} />
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Fixed Cost</label>
+                            <input type="number" min="0" placeholder="0" disabled={isSummary} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm disabled:opacity-50" value={cost} onChange={e => setCost(e.target.value)} title={isSummary ? 'Rolled up from child tasks' : 'Cost on top of resource costs'} />
+                        </div>
+                        <div className="col-span-4">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Summary Task</label>
+                            <select className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono uppercase" value={parentId} onChange={e => setParentId(e.target.value)} title="Parent in the work breakdown structure">
+                                <option value="">— Top level —</option>
+                                {parentCandidates.map(tid => <option key={tid} value={tid}>{tid}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-xs font-bold text-slate-400 uppercase">Predecessors</label>
+                            <button type="button" onClick={() => setLinks([...links, { id: '', type: 'FS', lag: 0 }])} className="text-[10px] font-bold uppercase text-blue-500 hover:text-blue-600 flex items-center gap-1">
+                                <Plus size={12} /> Link
+                            </button>
+                        </div>
+                        {links.length === 0 && <p className="text-xs text-slate-400 italic">No predecessors</p>}
+                        <div className="space-y-2">
+                            {links.map((link, index) => (
+                                <div key={index} className="grid grid-cols-[1fr_80px_70px_auto] gap-2 items-center">
+                                    <select className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono uppercase" value={link.id} onChange={e => updateLink(index, { id: e.target.value })}>
+                                        <option value="">—</option>
+                                        {allTaskIds.filter(tid => tid !== task.id || tid === link.id).map(tid => <option key={tid} value={tid}>{tid}</option>)}
+                                        {link.id && !allTaskIds.includes(link.id) && <option value={link.id}>{link.id} (missing)</option>}
+                                    </select>
+                                    <select className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold" value={link.type} onChange={e => updateLink(index, { type: e.target.value as DependencyType })} title="Dependency type">
+                                        {DEPENDENCY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <input type="number" className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-center" value={link.lag} onChange={e => updateLink(index, { lag: Number(e.target.value) })} title="Lag in days (negative for lead)" />
+                                    <button type="button" onClick={() => setLinks(links.filter((_, i) => i !== index))} className="p-1 hover:bg-rose-50 rounded text-slate-400 hover:text-rose-500"><X size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-xs font-bold text-slate-400 uppercase">Resources</label>
+                            <button type="button" disabled={resourcePool.length === 0} onClick={() => setAssignments([...assignments, { resourceId: '', units: 1 }])} className="text-[10px] font-bold uppercase text-blue-500 hover:text-blue-600 disabled:opacity-30 flex items-center gap-1">
+                                <Plus size={12} /> Assign
+                            </button>
+                        </div>
+                        {resourcePool.length === 0 && <p className="text-xs text-slate-400 italic">Define resources in the project pool first</p>}
+                        {resourcePool.length > 0 && assignments.length === 0 && <p className="text-xs text-slate-400 italic">No resources assigned</p>}
+                        <div className="space-y-2">
+                            {assignments.map((assignment, index) => (
+                                <div key={index} className="grid grid-cols-[1fr_80px_auto] gap-2 items-center">
+                                    <select className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={assignment.resourceId} onChange={e => updateAssignment(index, { resourceId: e.target.value })}>
+                                        <option value="">—</option>
+                                        {resourcePool.map(r => <option key={r.id} value={r.id}>{r.name} (max {r.maxUnits})</option>)}
+                                    </select>
+                                    <input type="number" min="0" step="0.25" className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-center" value={assignment.units} onChange={e => updateAssignment(index, { units: Number(e.target.value) })} title="Units per day" />
+                                    <button type="button" onClick={() => setAssignments(assignments.filter((_, i) => i !== index))} className="p-1 hover:bg-rose-50 rounded text-slate-400 hover:text-rose-500"><X size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Three-Point Estimate (PERT)</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Optimistic</span>
+                                <input type="number" min="0" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={optimistic} onChange={e => setOptimistic(e.target.value)} />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Most Likely</span>
+                                <input type="number" min="0" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={mostLikely} onChange={e => setMostLikely(e.target.value)} />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Pessimistic</span>
+                                <input type="number" min="0" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={pessimistic} onChange={e => setPessimistic(e.target.value)} />
+                            </div>
+                        </div>
+                        {estimate && (
+                            <div className="flex items-center justify-between mt-2 text-xs text-slate-500">
+                                <span className="font-mono">tₑ = {estimate.expected.toFixed(2)}d · σ = {Math.sqrt(estimate.variance).toFixed(2)}d</span>
+                                <button type="button" onClick={() => setDuration(Number(estimate.expected.toFixed(2)))} className="text-[10px] font-bold uppercase text-blue-500 hover:text-blue-600">Use as duration</button>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Constraints</label>
+                        <div className="grid grid-cols-[1fr_70px_70px] gap-2">
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Type</span>
+                                <select className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs" value={constraintType} onChange={e => setConstraintType(e.target.value as ConstraintType | '')}>
+                                    <option value="">As soon as possible</option>
+                                    {CONSTRAINT_TYPES.map(type => <option key={type} value={type}>{CONSTRAINT_LABELS[type]}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Day</span>
+                                <input type="number" min="0" disabled={!constraintType} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center disabled:opacity-50" value={constraintDay} onChange={e => setConstraintDay(e.target.value)} title="Start day for SNET/MSO, finish day for FNLT/MFO" />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Deadline</span>
+                                <input type="number" min="0" placeholder="—" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={deadline} onChange={e => setDeadline(e.target.value)} title="Soft finish target; flags negative slack when missed" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Crashing</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Crash Duration</span>
+                                <input type="number" min="0" placeholder="Not crashable" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={crashDuration} onChange={e => setCrashDuration(e.target.value)} title="Shortest achievable duration" />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Crash Cost</span>
+                                <input type="number" min="0" placeholder="0" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={crashCost} onChange={e => setCrashCost(e.target.value)} title="Extra cost of shortening all the way to the crash duration" />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Progress</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Actual Start</span>
+                                <input type="number" min="0" placeholder="Day" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={actualStart} onChange={e => setActualStart(e.target.value)} />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Actual Finish</span>
+                                <input type="number" min="0" placeholder="Day" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center" value={actualFinish} onChange={e => setActualFinish(e.target.value)} />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">% Complete</span>
+                                <input type="number" min="0" max="100" placeholder="0" disabled={actualFinish !== ''} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center disabled:opacity-50" value={actualFinish !== '' ? 100 : percent} onChange={e => setPercent(e.target.value)} />
+                            </div>
+                            <div>
+                                <span className="text-[9px] text-slate-400 block mb-1 uppercase">Remaining</span>
+                                <input type="number" min="0" disabled={actualFinish !== ''} placeholder={actualFinish !== '' ? '0' : String(Math.round(duration * (1 - (Number(percent) || 0) / 100) * 100) / 100)} className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-center disabled:opacity-50" value={actualFinish !== '' ? '' : remaining} onChange={e => setRemaining(e.target.value)} title="Days of work left; leave empty to derive from % complete" />
+                            </div>
+                        </div>
+                        <div className="mt-2">
+                            <span className="text-[9px] text-slate-400 block mb-1 uppercase">Actual Cost to Date</span>
+                            <input type="number" min="0" placeholder="0" className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-xs" value={actualCost} onChange={e => setActualCost(e.target.value)} />
                         </div>
                     </div>
 
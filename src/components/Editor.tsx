@@ -1,10 +1,10 @@
 import React from 'react';
 import { CPMEditor } from './CPMEditor';
-import { Project, Task } from '../types';
+import { Project, Task, ScheduleSettings } from '../types';
 
 interface EditorProps {
     project: Project;
-    onSave: (id: string, taskData: Task[]) => void;
+    onSave: (id: string, taskData: Task[], schedule?: ScheduleSettings) => void;
     onBack: () => void;
     theme: 'dark' | 'light';
 }
@@ -1,14 +1,74 @@
-import React, { useMemo } from 'react';
-import { Project, Task } from '../types';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { Project, ScheduleSettings, Task, Baseline } from '../types';
+import { buildWorkdayDates, formatDate, DEFAULT_CALENDAR } from '../utils/calendar';
+import { formatAssignments } from '../utils/resources';
+import { percentComplete } from '../utils/progress';
+import { CONSTRAINT_LABELS } from '../utils/constraints';
+import { isNearCritical, isDrivingLink, DEFAULT_NEAR_CRITICAL_THRESHOLD } from '../utils/cpmLogic';
+import { buildChildrenMap, rollUpCost, outlineRows, displayLinks } from '../utils/wbs';
+import { GanttZoom, GANTT_ZOOM_LEVELS, GANTT_ZOOM_LABELS, GANTT_DAY_WIDTHS, buildTimescale, dateToColumn, visibleRange, dragDays, barDragUpdate, rowAtOffset } from '../utils/ganttScale';
+import { ResourceHistogram } from './ResourceHistogram';
 
 interface GanttChartProps {
     project: Project;
     theme: 'dark' | 'light';
+    schedule?: ScheduleSettings;
+    originalTasks?: Task[]; // Unlevelled schedule, drawn as ghost bars where tasks moved
+    baseline?: Baseline; // Drawn as a thin bar under each current bar
+    collapsedIds?: string[]; // Summary tasks whose children are hidden
+    onToggleCollapse?: (id: string) => void;
+    onTaskChange?: (id: string, updates: Partial<Task>) => void; // Enables dragging and resizing bars
+    onLinkCreate?: (sourceId: string, targetId: string) => void; // Enables dragging links between bars
 }
 
-export const GanttChart: React.FC<GanttChartProps> = ({ project, theme }) => {
+interface BarDrag {
+    id: string;
+    mode: 'move' | 'resize' | 'link';
+    originX: number;
+}
+
+interface DragPosition {
+    dx: number;
+    pointer: { x: number; y: number }; // Relative to the chart, for the link preview
+}
+
+const LABEL_WIDTH = 192; // w-48 task name column
+const ROW_OVERSCAN = 10;
+const COLUMN_OVERSCAN = 20;
+// Used until the scroll container has been measured
+const DEFAULT_VIEWPORT = { width: 1200, height: 800 };
+
+const chartPoint = (chart: HTMLElement | null, e: { clientX: number; clientY: number }) => {
+    const rect = chart?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+};
+
+export const GanttChart: React.FC<GanttChartProps> = ({ project, theme, schedule, originalTasks, baseline, collapsedIds = [], onToggleCollapse, onTaskChange, onLinkCreate }) => {
     const tasks = project.data;
+    const chartRef = useRef<HTMLDivElement>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<BarDrag | null>(null);
+    const [dragPosition, setDragPosition] = useState<DragPosition>({ dx: 0, pointer: { x: 0, y: 0 } });
+    const [zoom, setZoom] = useState<GanttZoom>('day');
+    const [scroll, setScroll] = useState({ left: 0, top: 0 });
+    const [viewport, setViewport] = useState(DEFAULT_VIEWPORT);
+
+    // Track the visible area so only the rows and grid columns in view are rendered
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const measure = () => {
+            if (element.clientWidth > 0 && element.clientHeight > 0) setViewport({ width: element.clientWidth, height: element.clientHeight });
+        };
+        measure();
+        if (typeof ResizeObserver === 'undefined') return;
+        const observer = new ResizeObserver(measure);
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
     const isDark = theme === 'dark';
+    const resourcePool = schedule?.resources || [];
 
     // Calculate total duration if not present (fallback)
     const totalDuration = useMemo(() => {
@@ -16,79 +76,307 @@ export const GanttChart: React.FC<GanttChartProps> = ({ project, theme }) => {
         tasks.forEach(t => {
             if (t.ef && t.ef > max) max = t.ef;
         });
+        if (baseline && baseline.projectDuration > max) max = baseline.projectDuration;
         return max > 0 ? max : 20; // Default width if no calc
-    }, [tasks]);
+    }, [tasks, baseline]);
+
+    const children = useMemo(() => buildChildrenMap(tasks), [tasks]);
+
+    // Start/end milestones are not drawn as rows
+    const sortedTasks = useMemo(
+        () => outlineRows(tasks, new Set(collapsedIds)).filter(({ task }) => task.type !== 'start' && task.type !== 'end'),
+        [tasks, collapsedIds]
+    );
 
-    const sortedTasks = useMemo(() => {
-        // Sort by Early Start, then ID
-        return [...tasks].sort((a, b) => (a.es || 0) - (b.es || 0) || a.id.localeCompare(b.id));
-    }, [tasks]);
+    const baselineTasks = useMemo(() => new Map((baseline?.tasks || []).map(t => [t.id, t])), [baseline]);
 
-    const dayWidth = 40; // Pixels per day
-    const headerHeight = 40;
+    // One column per working day; only dated when the project has a start date
+    const columnDates = useMemo(() => {
+        if (!schedule?.startDate) return null;
+        return buildWorkdayDates(schedule.startDate, totalDuration + 2, schedule.calendar || DEFAULT_CALENDAR);
+    }, [schedule, totalDuration]);
+
+    const columns = totalDuration + 2;
+    const timescale = useMemo(() => buildTimescale(zoom, columns, columnDates), [zoom, columns, columnDates]);
+    const periodStarts = useMemo(() => new Set(timescale.top.map(band => band.start)), [timescale]);
+
+    const dayWidth = GANTT_DAY_WIDTHS[zoom];
+    const headerHeight = 56;
     const rowHeight = 40;
 
+    const [firstRow, lastRow] = visibleRange(Math.max(0, scroll.top - headerHeight), viewport.height, rowHeight, sortedTasks.length, ROW_OVERSCAN);
+    const [firstColumn, lastColumn] = visibleRange(scroll.left, Math.max(0, viewport.width - LABEL_WIDTH), dayWidth, columns, COLUMN_OVERSCAN);
+    const inView = (band: { start: number; span: number }) => band.start <= lastColumn && band.start + band.span > firstColumn;
+
+    const todayColumn = useMemo(() => columnDates ? dateToColumn(columnDates, new Date()) : null, [columnDates]);
+
+    const rowIndex = new Map(sortedTasks.map(({ task }, i) => [task.id, i]));
+    const taskById = new Map(tasks.map(t => [t.id, t]));
+    const barSpan = (task: Task) => task.ef !== undefined ? task.ef - (task.es || 0) : task.duration;
+    const scheduled = (task: Task) => ({ es: task.es || 0, ef: task.ef ?? task.duration, duration: task.duration });
+
+    const startDrag = (e: React.PointerEvent, id: string, mode: BarDrag['mode']) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDrag({ id, mode, originX: e.clientX });
+        setDragPosition({ dx: 0, pointer: chartPoint(chartRef.current, e) });
+    };
+
+    // Drags are tracked on the window so they continue outside the bar; the listeners are only
+    // replaced when a drag starts or ends, not on every pointer move
+    useEffect(() => {
+        if (!drag) return;
+        const move = (e: PointerEvent) => setDragPosition({ dx: e.clientX - drag.originX, pointer: chartPoint(chartRef.current, e) });
+        const end = (e: PointerEvent) => {
+            const task = tasks.find(t => t.id === drag.id);
+            if (drag.mode === 'link') {
+                const row = rowAtOffset(chartPoint(chartRef.current, e).y, headerHeight, rowHeight, sortedTasks.length);
+                const targetId = row === null ? null : sortedTasks[row].task.id;
+                if (targetId && targetId !== drag.id) onLinkCreate?.(drag.id, targetId);
+            } else if (task) {
+                const updates = barDragUpdate(task, drag.mode, dragDays(e.clientX - drag.originX, dayWidth));
+                if (updates) onTaskChange?.(task.id, updates);
+            }
+            setDrag(null);
+        };
+        window.addEventListener('pointermove', move);
+        window.addEventListener('pointerup', end);
+        return () => {
+            window.removeEventListener('pointermove', move);
+            window.removeEventListener('pointerup', end);
+        };
+    }, [drag, tasks, sortedTasks, dayWidth, onTaskChange, onLinkCreate]);
+
+    // Dependency arrows between bars, routed from the linked end of the predecessor to the linked end of the successor;
+    // only links that drive a critical successor are drawn as critical, as in the critical path enumeration
+    const dependencyPaths = sortedTasks.flatMap(({ task }) => displayLinks(task).map(link => {
+        const pred = taskById.get(link.id);
+        if (!pred || !rowIndex.has(pred.id)) return null;
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toFinish = link.type === 'FF' || link.type === 'SF';
+        const x1 = LABEL_WIDTH + ((pred.es || 0) + (fromStart ? 0 : barSpan(pred))) * dayWidth;
+        const x2 = LABEL_WIDTH + ((task.es || 0) + (toFinish ? barSpan(task) : 0)) * dayWidth;
+        const y1 = headerHeight + rowIndex.get(pred.id)! * rowHeight + rowHeight / 2;
+        const y2 = headerHeight + rowIndex.get(task.id)! * rowHeight + rowHeight / 2;
+        const exit = fromStart ? x1 - 8 : x1 + 8;
+        const entry = toFinish ? x2 + 8 : x2 - 8;
+        const midY = y2 > y1 ? y2 - rowHeight / 2 : y2 + rowHeight / 2;
+        return {
+            id: `${pred.id}-${task.id}`,
+            rows: [rowIndex.get(pred.id)!, rowIndex.get(task.id)!],
+            critical: !!(pred.isCritical && task.isCritical) && isDrivingLink(scheduled(pred), scheduled(task), link),
+            d: `M ${x1} ${y1} H ${exit} V ${midY} H ${entry} V ${y2} H ${x2}`
+        };
+    }))
+        .filter((p): p is { id: string; rows: number[]; critical: boolean; d: string } => p !== null)
+        .filter(p => Math.max(...p.rows) >= firstRow && Math.min(...p.rows) <= lastRow);
+
+    const editable = !!onTaskChange;
+
+    const visibleRows = sortedTasks.slice(firstRow, lastRow + 1);
+    const bandClass = isDark ? 'border-slate-800 text-slate-400' : 'border-slate-200 text-slate-500';
+
     return (
-        <div className={`overflow-x-auto rounded-xl shadow-sm border ${isDark ? 'bg-slate-900 border-slate-800 dark-scrollbar' : 'bg-white border-slate-200 light-scrollbar'}`}>
-            <div className="min-w-max relative" style={{ width: Math.max(800, (totalDuration + 2) * dayWidth + 200) }}>
+        <div className="space-y-2">
+            {/* Zoom */}
+            <div className="flex justify-end">
+                <div className={`flex rounded-lg p-1 ${isDark ? 'bg-slate-800' : 'bg-stone-100'}`}>
+                    {GANTT_ZOOM_LEVELS.map(level => (
+                        <button key={level} onClick={() => setZoom(level)}
+                            className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${zoom === level ? (isDark ? 'bg-slate-700 text-white shadow' : 'bg-white text-stone-800 shadow') : (isDark ? 'text-slate-400 hover:text-slate-200' : 'text-stone-500 hover:text-stone-700')}`}>
+                            {GANTT_ZOOM_LABELS[level]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div ref={scrollRef} onScroll={e => setScroll({ left: e.currentTarget.scrollLeft, top: e.currentTarget.scrollTop })}
+                className={`overflow-auto max-h-[70vh] rounded-xl shadow-sm border ${isDark ? 'bg-slate-900 border-slate-800 dark-scrollbar' : 'bg-white border-slate-200 light-scrollbar'}`}>
+                <div ref={chartRef} className={`min-w-max relative ${drag ? 'select-none' : ''}`} style={{ width: Math.max(800, columns * dayWidth + LABEL_WIDTH) }}>
 
-                {/* Header (Timeline) */}
-                <div className={`flex border-b sticky top-0 z-30 ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-slate-50'}`} style={{ height: headerHeight }}>
-                    <div className={`w-48 flex-shrink-0 border-r p-2 font-bold text-sm flex items-center sticky left-0 z-40 ${isDark ? 'border-slate-800 text-slate-400 bg-slate-900' : 'border-slate-200 text-slate-600 bg-slate-50'}`}>
-                        Task Name
+                    {/* Header (Timeline): the zoom unit below, the next larger period above */}
+                    <div className={`flex border-b sticky top-0 z-30 ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-slate-50'}`} style={{ height: headerHeight }}>
+                        <div className={`w-48 flex-shrink-0 border-r p-2 font-bold text-sm flex items-center sticky left-0 z-40 ${isDark ? 'border-slate-800 text-slate-400 bg-slate-900' : 'border-slate-200 text-slate-600 bg-slate-50'}`}>
+                            Task Name
+                        </div>
+                        <div className="flex-1 relative">
+                            {timescale.top.filter(inView).map(band => (
+                                <div key={band.key} className={`absolute top-0 h-1/2 border-l border-b flex items-center px-2 text-[10px] font-bold uppercase truncate ${bandClass}`}
+                                    style={{ left: band.start * dayWidth, width: band.span * dayWidth }} title={band.title}>
+                                    {band.label}
+                                </div>
+                            ))}
+                            {timescale.bottom.filter(inView).map(band => (
+                                <div key={band.key} className={`absolute bottom-0 h-1/2 border-l flex flex-col items-center justify-center leading-none overflow-hidden ${periodStarts.has(band.start) ? (isDark ? 'border-slate-600' : 'border-slate-400') : (isDark ? 'border-slate-800' : 'border-slate-200')} ${isDark ? 'text-slate-600' : 'text-slate-400'}`}
+                                    style={{ left: band.start * dayWidth, width: band.span * dayWidth }} title={band.title}>
+                                    {band.sublabel && <span className="text-[8px] uppercase">{band.sublabel}</span>}
+                                    {band.span * dayWidth >= 14 && <span className="text-xs">{band.label}</span>}
+                                </div>
+                            ))}
+                        </div>
                     </div>
-                    <div className="flex-1 relative">
-                        {Array.from({ length: totalDuration + 2 }).map((_, i) => (
-                            <div key={i} className={`absolute border-l h-full flex items-center justify-center text-xs ${isDark ? 'border-slate-800 text-slate-600' : 'border-slate-200 text-slate-400'}`}
-                                style={{ left: i * dayWidth, width: dayWidth }}>
-                                {i}
-                            </div>
+
+                    {/* Grid lines, drawn once for the visible columns behind all rows */}
+                    <div className="absolute pointer-events-none" style={{ top: headerHeight, left: LABEL_WIDTH, right: 0, height: sortedTasks.length * rowHeight }}>
+                        {timescale.bottom.filter(inView).map(band => (
+                            <div key={band.key} className={`absolute top-0 bottom-0 border-l ${periodStarts.has(band.start) ? (isDark ? 'border-slate-700' : 'border-slate-300') : (isDark ? 'border-slate-800' : 'border-slate-100')}`}
+                                style={{ left: band.start * dayWidth }} />
                         ))}
                     </div>
-                </div>
 
-                {/* Rows */}
-                {sortedTasks.map(task => {
-                    if (task.type === 'start' || task.type === 'end') return null; // Skip start/end nodes for now or show differently
-
-                    const start = task.es || 0;
-                    const duration = task.duration;
-                    const width = duration * dayWidth;
-                    const left = start * dayWidth;
-                    const isCritical = task.isCritical;
-
-                    return (
-                        <div key={task.id} className={`flex border-b transition-colors ${isDark ? 'border-slate-800 hover:bg-slate-800/50' : 'border-slate-100 hover:bg-slate-50'}`} style={{ height: rowHeight }}>
-                            <div className={`w-48 flex-shrink-0 border-r p-2 flex items-center gap-2 overflow-hidden sticky left-0 z-20 ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-white'}`}>
-                                <span className={`font-mono text-xs px-1 rounded ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-400'}`}>{task.id}</span>
-                                <span className={`text-sm truncate ${isDark ? 'text-slate-300' : 'text-slate-700'}`} title={task.name}>{task.name}</span>
-                            </div>
-                            <div className="flex-1 relative">
-                                {/* Grid lines */}
-                                {Array.from({ length: totalDuration + 2 }).map((_, i) => (
-                                    <div key={i} className={`absolute border-l h-full ${isDark ? 'border-slate-800' : 'border-slate-100'}`} style={{ left: i * dayWidth }}></div>
-                                ))}
-
-                                {/* Bar */}
-                                <div
-                                    className={`absolute top-2 h-6 rounded-md shadow-sm border flex items-center px-2 text-xs text-white whitespace-nowrap overflow-hidden
-                                        ${isCritical ? (isDark ? 'bg-rose-600 border-rose-700' : 'bg-rose-500 border-rose-600') : (isDark ? 'bg-blue-600 border-blue-700' : 'bg-blue-500 border-blue-600')}
-                                    `}
-                                    style={{ left: left, width: Math.max(width, 2) }} // Min width for visibility
-                                >
-                                    {width > 30 && task.duration + 'd'}
+                    <div style={{ height: firstRow * rowHeight }} />
+                    {/* Rows */}
+                    {visibleRows.map(({ task, depth }) => {
+                        // Bars follow the pointer while being dragged; the schedule updates on release
+                        const dragOffset = drag?.id === task.id && drag.mode === 'move' ? dragDays(dragPosition.dx, dayWidth) : 0;
+                        const resizeOffset = drag?.id === task.id && drag.mode === 'resize' ? dragDays(dragPosition.dx, dayWidth) : 0;
+                        const start = Math.max(0, (task.es || 0) + dragOffset);
+                        // Progress can make the scheduled span differ from the planned duration
+                        const duration = Math.max(0, barSpan(task) + resizeOffset);
+                        const progress = percentComplete(task);
+                        const width = duration * dayWidth;
+                        const left = start * dayWidth;
+                        const isCritical = task.isCritical;
+                        const nearCritical = isNearCritical(task, schedule?.nearCriticalThreshold ?? DEFAULT_NEAR_CRITICAL_THRESHOLD);
+                        const isSummary = children.has(task.id);
+                        const isCollapsed = collapsedIds.includes(task.id);
+                        // Started work keeps its actual start; summaries follow their children
+                        const canMove = editable && !isSummary && task.actualStart === undefined;
+                        const canResize = editable && !isSummary;
+
+                        return (
+                            <div key={task.id} className={`group/row flex border-b transition-colors ${isDark ? 'border-slate-800 hover:bg-slate-800/50' : 'border-slate-100 hover:bg-slate-50'}`} style={{ height: rowHeight }}>
+                                <div className={`w-48 flex-shrink-0 border-r p-2 flex items-center gap-2 overflow-hidden sticky left-0 z-20 ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-white'}`} style={{ paddingLeft: 8 + depth * 12 }}>
+                                    {isSummary ? (
+                                        <button onClick={() => onToggleCollapse?.(task.id)} className={`flex-shrink-0 ${isDark ? 'text-slate-400 hover:text-slate-200' : 'text-slate-400 hover:text-slate-700'}`} title={isCollapsed ? 'Expand' : 'Collapse'}>
+                                            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                                        </button>
+                                    ) : depth > 0 && <span className="w-3.5 flex-shrink-0" />}
+                                    <span className={`font-mono text-xs px-1 rounded ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-slate-100 text-slate-400'}`} title={task.wbsCode ? `WBS ${task.wbsCode}` : undefined}>{task.id}</span>
+                                    <span className={`text-sm truncate ${isSummary ? 'font-bold' : ''} ${isDark ? 'text-slate-300' : 'text-slate-700'}`} title={task.name}>{task.name}</span>
                                 </div>
+                                <div className="flex-1 relative">
+                                    {/* Ghost of the unlevelled position */}
+                                    {(() => {
+                                        const original = originalTasks?.find(o => o.id === task.id);
+                                        if (!original || original.es === undefined || Math.abs(original.es - start) < 1e-9) return null;
+                                        return (
+                                            <div className={`absolute top-2 h-6 rounded-md border-2 border-dashed ${isDark ? 'border-slate-600' : 'border-slate-300'}`}
+                                                style={{ left: original.es * dayWidth, width: Math.max(width, 2) }}
+                                                title={`Before levelling: day ${original.es}`} />
+                                        );
+                                    })()}
 
-                                {/* Resources Label */}
-                                {task.resources && task.resources.length > 0 && (
-                                    <div className={`absolute top-2 h-6 flex items-center text-xs pl-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`} style={{ left: left + width }}>
-                                        {task.resources.join(', ')}
-                                    </div>
-                                )}
+                                    {/* Baseline */}
+                                    {(() => {
+                                        const planned = baselineTasks.get(task.id);
+                                        if (!planned) return null;
+                                        return (
+                                            <div className={`absolute h-1.5 rounded-sm ${isDark ? 'bg-slate-500' : 'bg-slate-400'}`}
+                                                style={{ top: 33, left: planned.es * dayWidth, width: Math.max(planned.duration * dayWidth, 2) }}
+                                                title={`${baseline!.name}: day ${planned.es} – ${planned.ef}`} />
+                                        );
+                                    })()}
+
+                                    {/* Bar */}
+                                    {isSummary ? (
+                                        <div className={`absolute top-3 h-3 ${isCritical ? (isDark ? 'bg-rose-500' : 'bg-rose-600') : (isDark ? 'bg-slate-400' : 'bg-slate-700')}`}
+                                            style={{ left: left, width: Math.max(width, 2), clipPath: 'polygon(0 0, 100% 0, 100% 100%, calc(100% - 6px) 50%, 6px 50%, 0 100%)' }}
+                                            title={`${task.name}: day ${start} – ${start + duration}, cost ${rollUpCost(task.id, tasks, resourcePool).toLocaleString()}${progress > 0 ? `, ${Math.round(progress)}% complete` : ''}`} />
+                                    ) : <div
+                                        className={`absolute top-2 h-6 rounded-md shadow-sm border flex items-center px-2 text-xs text-white whitespace-nowrap overflow-hidden
+                                            ${canMove ? 'cursor-grab active:cursor-grabbing' : ''} ${drag?.id === task.id && drag.mode !== 'link' ? 'opacity-80 z-10' : ''}
+                                            ${task.constraintViolated || task.deadlineMissed ? 'ring-2 ring-rose-300' : ''}
+                                            ${isCritical ? (isDark ? 'bg-rose-600 border-rose-700' : 'bg-rose-500 border-rose-600') : nearCritical ? (isDark ? 'bg-amber-600 border-amber-700' : 'bg-amber-500 border-amber-600') : (isDark ? 'bg-blue-600 border-blue-700' : 'bg-blue-500 border-blue-600')}
+                                        `}
+                                        style={{ left: left, width: Math.max(width, 2) }} // Min width for visibility
+                                        title={columnDates ? `${formatDate(columnDates[Math.floor(start)])} – ${formatDate(columnDates[Math.max(Math.floor(start), Math.ceil(start + duration) - 1)])}` : undefined}
+                                        onPointerDown={canMove ? e => startDrag(e, task.id, 'move') : undefined}
+                                    >
+                                        {progress > 0 && <div className="absolute inset-y-0 left-0 bg-slate-900/30" style={{ width: `${progress}%` }} />}
+                                        <span className="relative">{width > 30 && Math.max(0, task.duration + resizeOffset) + 'd'}{width > 80 && progress > 0 && ` · ${Math.round(progress)}%`}</span>
+                                        {canResize && (
+                                            <div className="absolute inset-y-0 right-0 w-2 cursor-ew-resize hover:bg-white/30" onPointerDown={e => startDrag(e, task.id, 'resize')} title="Drag to change duration" />
+                                        )}
+                                    </div>}
+                                    {onLinkCreate && (
+                                        <div className={`absolute top-[15px] w-2.5 h-2.5 rounded-full border-2 cursor-crosshair opacity-0 group-hover/row:opacity-100 ${isDark ? 'bg-slate-900 border-slate-400' : 'bg-white border-slate-500'}`}
+                                            style={{ left: left + Math.max(width, 2) + 3 }}
+                                            onPointerDown={e => startDrag(e, task.id, 'link')}
+                                            title="Drag to another task to add a finish-to-start link" />
+                                    )}
+
+                                    {/* Constraint and deadline markers */}
+                                    {task.constraint && (
+                                        <div className={`absolute top-1 bottom-1 border-l-2 ${task.constraintViolated ? 'border-rose-500' : 'border-amber-500'}`}
+                                            style={{ left: task.constraint.day * dayWidth }}
+                                            title={`${CONSTRAINT_LABELS[task.constraint.type]} day ${task.constraint.day}${task.constraintViolated ? ' (violated)' : ''}`}>
+                                            <span className={`absolute -top-1 text-[8px] font-bold ${task.constraint.type === 'SNET' || task.constraint.type === 'MSO' ? 'left-0.5' : 'right-0.5'} ${task.constraintViolated ? 'text-rose-500' : 'text-amber-500'}`}>{task.constraint.type}</span>
+                                        </div>
+                                    )}
+                                    {task.deadline !== undefined && (
+                                        <div className={`absolute top-0 text-[10px] leading-none -translate-x-1/2 ${task.deadlineMissed ? 'text-rose-500' : (isDark ? 'text-slate-400' : 'text-slate-500')}`}
+                                            style={{ left: task.deadline * dayWidth }}
+                                            title={`Deadline day ${task.deadline}${task.deadlineMissed ? ' (missed)' : ''}`}>
+                                            ▼
+                                        </div>
+                                    )}
+
+                                    {/* Resources Label */}
+                                    {task.resources && task.resources.length > 0 && (
+                                        <div className={`absolute top-2 h-6 flex items-center text-xs pl-2 ${isDark ? 'text-slate-500' : 'text-slate-500'}`} style={{ left: left + width }}>
+                                            {formatAssignments(task.resources, resourcePool)}
+                                        </div>
+                                    )}
+                                </div>
                             </div>
+                        );
+                    })}
+
+                    <div style={{ height: (sortedTasks.length - 1 - lastRow) * rowHeight }} />
+
+                    {/* Dependency arrows */}
+                    <svg className="absolute top-0 left-0 pointer-events-none overflow-visible" width="100%" height={headerHeight + sortedTasks.length * rowHeight}>
+                        <defs>
+                            <marker id="gantt-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                <polygon points="0 0, 6 3, 0 6" fill={isDark ? '#64748b' : '#94a3b8'} />
+                            </marker>
+                            <marker id="gantt-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                <polygon points="0 0, 6 3, 0 6" fill="#f43f5e" />
+                            </marker>
+                        </defs>
+                        {dependencyPaths.map(path => (
+                            <path key={path.id} d={path.d} fill="none" strokeWidth={1.5}
+                                stroke={path.critical ? '#f43f5e' : (isDark ? '#64748b' : '#94a3b8')}
+                                markerEnd={`url(#${path.critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`} />
+                        ))}
+                        {drag?.mode === 'link' && rowIndex.has(drag.id) && (() => {
+                            const source = taskById.get(drag.id)!;
+                            const x = LABEL_WIDTH + ((source.es || 0) + barSpan(source)) * dayWidth;
+                            const y = headerHeight + rowIndex.get(drag.id)! * rowHeight + rowHeight / 2;
+                            return <line x1={x} y1={y} x2={dragPosition.pointer.x} y2={dragPosition.pointer.y} stroke="#3b82f6" strokeWidth={2} strokeDasharray="4,3" />;
+                        })()}
+                    </svg>
+
+                    {/* Today and status date */}
+                    {todayColumn !== null && (
+                        <div className="absolute border-l-2 border-blue-500 z-10 pointer-events-none" style={{ top: headerHeight, height: sortedTasks.length * rowHeight, left: LABEL_WIDTH + todayColumn * dayWidth }}
+                            title={`Today: day ${todayColumn}`}>
+                            <span className="absolute top-0 left-0.5 px-1 rounded-sm text-[9px] font-bold uppercase bg-blue-500 text-white">Today</span>
+                        </div>
+                    )}
+                    {schedule?.statusDate !== undefined && (
+                        <div className="absolute border-l-2 border-dashed border-amber-500 z-10 pointer-events-none" style={{ top: headerHeight, height: sortedTasks.length * rowHeight, left: LABEL_WIDTH + schedule.statusDate * dayWidth }}
+                            title={`Status date: day ${schedule.statusDate}`}>
+                            <span className="absolute bottom-0 left-0.5 px-1 rounded-sm text-[9px] font-bold uppercase bg-amber-500 text-white">Status</span>
                         </div>
-                    );
-                })}
+                    )}
+
+                    {/* Resource Histogram */}
+                    {resourcePool.length > 0 && (
+                        <ResourceHistogram tasks={tasks} pool={resourcePool} columns={columns} dayWidth={dayWidth} isDark={isDark} />
+                    )}
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,287 @@
+import React, { useState, useMemo } from 'react';
+import { ArrowLeftRight, X, Download, Upload, AlertTriangle } from 'lucide-react';
+import { Task, ProcessedTask, ScheduleSettings } from '../types';
+import { exportMspdi, importMspdi, MspdiImport } from '../utils/mspdi';
+import { CSV_FIELDS, CsvColumnMapping, CsvImportMode, parseCsv, guessCsvMapping, importCsvRows, exportCsv } from '../utils/csv';
+import { GRID_COLUMNS } from '../utils/taskGrid';
+import { exportIcs, filterCalendarTasks, IcsExportOptions } from '../utils/ics';
+import { downloadFile } from '../utils/download';
+
+interface ImportExportModalProps {
+    projectId: string;
+    projectName: string;
+    tasks: Task[];
+    scheduledTasks: ProcessedTask[]; // CPM output for the computed CSV columns
+    schedule: ScheduleSettings;
+    onImportProjectXml: (result: MspdiImport) => void; // Replaces the task list
+    onImportCsv: (tasks: Task[]) => void;
+    onSetStartDate: (startDate: string) => void; // Calendar export needs real dates
+    onClose: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({ projectId, projectName, tasks, scheduledTasks, schedule, onImportProjectXml, onImportCsv, onSetStartDate, onClose }) => {
+    const [preview, setPreview] = useState<MspdiImport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [csvRecords, setCsvRecords] = useState<string[][] | null>(null);
+    const [csvHasHeader, setCsvHasHeader] = useState(true);
+    const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | null>(null);
+    const [csvMode, setCsvMode] = useState<CsvImportMode>('merge');
+    const pool = useMemo(() => schedule.resources || [], [schedule.resources]);
+    const [icsOptions, setIcsOptions] = useState<IcsExportOptions>({ includeTasks: true, filter: 'all' });
+    const icsTaskCount = icsOptions.includeTasks ? filterCalendarTasks(scheduledTasks, icsOptions).length : 0;
+
+    const csvColumns = csvRecords
+        ? Array.from({ length: Math.max(...csvRecords.map(r => r.length)) }, (_, i) => csvHasHeader ? csvRecords[0][i] || `Column ${i + 1}` : `Column ${i + 1}`)
+        : [];
+    const csvResult = useMemo(() => {
+        if (!csvRecords || !csvMapping) return null;
+        return importCsvRows(csvHasHeader ? csvRecords.slice(1) : csvRecords, csvMapping, pool, tasks, csvMode);
+    }, [csvRecords, csvHasHeader, csvMapping, pool, tasks, csvMode]);
+    const csvTaskById = new Map((csvResult?.tasks || []).map(t => [t.id, t]));
+    const csvIssueCount = csvResult ? csvResult.rows.filter(r => r.issues.length > 0).length : 0;
+
+    const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const records = parseCsv(await file.text());
+        if (records.length === 0) {
+            setError('The file has no rows');
+            return;
+        }
+        setPreview(null);
+        setError(null);
+        setCsvRecords(records);
+        setCsvHasHeader(true);
+        setCsvMapping(guessCsvMapping(records[0]));
+    };
+
+    const applyCsv = () => {
+        if (!csvResult) return;
+        onImportCsv(csvResult.tasks);
+        onClose();
+    };
+
+    const handleProjectXmlFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setPreview(importMspdi(await file.text()));
+            setCsvRecords(null);
+            setError(null);
+        } catch (err) {
+            setPreview(null);
+            setError(err instanceof Error ? err.message : 'Failed to read the file');
+        }
+    };
+
+    const applyProjectXml = () => {
+        if (!preview) return;
+        onImportProjectXml(preview);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-sm p-4">
+            <div className={`w-full ${csvRecords ? 'max-w-3xl' : 'max-w-lg'} bg-white rounded-2xl shadow-xl p-6 max-h-[90vh] overflow-y-auto custom-scrollbar`}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <ArrowLeftRight size={18} /> Import / Export
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-400"><X size={20} /></button>
+                </div>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Microsoft Project XML</label>
+                        <p className="text-[10px] text-slate-400 mb-2">Tasks, durations, links with lags, summary tasks, resources and assignments. Tasks are renumbered in outline order.</p>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => downloadFile(`${projectName}.xml`, exportMspdi(projectName, tasks, schedule), 'application/xml')}
+                                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800"
+                            >
+                                <Download size={14} /> Export .xml
+                            </button>
+                            <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border border-slate-200 text-slate-700 hover:bg-slate-50 cursor-pointer">
+                                <Upload size={14} /> Import .xml
+                                <input type="file" accept=".xml,application/xml,text/xml" className="hidden" onChange={handleProjectXmlFile} />
+                            </label>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">CSV / Excel</label>
+                        <p className="text-[10px] text-slate-400 mb-2">Export includes the computed ES, EF, LS, LF and slack. Import lets you map the file's columns onto task fields.</p>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => downloadFile(`${projectName}.csv`, exportCsv(tasks, scheduledTasks, pool, schedule), 'text/csv')}
+                                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800"
+                            >
+                                <Download size={14} /> Export .csv
+                            </button>
+                            <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border border-slate-200 text-slate-700 hover:bg-slate-50 cursor-pointer">
+                                <Upload size={14} /> Import .csv
+                                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleCsvFile} />
+                            </label>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Calendar (.ics)</label>
+                        <p className="text-[10px] text-slate-400 mb-2">All-day events for Outlook, Google or Apple Calendar: the project start and finish, plus tasks with their ID and predecessors in the description.</p>
+                        {schedule.startDate ? (
+                            <div className="space-y-2">
+                                <label className="flex items-center gap-1.5 text-xs text-slate-600">
+                                    <input type="checkbox" checked={icsOptions.includeTasks} onChange={e => setIcsOptions({ ...icsOptions, includeTasks: e.target.checked })} /> Include tasks
+                                </label>
+                                <div className="flex gap-2">
+                                    <select
+                                        className="flex-1 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs disabled:opacity-50"
+                                        value={icsOptions.filter === 'resource' ? `resource:${icsOptions.resourceId}` : icsOptions.filter}
+                                        disabled={!icsOptions.includeTasks}
+                                        onChange={e => {
+                                            const value = e.target.value;
+                                            setIcsOptions(value.startsWith('resource:')
+                                                ? { ...icsOptions, filter: 'resource', resourceId: value.slice('resource:'.length) }
+                                                : { ...icsOptions, filter: value as 'all' | 'critical', resourceId: undefined });
+                                        }}
+                                    >
+                                        <option value="all">All tasks</option>
+                                        <option value="critical">Critical tasks only</option>
+                                        {pool.map(r => <option key={r.id} value={`resource:${r.id}`}>Tasks for {r.name}</option>)}
+                                    </select>
+                                    <button
+                                        type="button"
+                                        onClick={() => downloadFile(`${projectName}.ics`, exportIcs(projectId, projectName, scheduledTasks, schedule, icsOptions), 'text/calendar')}
+                                        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-900 text-white hover:bg-slate-800"
+                                    >
+                                        <Download size={14} /> Export .ics
+                                    </button>
+                                </div>
+                                <p className="text-[10px] text-slate-400">2 milestones{icsOptions.includeTasks && ` and ${icsTaskCount} tasks`}.</p>
+                            </div>
+                        ) : (
+                            <div>
+                                <p className="text-xs text-amber-600 mb-1">The project has no start date yet. Pick one to place the schedule on the calendar:</p>
+                                <input type="date" className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm" onChange={e => e.target.value && onSetStartDate(e.target.value)} />
+                            </div>
+                        )}
+                    </div>
+
+                    {error && <p className="text-xs text-rose-500">{error}</p>}
+
+                    {csvRecords && csvMapping && csvResult && (
+                        <div className="p-3 rounded-lg border border-slate-200 bg-slate-50 space-y-3">
+                            <div className="grid grid-cols-3 gap-2">
+                                {CSV_FIELDS.map(field => (
+                                    <div key={field}>
+                                        <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">{GRID_COLUMNS.find(c => c.key === field)!.label}</label>
+                                        <select
+                                            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs"
+                                            value={csvMapping[field] ?? ''}
+                                            onChange={e => setCsvMapping({ ...csvMapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                        >
+                                            <option value="">(not imported)</option>
+                                            {csvColumns.map((label, i) => <option key={i} value={i}>{label}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+                                <label className="flex items-center gap-1.5">
+                                    <input type="checkbox" checked={csvHasHeader} onChange={e => setCsvHasHeader(e.target.checked)} /> First row is a header
+                                </label>
+                                <label className="flex items-center gap-1.5">
+                                    <input type="radio" name="csv-mode" checked={csvMode === 'merge'} onChange={() => setCsvMode('merge')} /> Merge (update matching IDs, add the rest)
+                                </label>
+                                <label className="flex items-center gap-1.5">
+                                    <input type="radio" name="csv-mode" checked={csvMode === 'replace'} onChange={() => setCsvMode('replace')} /> Replace all tasks
+                                </label>
+                            </div>
+
+                            <div className="max-h-64 overflow-auto border border-slate-200 rounded-lg bg-white">
+                                <table className="w-full text-[11px] text-slate-700">
+                                    <thead className="sticky top-0 bg-slate-50 text-[10px] font-bold uppercase text-slate-400">
+                                        <tr>
+                                            <th className="px-2 py-1 text-left">Row</th>
+                                            <th className="px-2 py-1 text-left">ID</th>
+                                            <th className="px-2 py-1 text-left">Name</th>
+                                            <th className="px-2 py-1 text-right">Duration</th>
+                                            <th className="px-2 py-1 text-left">Predecessors</th>
+                                            <th className="px-2 py-1 text-left">Issues</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {csvResult.rows.slice(0, PREVIEW_ROWS).map(row => {
+                                            const task = row.id ? csvTaskById.get(row.id) : undefined;
+                                            return (
+                                                <tr key={row.line} className={`border-t border-slate-100 ${row.issues.length > 0 ? 'bg-rose-50' : ''}`}>
+                                                    <td className="px-2 py-1 text-slate-400">{row.line}</td>
+                                                    <td className="px-2 py-1 font-mono">{task?.id ?? '—'}</td>
+                                                    <td className="px-2 py-1">{task?.name}</td>
+                                                    <td className="px-2 py-1 text-right font-mono">{task?.duration}</td>
+                                                    <td className="px-2 py-1 font-mono">{task?.predecessors.map(p => p.id).join(', ')}</td>
+                                                    <td className="px-2 py-1 text-rose-600">{row.issues.join('; ')}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {csvResult.rows.length > PREVIEW_ROWS && (
+                                <p className="text-[10px] text-slate-400">Showing the first {PREVIEW_ROWS} of {csvResult.rows.length} rows.</p>
+                            )}
+
+                            <div className="flex items-center justify-between gap-2">
+                                <p className={`text-xs ${csvIssueCount > 0 ? 'text-rose-600 font-bold' : 'text-slate-500'}`}>
+                                    {csvResult.added} new, {csvResult.updated} updated{csvIssueCount > 0 && `, ${csvIssueCount} rows with problems`}
+                                </p>
+                                <div className="flex gap-2">
+                                    <button type="button" onClick={() => setCsvRecords(null)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100">Cancel</button>
+                                    <button
+                                        type="button"
+                                        onClick={applyCsv}
+                                        disabled={csvResult.added + csvResult.updated === 0}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                    >
+                                        {csvMode === 'replace' ? 'Replace tasks' : 'Merge tasks'}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {preview && (
+                        <div className="p-3 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+                            <p className="text-sm text-slate-700">
+                                <strong>{preview.name}</strong>: {preview.tasks.length} tasks, {preview.resources.length} resources
+                                {preview.startDate && <>, starting {preview.startDate}</>}
+                            </p>
+                            {preview.unmapped.length > 0 && (
+                                <div>
+                                    <p className="flex items-center gap-1 text-xs font-bold text-amber-600 mb-1">
+                                        <AlertTriangle size={12} /> {preview.unmapped.length} items could not be mapped
+                                    </p>
+                                    <ul className="text-[11px] text-slate-500 max-h-40 overflow-y-auto list-disc pl-4 space-y-0.5">
+                                        {preview.unmapped.map((item, i) => <li key={i}>{item}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                            <p className="text-[10px] text-slate-400">Importing replaces all {tasks.length} current tasks. Resources are added to the pool by name. Undo restores the previous tasks.</p>
+                            <div className="flex justify-end gap-2">
+                                <button type="button" onClick={() => setPreview(null)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100">Cancel</button>
+                                <button type="button" onClick={applyProjectXml} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">Replace tasks</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
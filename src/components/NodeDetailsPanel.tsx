@@ -1,6 +1,8 @@
 import React from 'react';
-import { LayoutNode } from '../types';
-import { X, AlertTriangle, Clock, Calendar, Activity } from 'lucide-react';
+import { LayoutNode, ScheduleSettings } from '../types';
+import { X, AlertTriangle, Clock, Calendar, Activity, Lock, Flag } from 'lucide-react';
+import { getTaskDates, formatDate } from '../utils/calendar';
+import { CONSTRAINT_LABELS } from '../utils/constraints';
 
 interface NodeDetailsPanelProps {
     node: LayoutNode;
@@ -8,11 +10,19 @@ interface NodeDetailsPanelProps {
     onDelete: () => void;
     onClose: () => void;
     theme: 'dark' | 'light';
+    schedule?: ScheduleSettings;
 }
 
-export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ node, onEdit, onDelete, onClose, theme }) => {
+export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ node, onEdit, onDelete, onClose, theme, schedule }) => {
     const isDark = theme === 'dark';
 
+    // Calendar dates only exist once the project has a start date
+    const earlyDates = schedule ? getTaskDates(node.es, node.ef, schedule) : null;
+    const lateDates = schedule && node.ls !== Infinity ? getTaskDates(node.ls, node.lf, schedule) : null;
+    const dateLabel = (date?: Date) => date ? (
+        <span className={`block text-[10px] ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>{formatDate(date, { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' })}</span>
+    ) : null;
+
     return (
         <div className={`absolute top-4 right-4 w-80 rounded-xl shadow-2xl border backdrop-blur-md z-40 flex flex-col transition-all duration-300 ${isDark ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-stone-200 text-stone-800'}`}>
             {/* Header */}
@@ -43,6 +53,28 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ node, onEdit
                     </div>
                 )}
 
+                {/* Constraints */}
+                {node.constraint && (
+                    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border ${node.constraintViolated ? (isDark ? 'bg-red-900/20 text-red-400 border-red-900/30' : 'bg-red-50 text-red-600 border-red-100') : (isDark ? 'bg-amber-900/20 text-amber-400 border-amber-900/30' : 'bg-amber-50 text-amber-700 border-amber-100')}`}>
+                        <Lock size={14} />
+                        {CONSTRAINT_LABELS[node.constraint.type]} day {node.constraint.day}{node.constraintViolated && ' — not met by the network logic'}
+                    </div>
+                )}
+                {node.deadlineMissed && (
+                    <div className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold ${isDark ? 'bg-red-900/20 text-red-400 border border-red-900/30' : 'bg-red-50 text-red-600 border border-red-100'}`}>
+                        <Flag size={14} />
+                        Misses deadline day {node.deadline} by {node.ef - node.deadline!} days
+                    </div>
+                )}
+
+                {/* Calendar Window */}
+                {earlyDates && (
+                    <div className={`flex items-center gap-2 text-xs ${isDark ? 'text-slate-400' : 'text-stone-500'}`}>
+                        <Calendar size={14} />
+                        <span>{formatDate(earlyDates.start)} – {formatDate(earlyDates.finish)}</span>
+                    </div>
+                )}
+
                 {/* Stats Grid */}
                 <div className="grid grid-cols-2 gap-3">
                     <div className={`p-3 rounded-lg border ${isDark ? 'bg-slate-950/50 border-slate-800' : 'bg-stone-50/50 border-stone-100'}`}>
@@ -55,34 +87,56 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ node, onEdit
                         <div className={`flex items-center gap-1.5 text-[10px] font-bold uppercase mb-1 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>
                             <Activity size={12} /> Slack
                         </div>
-                        <div className={`text-lg font-bold ${node.slack === 0 ? 'text-red-500' : 'text-emerald-500'}`}>{node.slack} <span className={`text-xs font-normal opacity-60 ${isDark ? 'text-slate-400' : 'text-stone-600'}`}>days</span></div>
+                        <div className={`text-lg font-bold ${node.slack <= 0 ? 'text-red-500' : 'text-emerald-500'}`}>{node.slack} <span className={`text-xs font-normal opacity-60 ${isDark ? 'text-slate-400' : 'text-stone-600'}`}>days</span></div>
                     </div>
                 </div>
 
+                {/* Float Breakdown */}
+                {node.freeFloat !== undefined && (
+                    <div className={`grid grid-cols-2 gap-3 text-xs ${isDark ? 'text-slate-400' : 'text-stone-500'}`}>
+                        <div title="Delay possible without delaying any successor">
+                            <span className={`block text-[9px] uppercase font-bold ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Free Float</span>
+                            <span className="font-mono font-bold">{node.freeFloat}d</span>
+                        </div>
+                        <div title="Slack shared with successors: using it eats into theirs">
+                            <span className={`block text-[9px] uppercase font-bold ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Interfering Float</span>
+                            <span className="font-mono font-bold">{node.interferingFloat}d</span>
+                        </div>
+                    </div>
+                )}
+
                 {/* Timing Details */}
                 <div className={`rounded-lg border overflow-hidden ${isDark ? 'border-slate-800' : 'border-stone-100'}`}>
                     <div className={`grid grid-cols-2 divide-x ${isDark ? 'divide-slate-800 bg-slate-950/30' : 'divide-stone-100 bg-stone-50/30'}`}>
                         <div className="p-2 text-center">
                             <span className={`block text-[9px] uppercase font-bold mb-0.5 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Earliest Start</span>
                             <span className="font-mono font-bold">{node.es}</span>
+                            {dateLabel(earlyDates?.start)}
                         </div>
                         <div className="p-2 text-center">
                             <span className={`block text-[9px] uppercase font-bold mb-0.5 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Earliest Finish</span>
                             <span className="font-mono font-bold">{node.ef}</span>
+                            {dateLabel(earlyDates?.finish)}
                         </div>
                         <div className={`p-2 text-center border-t ${isDark ? 'border-slate-800' : 'border-stone-100'}`}>
                             <span className={`block text-[9px] uppercase font-bold mb-0.5 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Latest Start</span>
                             <span className="font-mono font-bold">{node.ls === Infinity ? '∞' : node.ls}</span>
+                            {dateLabel(lateDates?.start)}
                         </div>
                         <div className={`p-2 text-center border-t ${isDark ? 'border-slate-800' : 'border-stone-100'}`}>
                             <span className={`block text-[9px] uppercase font-bold mb-0.5 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Latest Finish</span>
                             <span className="font-mono font-bold">{node.lf === Infinity ? '∞' : node.lf}</span>
+                            {dateLabel(lateDates?.finish)}
                         </div>
                     </div>
                 </div>
             </div>
 
-
+            {/* Actions */}
+            <div className={`flex gap-2 p-4 border-t ${isDark ? 'border-slate-700' : 'border-stone-100'}`}>
+                <button onClick={onEdit} className={`btn flex-1 text-xs ${isDark ? 'bg-slate-800 text-slate-200 hover:bg-slate-700' : 'bg-stone-900 text-white hover:bg-stone-800'}`}>Edit</button>
+                <button onClick={onDelete} className={`btn text-xs ${isDark ? 'bg-rose-900/20 text-rose-400 hover:bg-rose-900/40' : 'bg-rose-50 text-rose-600 hover:bg-rose-100'}`}>Delete</button>
+            </div>
         </div>
     );
 };
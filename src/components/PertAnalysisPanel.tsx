@@ -0,0 +1,60 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { ScheduleSettings } from '../types';
+import { probabilityOfMeeting } from '../utils/pert';
+import { workdayToDate, formatDate, DEFAULT_CALENDAR } from '../utils/calendar';
+
+interface PertAnalysisPanelProps {
+    expectedDuration: number; // Mean of the project duration (PERT te along the critical path)
+    stdDev: number;
+    schedule: ScheduleSettings;
+    onScheduleChange: (schedule: ScheduleSettings) => void;
+    isDark: boolean;
+}
+
+export const PertAnalysisPanel: React.FC<PertAnalysisPanelProps> = ({ expectedDuration, stdDev, schedule, onScheduleChange, isDark }) => {
+    const target = schedule.targetFinish;
+    const probability = target !== undefined ? probabilityOfMeeting(target, expectedDuration, stdDev) : null;
+
+    // The target is a finish boundary, so it lands at the end of working day target - 1
+    const targetDate = target !== undefined && target > 0 && schedule.startDate
+        ? workdayToDate(schedule.startDate, target - 1, schedule.calendar || DEFAULT_CALENDAR)
+        : null;
+
+    const probabilityColor = probability === null ? '' :
+        probability >= 0.8 ? 'text-emerald-500' :
+            probability >= 0.5 ? 'text-amber-500' : 'text-rose-500';
+
+    return (
+        <div className="space-y-3">
+            <label className={`text-[10px] font-bold uppercase flex items-center gap-1.5 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>
+                <Target size={12} /> PERT Analysis
+            </label>
+            <input
+                type="number"
+                min="0"
+                placeholder="Target finish (day)"
+                className={`w-full px-3 py-2 border rounded-lg text-sm ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200 placeholder-slate-600' : 'bg-stone-50 border-stone-200 text-stone-800'}`}
+                value={target ?? ''}
+                onChange={e => onScheduleChange({ ...schedule, targetFinish: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+            {targetDate && (
+                <div className={`text-[10px] ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Finish by {formatDate(targetDate)}</div>
+            )}
+            <div className={`grid grid-cols-3 gap-2 text-center text-xs rounded-lg border p-2 ${isDark ? 'bg-slate-950 border-slate-800 text-slate-300' : 'bg-stone-50 border-stone-200 text-stone-700'}`}>
+                <div>
+                    <span className={`block text-[9px] uppercase font-bold ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Mean (te)</span>
+                    <span className="font-mono font-bold">{expectedDuration.toFixed(1)}d</span>
+                </div>
+                <div>
+                    <span className={`block text-[9px] uppercase font-bold ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>Std. Dev. (σ)</span>
+                    <span className="font-mono font-bold">{stdDev.toFixed(2)}d</span>
+                </div>
+                <div>
+                    <span className={`block text-[9px] uppercase font-bold ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>P(on time)</span>
+                    <span className={`font-mono font-bold ${probabilityColor}`}>{probability === null ? '—' : `${(probability * 100).toFixed(1)}%`}</span>
+                </div>
+            </div>
+        </div>
+    );
+};
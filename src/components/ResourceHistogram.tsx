@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Task, Resource } from '../types';
+import { calculateResourceUsage } from '../utils/resources';
+
+interface ResourceHistogramProps {
+    tasks: Task[];
+    pool: Resource[];
+    columns: number;
+    dayWidth: number;
+    isDark: boolean;
+}
+
+const ROW_HEIGHT = 64;
+const CHART_PADDING = 8;
+
+export const ResourceHistogram: React.FC<ResourceHistogramProps> = ({ tasks, pool, columns, dayWidth, isDark }) => {
+    const usage = useMemo(() => calculateResourceUsage(tasks, pool, columns), [tasks, pool, columns]);
+
+    return (
+        <div className={`border-t-2 ${isDark ? 'border-slate-700' : 'border-slate-300'}`}>
+            <div className={`flex border-b ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-slate-50'}`}>
+                <div className={`w-48 flex-shrink-0 border-r p-2 font-bold text-sm sticky left-0 z-20 ${isDark ? 'border-slate-800 text-slate-400 bg-slate-900' : 'border-slate-200 text-slate-600 bg-slate-50'}`}>
+                    Resource Usage
+                </div>
+            </div>
+            {usage.map(({ resource, daily, overAllocatedDays, peak }) => {
+                const scale = Math.max(peak, resource.maxUnits, 1);
+                const chartHeight = ROW_HEIGHT - CHART_PADDING * 2;
+                const capacityY = CHART_PADDING + chartHeight * (1 - resource.maxUnits / scale);
+
+                return (
+                    <div key={resource.id} className={`flex border-b ${isDark ? 'border-slate-800' : 'border-slate-100'}`} style={{ height: ROW_HEIGHT }}>
+                        <div className={`w-48 flex-shrink-0 border-r p-2 flex flex-col justify-center overflow-hidden sticky left-0 z-20 ${isDark ? 'border-slate-800 bg-slate-900' : 'border-slate-200 bg-white'}`}>
+                            <span className={`text-sm truncate flex items-center gap-1 ${isDark ? 'text-slate-300' : 'text-slate-700'}`} title={resource.name}>
+                                {overAllocatedDays.length > 0 && <AlertTriangle size={12} className="text-rose-500 flex-shrink-0" />}
+                                {resource.name}
+                            </span>
+                            <span className={`text-[10px] ${overAllocatedDays.length > 0 ? 'text-rose-500' : (isDark ? 'text-slate-500' : 'text-slate-400')}`}>
+                                max {resource.maxUnits}/day{overAllocatedDays.length > 0 && ` · ${overAllocatedDays.length} over-allocated day${overAllocatedDays.length === 1 ? '' : 's'}`}
+                            </span>
+                        </div>
+                        <div className="flex-1 relative">
+                            {daily.map((units, day) => {
+                                if (units === 0) return null;
+                                const isOver = units > resource.maxUnits + 1e-9;
+                                const height = chartHeight * (units / scale);
+                                return (
+                                    <div
+                                        key={day}
+                                        className={`absolute rounded-t-sm ${isOver ? 'bg-rose-500' : (isDark ? 'bg-emerald-600' : 'bg-emerald-500')}`}
+                                        style={{ left: day * dayWidth + 2, width: dayWidth - 4, bottom: CHART_PADDING, height }}
+                                        title={`Day ${day}: ${units} / ${resource.maxUnits} units`}
+                                    />
+                                );
+                            })}
+                            {/* Capacity line */}
+                            <div className="absolute left-0 right-0 border-t border-dashed border-rose-400/70" style={{ top: capacityY }} />
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
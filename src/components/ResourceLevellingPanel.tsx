@@ -0,0 +1,65 @@
+import React from 'react';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { LevellingOptions, LevellingPriority, LevellingResult } from '../types';
+import { LEVELLING_PRIORITY_LABELS } from '../utils/resourceLevelling';
+
+interface ResourceLevellingPanelProps {
+    options: LevellingOptions;
+    onOptionsChange: (options: LevellingOptions) => void;
+    result: LevellingResult | null;
+    isDark: boolean;
+}
+
+export const ResourceLevellingPanel: React.FC<ResourceLevellingPanelProps> = ({ options, onOptionsChange, result, isDark }) => {
+    const delta = result ? result.levelledDuration - result.original.projectDuration : 0;
+    const muted = isDark ? 'text-slate-500' : 'text-stone-500';
+
+    return (
+        <div className={`mb-4 p-4 rounded-xl border text-sm ${isDark ? 'bg-slate-900 border-slate-800 text-slate-300' : 'bg-white border-stone-200 text-stone-700 shadow-sm'}`}>
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 font-bold cursor-pointer">
+                    <input type="checkbox" checked={options.enabled} onChange={e => onOptionsChange({ ...options, enabled: e.target.checked })} />
+                    <Layers size={16} className="text-blue-500" /> Level resources
+                </label>
+                <select
+                    className={`px-2 py-1 border rounded-lg text-xs ${isDark ? 'bg-slate-950 border-slate-800 text-slate-300' : 'bg-stone-50 border-stone-200'}`}
+                    value={options.priority}
+                    onChange={e => onOptionsChange({ ...options, priority: e.target.value as LevellingPriority })}
+                >
+                    {Object.entries(LEVELLING_PRIORITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <label className={`flex items-center gap-2 text-xs cursor-pointer ${muted}`}>
+                    <input type="checkbox" checked={options.allowProjectExtension} onChange={e => onOptionsChange({ ...options, allowProjectExtension: e.target.checked })} />
+                    Allow delays beyond slack (extends the project)
+                </label>
+            </div>
+
+            {options.enabled && result && (
+                <div className={`mt-3 pt-3 border-t space-y-2 ${isDark ? 'border-slate-800' : 'border-stone-100'}`}>
+                    <div className="flex flex-wrap gap-6">
+                        <span><span className={muted}>Original finish:</span> <span className="font-mono font-bold">{result.original.projectDuration}d</span></span>
+                        <span><span className={muted}>Levelled finish:</span> <span className="font-mono font-bold">{result.levelledDuration}d</span>
+                            {delta > 0 && <span className="ml-1 text-rose-500 font-mono">(+{delta}d)</span>}
+                        </span>
+                        <span><span className={muted}>Tasks moved:</span> <span className="font-mono font-bold">{result.shifts.length}</span></span>
+                    </div>
+                    {result.shifts.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                            {result.shifts.map(shift => (
+                                <span key={shift.id} className={`px-2 py-0.5 rounded font-mono text-xs ${isDark ? 'bg-blue-500/10 text-blue-300' : 'bg-blue-50 text-blue-700'}`} title={`Day ${shift.originalStart} → ${shift.levelledStart}`}>
+                                    {shift.id} +{shift.delay}d
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {result.unresolved.length > 0 && (
+                        <div className="flex items-center gap-2 text-xs text-rose-500">
+                            <AlertTriangle size={14} />
+                            Still over-allocated: {result.unresolved.join(', ')}{!options.allowProjectExtension && ' — allow delays beyond slack to resolve'}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Users, X, Plus, Trash2 } from 'lucide-react';
+import { Resource, ResourceType } from '../types';
+import { RESOURCE_TYPE_LABELS } from '../utils/resources';
+
+interface ResourcePoolModalProps {
+    resources: Resource[];
+    onSave: (resources: Resource[]) => void;
+    onClose: () => void;
+}
+
+export const ResourcePoolModal: React.FC<ResourcePoolModalProps> = ({ resources, onSave, onClose }) => {
+    const [pool, setPool] = useState<Resource[]>(resources);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateResource = (id: string, updates: Partial<Resource>) => {
+        setPool(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+    };
+
+    const addResource = () => {
+        setPool([...pool, { id: crypto.randomUUID(), name: '', type: 'work', maxUnits: 1, costRate: 0 }]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const cleaned = pool.map(r => ({ ...r, name: r.name.trim() }));
+        if (cleaned.some(r => !r.name)) { setError("Every resource needs a name"); return; }
+        const names = cleaned.map(r => r.name.toLowerCase());
+        if (new Set(names).size !== names.length) { setError("Resource names must be unique"); return; }
+        if (cleaned.some(r => !(r.maxUnits > 0))) { setError("Max units must be greater than 0"); return; }
+
+        onSave(cleaned);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-sm p-4">
+            <div className="w-full max-w-2xl bg-white rounded-2xl shadow-xl p-6 max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Users size={18} /> Resource Pool
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-400"><X size={20} /></button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-[1fr_120px_90px_90px_auto] gap-2 text-[9px] font-bold text-slate-400 uppercase">
+                        <span>Name</span>
+                        <span>Type</span>
+                        <span>Max Units/Day</span>
+                        <span>Cost/Unit-Day</span>
+                        <span className="w-7"></span>
+                    </div>
+                    {pool.length === 0 && <p className="text-xs text-slate-400 italic">No resources defined</p>}
+                    <div className="space-y-2">
+                        {pool.map(resource => (
+                            <div key={resource.id} className="grid grid-cols-[1fr_120px_90px_90px_auto] gap-2 items-center">
+                                <input className="w-full px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={resource.name} placeholder="Name" onChange={e => updateResource(resource.id, { name: e.target.value })} />
+                                <select className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={resource.type} onChange={e => updateResource(resource.id, { type: e.target.value as ResourceType })}>
+                                    {Object.entries(RESOURCE_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                </select>
+                                <input type="number" min="0" step="0.5" className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-center" value={resource.maxUnits} onChange={e => updateResource(resource.id, { maxUnits: Number(e.target.value) })} />
+                                <input type="number" min="0" className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-center" value={resource.costRate} onChange={e => updateResource(resource.id, { costRate: Number(e.target.value) })} />
+                                <button type="button" onClick={() => setPool(pool.filter(r => r.id !== resource.id))} className="p-1.5 hover:bg-rose-50 rounded text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+                            </div>
+                        ))}
+                    </div>
+                    <button type="button" onClick={addResource} className="text-[10px] font-bold uppercase text-blue-500 hover:text-blue-600 flex items-center gap-1">
+                        <Plus size={12} /> Resource
+                    </button>
+
+                    {error && <p className="text-xs text-rose-500">{error}</p>}
+
+                    <div className="flex gap-2 pt-4 mt-2 border-t border-slate-100">
+                        <button type="button" onClick={onClose} className="btn flex-1 text-slate-600 hover:bg-slate-50">Cancel</button>
+                        <button type="submit" className="btn flex-[2] bg-slate-900 text-white hover:bg-slate-800">Save Pool</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,198 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Square, Dices } from 'lucide-react';
+import { Task, ScheduleSettings, SamplingDistribution, MonteCarloOptions, MonteCarloResult, CPMOptions } from '../types';
+import { runMonteCarlo } from '../utils/monteCarlo';
+import { workdayToDate, formatDate, DEFAULT_CALENDAR } from '../utils/calendar';
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from '../workers/monteCarlo.worker';
+
+interface RiskAnalysisViewProps {
+    tasks: Task[];
+    schedule: ScheduleSettings;
+    theme: 'dark' | 'light';
+}
+
+export const RiskAnalysisView: React.FC<RiskAnalysisViewProps> = ({ tasks, schedule, theme }) => {
+    const isDark = theme === 'dark';
+    const [iterations, setIterations] = useState(5000);
+    const [distribution, setDistribution] = useState<SamplingDistribution>('beta-pert');
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [runTasks, setRunTasks] = useState<Task[] | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+
+    useEffect(() => () => workerRef.current?.terminate(), []);
+
+    const stop = () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        setRunning(false);
+    };
+
+    const run = () => {
+        const options: MonteCarloOptions = { iterations, distribution };
+        const cpmOptions: CPMOptions = { statusDate: schedule.statusDate };
+        setError(null);
+        setProgress(0);
+        setRunTasks(tasks);
+
+        // Environments without workers (tests, very old browsers) run inline
+        if (typeof Worker === 'undefined') {
+            try {
+                setResult(runMonteCarlo(tasks, options, cpmOptions));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : String(err));
+            }
+            return;
+        }
+
+        workerRef.current?.terminate();
+        const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        setRunning(true);
+
+        worker.onmessage = (e: MessageEvent<MonteCarloWorkerResponse>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                setProgress(message.completed);
+                return;
+            }
+            if (message.type === 'result') setResult(message.result);
+            else setError(message.message);
+            stop();
+        };
+        // Failures outside runMonteCarlo (loading the worker, unreadable messages) never post an error
+        const fail = (message: string) => {
+            setError(message);
+            stop();
+        };
+        worker.onerror = e => {
+            e.preventDefault();
+            fail(e.message || 'The simulation worker failed to run.');
+        };
+        worker.onmessageerror = () => fail('The simulation result could not be read.');
+        worker.postMessage({ tasks, options, cpmOptions } as MonteCarloWorkerRequest);
+    };
+
+    // Finish values are boundaries, so the finish date is the working day before
+    const finishLabel = (day: number) => {
+        if (!schedule.startDate) return null;
+        const date = workdayToDate(schedule.startDate, Math.max(0, Math.ceil(day) - 1), schedule.calendar || DEFAULT_CALENDAR);
+        return date ? formatDate(date) : null;
+    };
+
+    const maxCount = result ? Math.max(...result.histogram.map(b => b.count), 1) : 1;
+    const criticality = result
+        ? tasks.map(t => ({ task: t, index: result.criticalityIndex[t.id] ?? 0 })).sort((a, b) => b.index - a.index)
+        : [];
+
+    const card = `p-4 rounded-xl border ${isDark ? 'bg-slate-900 border-slate-800' : 'bg-white border-stone-200 shadow-sm'}`;
+    const labelClass = `text-[10px] font-bold uppercase ${isDark ? 'text-slate-500' : 'text-stone-400'}`;
+    const inputClass = `px-3 py-2 border rounded-lg text-sm ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200' : 'bg-stone-50 border-stone-200 text-stone-800'}`;
+
+    return (
+        <div className={`space-y-6 max-w-5xl mx-auto ${isDark ? 'text-slate-200' : 'text-stone-800'}`}>
+            {/* Controls */}
+            <div className={`${card} flex flex-wrap items-end gap-4`}>
+                <div className="flex items-center gap-2 mr-auto">
+                    <Dices size={20} className="text-blue-500" />
+                    <div>
+                        <h2 className="font-bold">Monte Carlo Risk Analysis</h2>
+                        <p className={`text-xs ${isDark ? 'text-slate-500' : 'text-stone-500'}`}>Completed tasks and tasks without a three-point estimate keep their fixed duration.</p>
+                    </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <span className={labelClass}>Iterations</span>
+                    <select className={inputClass} value={iterations} onChange={e => setIterations(Number(e.target.value))} disabled={running}>
+                        {[1000, 5000, 10000, 25000].map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                    </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <span className={labelClass}>Distribution</span>
+                    <select className={inputClass} value={distribution} onChange={e => setDistribution(e.target.value as SamplingDistribution)} disabled={running}>
+                        <option value="beta-pert">Beta-PERT</option>
+                        <option value="triangular">Triangular</option>
+                        <option value="uniform">Uniform</option>
+                    </select>
+                </div>
+                {running ? (
+                    <button onClick={stop} className="btn bg-rose-500 text-white hover:bg-rose-600"><Square size={16} /> Stop</button>
+                ) : (
+                    <button onClick={run} disabled={tasks.length === 0} className={`btn text-white ${isDark ? 'bg-blue-600 hover:bg-blue-500' : 'bg-stone-900 hover:bg-stone-800'}`}><Play size={16} /> Run</button>
+                )}
+            </div>
+
+            {running && (
+                <div className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-stone-200'}`}>
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress / iterations) * 100}%` }} />
+                </div>
+            )}
+
+            {error && <p className="text-sm text-rose-500">{error}</p>}
+
+            {result && (
+                <>
+                    {runTasks !== tasks && (
+                        <p className={`text-xs italic ${isDark ? 'text-amber-400' : 'text-amber-600'}`}>Tasks changed since this run — run again to refresh the results.</p>
+                    )}
+
+                    {/* Percentiles */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            { label: 'Deterministic', value: result.deterministicDuration },
+                            { label: 'P50', value: result.p50 },
+                            { label: 'P80', value: result.p80 },
+                            { label: 'P95', value: result.p95 }
+                        ].map(item => (
+                            <div key={item.label} className={card}>
+                                <span className={labelClass}>{item.label}</span>
+                                <div className="text-2xl font-bold font-mono">{item.value.toFixed(1)} <span className="text-xs font-normal opacity-60">days</span></div>
+                                {finishLabel(item.value) && <div className={`text-xs ${isDark ? 'text-slate-500' : 'text-stone-500'}`}>{finishLabel(item.value)}</div>}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Histogram */}
+                    <div className={card}>
+                        <div className="flex justify-between items-baseline mb-4">
+                            <span className={labelClass}>Project Duration Distribution</span>
+                            <span className={`text-xs font-mono ${isDark ? 'text-slate-500' : 'text-stone-500'}`}>μ = {result.mean.toFixed(2)}d · σ = {result.stdDev.toFixed(2)}d · n = {result.iterations.toLocaleString()}</span>
+                        </div>
+                        <div className="flex items-end gap-0.5 h-48">
+                            {result.histogram.map((bin, i) => {
+                                const color = bin.start >= result.p95 ? 'bg-rose-500' : bin.start >= result.p80 ? 'bg-amber-500' : bin.start >= result.p50 ? 'bg-blue-500' : (isDark ? 'bg-slate-600' : 'bg-stone-400');
+                                return (
+                                    <div key={i} className="flex-1 h-full flex items-end" title={`${bin.start.toFixed(1)}–${bin.end.toFixed(1)} days: ${bin.count} runs (${((bin.count / result.iterations) * 100).toFixed(1)}%)`}>
+                                        <div className={`w-full rounded-t ${color}`} style={{ height: `${(bin.count / maxCount) * 100}%` }} />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className={`flex justify-between text-[10px] font-mono mt-1 ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>
+                            <span>{result.min.toFixed(1)}d</span>
+                            <span>{result.max.toFixed(1)}d</span>
+                        </div>
+                    </div>
+
+                    {/* Criticality Index */}
+                    <div className={card}>
+                        <span className={labelClass}>Criticality Index</span>
+                        <div className="mt-3 space-y-1.5">
+                            {criticality.map(({ task, index }) => (
+                                <div key={task.id} className="flex items-center gap-3 text-sm">
+                                    <span className={`w-10 font-mono text-xs px-1 rounded text-center ${isDark ? 'bg-slate-800 text-slate-400' : 'bg-stone-100 text-stone-500'}`}>{task.id}</span>
+                                    <span className="w-48 truncate" title={task.name}>{task.name}</span>
+                                    <div className={`flex-1 h-3 rounded-full overflow-hidden ${isDark ? 'bg-slate-800' : 'bg-stone-100'}`}>
+                                        <div className={`h-full ${index >= 0.5 ? 'bg-rose-500' : 'bg-blue-500'}`} style={{ width: `${index * 100}%` }} />
+                                    </div>
+                                    <span className="w-14 text-right font-mono text-xs">{(index * 100).toFixed(1)}%</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
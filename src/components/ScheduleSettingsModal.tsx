@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { CalendarDays, X, Plus } from 'lucide-react';
+import { ScheduleSettings } from '../types';
+import { DEFAULT_CALENDAR, WEEKDAY_LABELS, formatDate, parseISODate, workdayToDate } from '../utils/calendar';
+
+interface ScheduleSettingsModalProps {
+    schedule: ScheduleSettings;
+    onSave: (schedule: ScheduleSettings) => void;
+    onClose: () => void;
+}
+
+export const ScheduleSettingsModal: React.FC<ScheduleSettingsModalProps> = ({ schedule, onSave, onClose }) => {
+    const calendar = schedule.calendar || DEFAULT_CALENDAR;
+    const [startDate, setStartDate] = useState(schedule.startDate || '');
+    const [workingDays, setWorkingDays] = useState<number[]>(calendar.workingDays);
+    const [holidays, setHolidays] = useState<string[]>(calendar.holidays);
+    const [newHoliday, setNewHoliday] = useState('');
+    const [statusDate, setStatusDate] = useState<string>(schedule.statusDate?.toString() || '');
+    const [error, setError] = useState<string | null>(null);
+    const statusDay = statusDate !== '' && startDate ? workdayToDate(startDate, Number(statusDate), { workingDays, holidays }) : null;
+
+    const toggleDay = (day: number) => {
+        setWorkingDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b));
+    };
+
+    const addHoliday = () => {
+        if (!newHoliday || holidays.includes(newHoliday)) return;
+        setHolidays([...holidays, newHoliday].sort());
+        setNewHoliday('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (workingDays.length === 0) { setError("At least one working day is required"); return; }
+        if (statusDate !== '' && Number(statusDate) < 0) { setError("Status date cannot be before the project start"); return; }
+
+        onSave({
+            ...schedule,
+            startDate: startDate || undefined,
+            calendar: { workingDays, holidays },
+            statusDate: statusDate === '' ? undefined : Number(statusDate)
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/20 backdrop-blur-sm p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 max-h-[90vh] overflow-y-auto custom-scrollbar">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <CalendarDays size={18} /> Schedule Calendar
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-400"><X size={20} /></button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Project Start</label>
+                        <input type="date" className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={startDate} onChange={e => setStartDate(e.target.value)} />
+                        <p className="text-[10px] text-slate-400 mt-1">Leave empty to work with day numbers only.</p>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Working Week</label>
+                        <div className="grid grid-cols-7 gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => toggleDay(day)}
+                                    className={`py-1.5 rounded-lg text-xs font-bold border transition-colors ${workingDays.includes(day) ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Holidays</label>
+                        <div className="flex gap-2 mb-2">
+                            <input type="date" className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={newHoliday} onChange={e => setNewHoliday(e.target.value)} />
+                            <button type="button" onClick={addHoliday} disabled={!newHoliday} className="btn bg-slate-100 text-slate-700 hover:bg-slate-200"><Plus size={16} /></button>
+                        </div>
+                        {holidays.length === 0 && <p className="text-xs text-slate-400 italic">No holidays</p>}
+                        <div className="space-y-1">
+                            {holidays.map(h => (
+                                <div key={h} className="flex items-center justify-between px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-lg text-sm">
+                                    <span className="font-mono text-slate-700">{formatDate(parseISODate(h), { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' })}</span>
+                                    <button type="button" onClick={() => setHolidays(holidays.filter(x => x !== h))} className="p-1 hover:bg-rose-50 rounded text-slate-400 hover:text-rose-500"><X size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-100">
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Status Date (Day)</label>
+                        <input type="number" min="0" placeholder="Not tracking progress" className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm" value={statusDate} onChange={e => setStatusDate(e.target.value)} />
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            {statusDay
+                                ? `Progress as of ${formatDate(statusDay, { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' })}; remaining work starts no earlier.`
+                                : 'Remaining work is rescheduled to start no earlier than this day.'}
+                        </p>
+                    </div>
+
+                    {error && <p className="text-xs text-rose-500">{error}</p>}
+
+                    <div className="flex gap-2 pt-4 mt-2 border-t border-slate-100">
+                        <button type="button" onClick={onClose} className="btn flex-1 text-slate-600 hover:bg-slate-50">Cancel</button>
+                        <button type="submit" className="btn flex-[2] bg-slate-900 text-white hover:bg-slate-800">Save Calendar</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
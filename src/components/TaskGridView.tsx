@@ -0,0 +1,260 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Task, Resource } from '../types';
+import { GRID_COLUMNS, GridColumnKey, cellText, applyCellEdit, pasteCells, parseClipboardRows, validateGrid } from '../utils/taskGrid';
+import { ArrowUp, ArrowDown, Search, AlertTriangle } from 'lucide-react';
+
+interface TaskGridViewProps {
+    tasks: Task[];
+    scheduledTasks: Task[]; // CPM output for the computed columns
+    pool: Resource[];
+    isDark: boolean;
+    onChange: (tasks: Task[]) => void; // One call per edit or paste, so each is a single undo step
+}
+
+type Sort = { key: GridColumnKey; descending: boolean } | null;
+
+const ROW_HEIGHT = 32;
+
+export const TaskGridView: React.FC<TaskGridViewProps> = ({ tasks, scheduledTasks, pool, isDark, onChange }) => {
+    const [active, setActive] = useState({ row: 0, column: 1 });
+    const [editing, setEditing] = useState<string | null>(null); // Draft text of the active cell
+    const [sort, setSort] = useState<Sort>(null);
+    const [filter, setFilter] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const scheduled = useMemo(() => new Map(scheduledTasks.map(t => [t.id, t])), [scheduledTasks]);
+    const issues = useMemo(() => validateGrid(tasks), [tasks]);
+    const parentIds = useMemo(() => new Set(tasks.map(t => t.parentId)), [tasks]);
+
+    const rows = useMemo(() => {
+        const text = (task: Task, key: GridColumnKey) => cellText(task, scheduled.get(task.id), key, pool);
+        const query = filter.trim().toLowerCase();
+        const visible = query
+            ? tasks.filter(t => GRID_COLUMNS.some(c => text(t, c.key).toLowerCase().includes(query)))
+            : [...tasks];
+        if (sort) {
+            const column = GRID_COLUMNS.find(c => c.key === sort.key)!;
+            visible.sort((a, b) => {
+                const [x, y] = [text(a, sort.key), text(b, sort.key)];
+                // Blank numbers sort last
+                const order = column.numeric
+                    ? (x === '' ? 1 : 0) - (y === '' ? 1 : 0) || Number(x) - Number(y)
+                    : x.localeCompare(y, undefined, { numeric: true });
+                return sort.descending ? -order : order;
+            });
+        }
+        return visible;
+    }, [tasks, scheduled, pool, filter, sort]);
+
+    // The last row is a blank one for adding tasks
+    const rowCount = rows.length + 1;
+    const row = Math.min(active.row, rowCount - 1);
+    const column = GRID_COLUMNS[active.column];
+    const activeTask = rows[row] as Task | undefined;
+
+    useEffect(() => {
+        const cell = containerRef.current?.querySelector(`[data-cell="${row}-${active.column}"]`);
+        cell?.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+    }, [row, active.column]);
+
+    const moveTo = (nextRow: number, nextColumn: number) => {
+        setActive({
+            row: Math.max(0, Math.min(rowCount - 1, nextRow)),
+            column: Math.max(0, Math.min(GRID_COLUMNS.length - 1, nextColumn))
+        });
+    };
+
+    const commit = (text: string) => {
+        setEditing(null);
+        containerRef.current?.focus();
+        if (activeTask && text === cellText(activeTask, undefined, column.key, pool)) return;
+        const result = applyCellEdit(tasks, activeTask?.id ?? null, column.key, text, pool);
+        setErrors(result.error ? [result.error] : []);
+        if (result.tasks !== tasks) onChange(result.tasks);
+    };
+
+    // Clicking another cell keeps what was typed, as a spreadsheet does
+    const commitPending = () => {
+        if (editing !== null) commit(editing);
+    };
+
+    const startEditing = (initial?: string) => {
+        if (!column.editable) return;
+        setEditing(initial ?? (activeTask ? cellText(activeTask, undefined, column.key, pool) : ''));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (editing !== null) return;
+        const { key } = e;
+        if (key === 'ArrowUp') moveTo(row - 1, active.column);
+        else if (key === 'ArrowDown') moveTo(row + 1, active.column);
+        else if (key === 'ArrowLeft') moveTo(row, active.column - 1);
+        else if (key === 'ArrowRight') moveTo(row, active.column + 1);
+        else if (key === 'Tab') moveTo(row, active.column + (e.shiftKey ? -1 : 1));
+        else if (key === 'Home') moveTo(e.ctrlKey ? 0 : row, 0);
+        else if (key === 'End') moveTo(e.ctrlKey ? rowCount - 1 : row, GRID_COLUMNS.length - 1);
+        else if (key === 'Enter' || key === 'F2') startEditing();
+        else if ((key === 'Delete' || key === 'Backspace') && activeTask && column.editable) commit('');
+        else if (key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) startEditing(key);
+        else return;
+        e.preventDefault();
+    };
+
+    const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            setEditing(null);
+            containerRef.current?.focus();
+        } else if (e.key === 'Enter') {
+            commit(e.currentTarget.value);
+            if (activeTask) moveTo(row + 1, active.column);
+            // After adding a task, stay on the blank row that follows it
+            else setActive({ row: rowCount, column: active.column });
+        } else if (e.key === 'Tab') {
+            commit(e.currentTarget.value);
+            moveTo(row, active.column + (e.shiftKey ? -1 : 1));
+        } else return;
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        const text = e.clipboardData.getData('text/plain');
+        // Plain text pastes into the open editor as usual
+        if (editing !== null && !/[\t\n]/.test(text)) return;
+        e.preventDefault();
+        setEditing(null);
+        const result = pasteCells(tasks, rows.map(t => t.id), row, active.column, parseClipboardRows(text), pool);
+        setErrors(result.errors);
+        if (result.tasks !== tasks) onChange(result.tasks);
+        containerRef.current?.focus();
+    };
+
+    const handleCopy = (e: React.ClipboardEvent) => {
+        if (editing !== null || !activeTask) return;
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', cellText(activeTask, scheduled.get(activeTask.id), column.key, pool));
+    };
+
+    const toggleSort = (key: GridColumnKey) => {
+        setSort(prev => !prev || prev.key !== key ? { key, descending: false } : prev.descending ? null : { key, descending: true });
+    };
+
+    const cellIssue = (task: Task, key: GridColumnKey): string | null => {
+        const issue = issues.get(task.id);
+        if (!issue || key !== 'predecessors') return null;
+        const messages = [
+            ...(issue.unknownPredecessors.length > 0 ? [`Unknown predecessor: ${issue.unknownPredecessors.join(', ')}`] : []),
+            ...(issue.cycle ? [`Dependency loop: ${[...issue.cycle, issue.cycle[0]].join(' → ')}`] : [])
+        ];
+        return messages.length > 0 ? messages.join('\n') : null;
+    };
+
+    const border = isDark ? 'border-slate-800' : 'border-stone-200';
+    const cellClass = (isActive: boolean, editable: boolean, numeric: boolean, issue: string | null) => [
+        'px-2 border-r border-b truncate cursor-default',
+        border,
+        numeric ? 'text-right font-mono' : '',
+        editable ? '' : (isDark ? 'bg-slate-900/60 text-slate-400' : 'bg-stone-50 text-stone-500'),
+        issue ? (isDark ? 'bg-rose-900/40 text-rose-300' : 'bg-rose-50 text-rose-700') : '',
+        isActive ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''
+    ].join(' ');
+
+    const issueCount = rows.filter(t => issues.has(t.id)).length;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3">
+                <div className="relative">
+                    <Search size={14} className={`absolute left-2.5 top-1/2 -translate-y-1/2 ${isDark ? 'text-slate-500' : 'text-stone-400'}`} />
+                    <input
+                        type="text"
+                        placeholder="Filter tasks"
+                        className={`pl-8 pr-3 py-2 border rounded-lg text-sm w-64 ${isDark ? 'bg-slate-950 border-slate-800 text-slate-200 placeholder-slate-600' : 'bg-stone-50 border-stone-200 text-stone-800'}`}
+                        value={filter}
+                        onChange={e => { setFilter(e.target.value); setActive({ row: 0, column: active.column }); }}
+                    />
+                </div>
+                <span className={`text-xs ${isDark ? 'text-slate-500' : 'text-stone-400'}`}>
+                    {rows.length} of {tasks.length} tasks · Enter to edit, paste rows from a spreadsheet
+                </span>
+                {issueCount > 0 && (
+                    <span className="flex items-center gap-1 text-xs font-bold text-rose-500">
+                        <AlertTriangle size={14} /> {issueCount} with dependency problems
+                    </span>
+                )}
+            </div>
+
+            {errors.length > 0 && (
+                <div className={`p-3 rounded-lg border text-xs ${isDark ? 'bg-rose-950/40 border-rose-900 text-rose-300' : 'bg-rose-50 border-rose-200 text-rose-700'}`}>
+                    {errors.map((error, i) => <div key={i}>{error}</div>)}
+                </div>
+            )}
+
+            <div
+                ref={containerRef}
+                tabIndex={0}
+                role="grid"
+                aria-label="Task grid"
+                onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                onCopy={handleCopy}
+                className={`overflow-auto max-h-[70vh] rounded-xl border outline-none focus:ring-2 focus:ring-blue-500/40 ${isDark ? 'bg-slate-900 border-slate-800 text-slate-300 dark-scrollbar' : 'bg-white border-stone-200 text-stone-700 shadow-sm light-scrollbar'}`}
+            >
+                <table className="text-sm border-separate border-spacing-0 table-fixed" style={{ width: GRID_COLUMNS.reduce((sum, c) => sum + c.width, 0) }}>
+                    <colgroup>
+                        {GRID_COLUMNS.map(c => <col key={c.key} style={{ width: c.width }} />)}
+                    </colgroup>
+                    <thead className={`sticky top-0 z-10 text-[10px] font-bold uppercase ${isDark ? 'bg-slate-900 text-slate-500' : 'bg-stone-50 text-stone-400'}`}>
+                        <tr>
+                            {GRID_COLUMNS.map(c => (
+                                <th
+                                    key={c.key}
+                                    onClick={() => toggleSort(c.key)}
+                                    className={`px-2 py-2 border-r border-b cursor-pointer select-none ${border} ${c.numeric ? 'text-right' : 'text-left'}`}
+                                    title={`Sort by ${c.label}`}
+                                >
+                                    <span className="inline-flex items-center gap-1">
+                                        {c.label}
+                                        {sort?.key === c.key && (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                                    </span>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...rows, null].map((task, r) => (
+                            <tr key={task?.id ?? 'new'} style={{ height: ROW_HEIGHT }} className={task && parentIds.has(task.id) ? 'font-bold' : ''}>
+                                {GRID_COLUMNS.map((c, ci) => {
+                                    const isActive = r === row && ci === active.column;
+                                    const issue = task ? cellIssue(task, c.key) : null;
+                                    const text = task ? cellText(task, scheduled.get(task.id), c.key, pool) : '';
+                                    return (
+                                        <td
+                                            key={c.key}
+                                            data-cell={`${r}-${ci}`}
+                                            className={cellClass(isActive, c.editable, c.numeric, issue)}
+                                            title={issue || undefined}
+                                            onMouseDown={() => { if (!isActive) { commitPending(); setActive({ row: r, column: ci }); } }}
+                                            onDoubleClick={() => { setActive({ row: r, column: ci }); if (c.editable) setEditing(text); }}
+                                        >
+                                            {isActive && editing !== null ? (
+                                                <input
+                                                    autoFocus
+                                                    className={`w-full bg-transparent outline-none ${c.numeric ? 'text-right' : ''}`}
+                                                    value={editing}
+                                                    onChange={e => setEditing(e.target.value)}
+                                                    onKeyDown={handleEditorKeyDown}
+                                                />
+                                            ) : task ? text : (ci === 1 && <span className={isDark ? 'text-slate-600' : 'text-stone-300'}>New task…</span>)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
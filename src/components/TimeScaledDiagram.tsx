@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { LayoutNode, ScheduleSettings } from '../types';
+import { isDrivingLink, isNearCritical } from '../utils/cpmLogic';
+import { formatLinkLabel } from '../utils/dependencies';
+import { buildWorkdayDates, formatDate, DEFAULT_CALENDAR } from '../utils/calendar';
+import { TIME_SCALE_DAY_WIDTH, TIME_SCALE_BAR_HEIGHT, dayToX, barGeometry, barYToLayoutY, floatTail, axisDays } from '../utils/timeScaledLayout';
+import { BaseDiagramEditor } from './StructuredAnalysis/BaseDiagramEditor';
+import { CanvasNode, CanvasConnection } from './common/DiagramCanvas';
+
+interface TimeScaledDiagramProps {
+    nodes: LayoutNode[];
+    schedule: ScheduleSettings;
+    nearCriticalThreshold: number;
+    isDark: boolean;
+    selectedIds: string[];
+    onSelectionChange: (ids: string[]) => void;
+    activeTool: 'select' | 'connect' | 'pan';
+    setActiveTool: (tool: 'select' | 'connect' | 'pan') => void;
+    onRowMove: (id: string, manualY: number) => void; // Only the vertical position can be pinned
+    onEdit: (id: string) => void;
+    onConnectionCreate: (sourceId: string, targetId: string) => void;
+    onDelete: () => void;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    toolbarContent?: React.ReactNode;
+}
+
+const AXIS_PREFIX = 'axis:';
+
+export const TimeScaledDiagram: React.FC<TimeScaledDiagramProps> = ({
+    nodes, schedule, nearCriticalThreshold, isDark, selectedIds, onSelectionChange, activeTool, setActiveTool,
+    onRowMove, onEdit, onConnectionCreate, onDelete, undo, redo, canUndo, canRedo, toolbarContent
+}) => {
+    const projectDuration = Math.max(0, ...nodes.map(n => n.ef));
+    const dates = useMemo(
+        () => schedule.startDate ? buildWorkdayDates(schedule.startDate, projectDuration + 1, schedule.calendar || DEFAULT_CALENDAR) : null,
+        [schedule.startDate, schedule.calendar, projectDuration]
+    );
+
+    const geometry = new Map(nodes.map(n => [n.id, barGeometry(n)]));
+    const top = Math.min(0, ...[...geometry.values()].map(g => g.y)) - 80;
+
+    // Date axis across the top, thinned out on long projects
+    const axis = axisDays(projectDuration);
+    const axisNodes: CanvasNode[] = axis.days.map(day => ({
+        id: `${AXIS_PREFIX}${day}`,
+        x: dayToX(day),
+        y: top,
+        width: TIME_SCALE_DAY_WIDTH * axis.step,
+        height: 36,
+        pointerEvents: 'none',
+        content: (
+            <div className={`h-full border-l-2 pl-1 flex flex-col justify-center leading-tight ${isDark ? 'border-slate-700 text-slate-500' : 'border-stone-300 text-stone-400'}`}>
+                <span className="text-[10px] font-bold font-mono">{day}</span>
+                {dates && dates[day] && <span className="text-[9px] whitespace-nowrap">{formatDate(dates[day], { day: '2-digit', month: 'short' })}</span>}
+            </div>
+        )
+    }));
+
+    const taskNodes: CanvasNode[] = nodes.map(node => {
+        const { x, y, width } = geometry.get(node.id)!;
+        const nearCritical = isNearCritical(node, nearCriticalThreshold);
+        const colors = node.isCritical
+            ? (isDark ? 'bg-rose-600 border-rose-700' : 'bg-rose-500 border-rose-600')
+            : nearCritical
+                ? (isDark ? 'bg-amber-600 border-amber-700' : 'bg-amber-500 border-amber-600')
+                : (isDark ? 'bg-blue-600 border-blue-700' : 'bg-blue-500 border-blue-600');
+
+        return {
+            id: node.id,
+            x,
+            y,
+            width,
+            height: TIME_SCALE_BAR_HEIGHT,
+            shape: 'rounded-rectangle',
+            content: (
+                <div
+                    className={`w-full h-full rounded-md border shadow-sm px-2 flex flex-col justify-center text-white overflow-hidden ${colors} ${node.isSummary ? 'border-dashed border-2' : ''}`}
+                    onDoubleClick={(e) => { e.stopPropagation(); onEdit(node.id); }}
+                    title={`${node.id} ${node.name}: day ${node.es} – ${node.ef}, slack ${node.slack}`}
+                >
+                    <span className="text-[10px] font-bold font-mono leading-none">{node.id}</span>
+                    {width > 60 && <span className="text-xs truncate leading-tight">{node.name}</span>}
+                </div>
+            )
+        };
+    });
+
+    const links: CanvasConnection[] = nodes.flatMap(node => node.predecessors.map(link => {
+        const pred = nodes.find(n => n.id === link.id);
+        if (!pred) return null;
+        const from = geometry.get(pred.id)!;
+        const to = geometry.get(node.id)!;
+        const isCritical = node.isCritical && pred.isCritical && isDrivingLink(pred, node, link);
+        const sourceSide = link.type === 'SS' || link.type === 'SF' ? 'left' : 'right';
+        const targetSide = link.type === 'FF' || link.type === 'SF' ? 'right' : 'left';
+
+        const connection: CanvasConnection = {
+            id: `${pred.id}-${node.id}`,
+            start: { x: from.x + (sourceSide === 'left' ? 0 : from.width), y: from.y + TIME_SCALE_BAR_HEIGHT / 2 },
+            end: { x: to.x + (targetSide === 'left' ? 0 : to.width), y: to.y + TIME_SCALE_BAR_HEIGHT / 2 },
+            sourceNodeId: pred.id,
+            targetNodeId: node.id,
+            color: isCritical ? (isDark ? '#ef4444' : '#dc2626') : undefined,
+            label: formatLinkLabel(link) || undefined,
+            anchors: {
+                source: { x: from.x + (sourceSide === 'left' ? 0 : from.width), y: from.y + TIME_SCALE_BAR_HEIGHT / 2, side: sourceSide },
+                target: { x: to.x + (targetSide === 'left' ? 0 : to.width), y: to.y + TIME_SCALE_BAR_HEIGHT / 2, side: targetSide }
+            },
+            targetArrow: true,
+            lineStyle: 'orthogonal'
+        };
+        return connection;
+    })).filter((c): c is CanvasConnection => c !== null);
+
+    // Total float as a dashed tail from each bar's finish
+    const floatTails: CanvasConnection[] = nodes.flatMap(node => {
+        const tail = floatTail(geometry.get(node.id)!, node.slack);
+        return tail ? [{
+            id: `float-${node.id}`,
+            ...tail,
+            color: isDark ? '#64748b' : '#94a3b8',
+            dashed: true,
+            lineStyle: 'straight' as const
+        }] : [];
+    });
+
+    const isAxis = (id: string) => id.startsWith(AXIS_PREFIX);
+
+    return (
+        <BaseDiagramEditor
+            nodes={[...axisNodes, ...taskNodes]}
+            connections={[...floatTails, ...links]}
+            selectedIds={selectedIds}
+            onSelectionChange={ids => onSelectionChange(ids.filter(id => !isAxis(id) && !id.startsWith('float-')))}
+            activeTool={activeTool}
+            setActiveTool={setActiveTool}
+            isDark={isDark}
+            onNodeMove={(id, _x, y) => { if (!isAxis(id)) onRowMove(id, barYToLayoutY(y)); }}
+            onConnectionCreate={onConnectionCreate}
+            onDelete={onDelete}
+            undo={undo}
+            redo={redo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            toolbarContent={toolbarContent}
+        />
+    );
+};
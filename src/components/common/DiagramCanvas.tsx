@@ -23,6 +23,7 @@ export interface CanvasConnection {
     sourceArrow?: boolean;
     targetArrow?: boolean;
     lineStyle?: 'straight' | 'orthogonal' | 'curved';
+    dashed?: boolean;
     textPosition?: number;
     anchors?: {
         source?: { x: number; y: number; side: 'top' | 'bottom' | 'left' | 'right' };
@@ -677,6 +678,7 @@ export const DiagramCanvas: React.FC<DiagramCanvasProps> = ({
                                     d={d}
                                     stroke={isSelected ? '#3b82f6' : strokeColor}
                                     strokeWidth={isSelected ? 3 : 2}
+                                    strokeDasharray={conn.dashed ? '6,4' : undefined}
                                     fill="none"
                                     markerStart={conn.sourceMarkerType ? `url(#${conn.sourceMarkerType})` : (conn.sourceArrow ? `url(#arrowhead-start-${conn.id})` : undefined)}
                                     markerEnd={conn.targetMarkerType ? `url(#${conn.targetMarkerType})` : (conn.targetArrow ? `url(#arrowhead-end-${conn.id})` : undefined)}
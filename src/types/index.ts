@@ -1,18 +1,75 @@
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface PredecessorLink {
+    id: string;
+    type: DependencyType; // FS = Finish-to-Start, SS = Start-to-Start, etc.
+    lag: number; // Days; negative values are leads
+    expandedFrom?: string; // Scheduling only: the summary task this link to one of its leaves was written against
+    inheritedFrom?: string; // Scheduling only: the summary ancestor this link was taken over from
+}
+
+export type ConstraintType = 'SNET' | 'FNLT' | 'MSO' | 'MFO';
+
+export interface ScheduleConstraint {
+    type: ConstraintType;
+    day: number; // Start boundary for SNET/MSO, finish boundary for FNLT/MFO
+}
+
+export type ResourceType = 'work' | 'material' | 'equipment';
+
+export interface Resource {
+    id: string;
+    name: string;
+    type: ResourceType;
+    maxUnits: number; // Capacity per day (1 = one full-time person)
+    costRate: number; // Cost per unit per day
+}
+
+export interface ResourceAssignment {
+    resourceId: string;
+    units: number; // Units used per day while the task runs
+}
+
 export interface Task {
     id: string;
     name: string;
     duration: number;
-    predecessors: string[];
+    predecessors: PredecessorLink[];
     type?: 'task' | 'start' | 'end';
-    resources?: string[]; // e.g. "Alice", "Bob"
+    parentId?: string; // Summary task this task belongs to in the WBS
+    resources?: ResourceAssignment[];
     cost?: number;
+    // Three-point (PERT) estimates in days
+    optimistic?: number;
+    mostLikely?: number;
+    pessimistic?: number;
+    // Progress, in day numbers
+    actualStart?: number;
+    actualFinish?: number;
+    percentComplete?: number; // 0-100
+    remainingDuration?: number; // Overrides the remaining work implied by percentComplete
+    actualCost?: number; // Cost incurred to date
+    // Scheduling constraints
+    constraint?: ScheduleConstraint;
+    deadline?: number; // Soft finish target: never moves the task, only produces negative float when missed
+    // Crashing
+    crashDuration?: number; // Shortest achievable duration
+    crashCost?: number; // Extra cost of going from duration to crashDuration, spread evenly per day
     // Computed values (optional, populated after calculation)
+    expectedDuration?: number;
+    variance?: number;
     es?: number;
     ef?: number;
     ls?: number;
     lf?: number;
     slack?: number;
+    freeFloat?: number; // Delay possible without delaying any successor
+    interferingFloat?: number; // Total slack minus free float
     isCritical?: boolean;
+    isSummary?: boolean; // Has children; dates, duration and progress are rolled up from them
+    wbsCode?: string; // e.g. 1.2.3, only set for projects with a hierarchy
+    constraintViolated?: boolean; // Logic pushes the task past a hard constraint
+    deadlineMissed?: boolean;
     // Manual overrides
     manualES?: number | string;
     manualEF?: number | string;
@@ -44,25 +101,215 @@ export interface Requirement {
     status: 'Draft' | 'Pending' | 'Approved' | 'Rejected';
 }
 
+export interface ProjectCalendar {
+    workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+    holidays: string[]; // ISO dates (YYYY-MM-DD)
+}
+
+export interface ScheduleSettings {
+    startDate?: string; // ISO date of day 0
+    calendar?: ProjectCalendar;
+    targetFinish?: number; // Day number the steering committee wants the project done by
+    statusDate?: number; // Day number progress is reported as of; remaining work is scheduled from here
+    nearCriticalThreshold?: number; // Tasks with slack up to this many days are highlighted as near-critical
+    resources?: Resource[]; // Project resource pool
+    levelling?: LevellingOptions;
+    baselines?: Baseline[];
+    activeBaselineId?: string; // Baseline shown in the Gantt chart and variance table
+}
+
+export interface BaselineTask {
+    id: string;
+    es: number;
+    ef: number;
+    duration: number;
+    cost: number;
+}
+
+export interface Baseline {
+    id: string;
+    name: string;
+    createdAt: string;
+    projectDuration: number;
+    tasks: BaselineTask[];
+}
+
+export interface TaskVariance {
+    id: string;
+    // Positive values mean later / longer / dearer than the baseline; null when the task is new since the baseline
+    startVariance: number | null;
+    finishVariance: number | null;
+    durationVariance: number | null;
+    costVariance: number | null;
+}
+
 export interface Project {
     id: string;
     name: string;
+    schemaVersion: number; // Data model version, upgraded on load (see utils/projectMigration)
     createdAt: string;
     updatedAt: string;
     data: Task[];
     requirements?: Requirement[];
     taskCount: number;
+    schedule?: ScheduleSettings;
+    designTechnique?: 'process-oriented' | 'data-oriented';
     structuredAnalysis?: import('./structuredAnalysis').StructuredAnalysisData;
     informationEngineering?: import('./ie').ProjectRepository;
 }
 
+export interface EarnedValueMetrics {
+    statusDate: number;
+    bac: number; // Budget at completion (baseline cost)
+    pv: number;
+    ev: number;
+    ac: number;
+    sv: number;
+    cv: number;
+    // Ratios and forecasts are null until there is something to divide by
+    spi: number | null;
+    cpi: number | null;
+    eac: number | null;
+    etc: number | null;
+    vac: number | null;
+}
+
+export interface SCurvePoint {
+    day: number;
+    pv: number; // Cumulative baseline cost
+    forecast: number; // Cumulative cost of the current schedule
+}
+
+export interface CrashStep {
+    fromDuration: number;
+    toDuration: number;
+    taskIds: string[]; // Shortened together to cut every critical path
+    cost: number;
+}
+
+export interface TimeCostPoint {
+    duration: number;
+    extraCost: number; // Cumulative crash cost to reach this duration
+}
+
+export interface CrashRecommendation {
+    id: string;
+    fromDuration: number;
+    toDuration: number;
+    cost: number;
+}
+
+export interface CrashingResult {
+    error: string | null;
+    originalDuration: number;
+    finalDuration: number;
+    targetDuration: number;
+    reachedTarget: boolean;
+    totalCost: number;
+    steps: CrashStep[];
+    curve: TimeCostPoint[];
+    recommendations: CrashRecommendation[];
+}
+
+// Activity-on-arrow network: events are nodes, activities are the arrows between them
+export interface AoaEvent {
+    id: string;
+    number: number; // 1-based, in topological order
+    earliest: number; // Early event time
+    latest: number; // Late event time
+    layer: number;
+}
+
+export interface AoaActivity {
+    id: string;
+    taskId: string | null; // null for dummy activities
+    from: string;
+    to: string;
+    duration: number;
+    isCritical: boolean;
+}
+
+export interface AoaNetwork {
+    events: AoaEvent[];
+    activities: AoaActivity[];
+    approximatedLinks: number; // SS/FF/SF or lagged links drawn as plain finish-to-start arrows
+}
+
+export interface CPMOptions {
+    statusDate?: number;
+}
+
 export interface CPMResult {
     processedTasks: ProcessedTask[];
     projectDuration: number;
-    criticalPath: string[];
+    criticalPath: string[]; // Longest of criticalPaths
+    criticalPaths: string[][]; // Every chain of driving links through critical tasks
+    criticalPathStdDev: number; // PERT standard deviation of the project duration
+    criticalPathExpectedDuration: number; // PERT mean: the duration with the riskiest critical chain's tasks at their expected durations
+    cycles: string[][]; // Dependency loops in link order, only set when error is "Cycle detected"
+    warnings: CPMWarning[];
     error: string | null;
 }
 
+// A link to a task that does not exist; it is ignored when scheduling
+export interface CPMWarning {
+    taskId: string;
+    predecessorId: string;
+    message: string;
+}
+
+export type LevellingPriority = 'least-slack' | 'longest-duration' | 'id';
+
+export interface LevellingOptions {
+    enabled: boolean;
+    priority: LevellingPriority;
+    allowProjectExtension: boolean; // Delay beyond slack (and the project finish) when needed
+}
+
+export interface TaskShift {
+    id: string;
+    originalStart: number;
+    levelledStart: number;
+    delay: number;
+}
+
+export interface LevellingResult {
+    original: CPMResult;
+    levelledTasks: ProcessedTask[];
+    levelledDuration: number;
+    shifts: TaskShift[]; // Only tasks that moved
+    unresolved: string[]; // Tasks still over-allocated (no room within slack, or demand above capacity)
+}
+
+export type SamplingDistribution = 'triangular' | 'beta-pert' | 'uniform';
+
+export interface MonteCarloOptions {
+    iterations: number;
+    distribution: SamplingDistribution;
+    seed?: number; // Fixed seed for reproducible runs
+    bins?: number;
+}
+
+export interface HistogramBin {
+    start: number;
+    end: number;
+    count: number;
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    deterministicDuration: number;
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    p50: number;
+    p80: number;
+    p95: number;
+    histogram: HistogramBin[];
+    criticalityIndex: Record<string, number>; // Share of runs (0..1) in which each task was critical
+}
+
 export interface LayoutNode extends ProcessedTask {
     x: number;
     y: number;
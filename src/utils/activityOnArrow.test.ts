@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildAoaNetwork } from './activityOnArrow';
+import { calculateCPM } from './cpmLogic';
+import { Task } from '../types';
+
+const fs = (id: string) => ({ id, type: 'FS' as const, lag: 0 });
+
+describe('buildAoaNetwork', () => {
+    it('should add a dummy where successors share only some predecessors', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [] },
+            { id: 'C', name: 'Task C', duration: 4, predecessors: [fs('A')] },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [fs('A'), fs('B')] },
+        ];
+
+        const network = buildAoaNetwork(calculateCPM(tasks).processedTasks);
+        const numberOf = new Map(network.events.map(e => [e.id, e.number]));
+        const arrow = (id: string) => {
+            const a = network.activities.find(act => act.id === id)!;
+            return `${numberOf.get(a.from)}-${numberOf.get(a.to)}`;
+        };
+
+        expect(network.events).toHaveLength(4);
+        expect(arrow('A')).toBe('1-2');
+        expect(arrow('B')).toBe('1-3');
+        expect(arrow('C')).toBe('2-4');
+        expect(arrow('D')).toBe('3-4');
+
+        const dummies = network.activities.filter(a => a.taskId === null);
+        expect(dummies.map(d => `${numberOf.get(d.from)}-${numberOf.get(d.to)}`)).toEqual(['2-3']);
+
+        // Event times: 1 (0|0), 2 (3|3), 3 (3|6), 4 (7|7)
+        expect(network.events.map(e => [e.earliest, e.latest])).toEqual([[0, 0], [3, 3], [3, 6], [7, 7]]);
+        expect(network.activities.filter(a => a.isCritical).map(a => a.id)).toEqual(['A', 'C']);
+    });
+
+    it('should separate parallel tasks between the same events with a dummy', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [] },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [fs('A'), fs('B')] },
+        ];
+
+        const network = buildAoaNetwork(calculateCPM(tasks).processedTasks);
+        const a = network.activities.find(act => act.id === 'A')!;
+        const b = network.activities.find(act => act.id === 'B')!;
+
+        expect(a.from).toBe(b.from);
+        expect(a.to).not.toBe(b.to);
+        expect(network.activities.filter(act => act.taskId === null)).toHaveLength(1);
+        expect(network.events[network.events.length - 1].earliest).toBe(4);
+    });
+
+    it('should count links it can only draw as finish-to-start', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [{ id: 'A', type: 'SS', lag: 1 }] },
+        ];
+
+        expect(buildAoaNetwork(calculateCPM(tasks).processedTasks).approximatedLinks).toBe(1);
+    });
+});
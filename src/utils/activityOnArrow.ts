@@ -0,0 +1,123 @@
+import { ProcessedTask, AoaEvent, AoaActivity, AoaNetwork } from '../types';
+
+const START = 'start';
+const FINISH = 'finish';
+
+const keyOf = (ids: string[]) => [...ids].sort().join(',');
+
+/**
+ * Converts an activity-on-node schedule into an activity-on-arrow network. Tasks sharing the same
+ * predecessor set start at the same event; a task whose successors all wait for it alone finishes
+ * at their start event, otherwise dummy activities carry the dependency. Dummies also separate
+ * parallel tasks that would otherwise share both events. AOA arrows are always finish-to-start, so
+ * other link types and lags are drawn as plain dependencies and counted in `approximatedLinks`.
+ */
+export const buildAoaNetwork = (tasks: ProcessedTask[]): AoaNetwork => {
+    const empty: AoaNetwork = { events: [], activities: [], approximatedLinks: 0 };
+    // Summary tasks are represented by their children, whose links are already expanded
+    const leaves = tasks.filter(t => !t.isSummary);
+    if (leaves.length === 0) return empty;
+
+    const ids = new Set(leaves.map(t => t.id));
+    const predIds = new Map(leaves.map(t => [t.id, [...new Set(t.predecessors.filter(l => ids.has(l.id)).map(l => l.id))]]));
+    const approximatedLinks = leaves.reduce((count, t) => count + t.predecessors.filter(l => ids.has(l.id) && (l.type !== 'FS' || l.lag !== 0)).length, 0);
+
+    // One merge event per distinct predecessor set
+    const eventIds: string[] = [START];
+    const mergeEvents = new Map<string, string[]>(); // key -> predecessor IDs
+    leaves.forEach(t => {
+        const preds = predIds.get(t.id)!;
+        const key = keyOf(preds);
+        if (preds.length > 0 && !mergeEvents.has(key)) {
+            mergeEvents.set(key, preds);
+            eventIds.push(`merge:${key}`);
+        }
+    });
+
+    const startOf = (id: string) => predIds.get(id)!.length === 0 ? START : `merge:${keyOf(predIds.get(id)!)}`;
+    const keysContaining = new Map(leaves.map(t => [t.id, [...mergeEvents].filter(([, preds]) => preds.includes(t.id)).map(([key]) => key)]));
+
+    const activities: AoaActivity[] = [];
+    const dummies: [string, string][] = [];
+    const endOf = new Map<string, string>();
+    const usedPairs = new Set<string>();
+    let finishUsed = false;
+
+    leaves.forEach(t => {
+        const keys = keysContaining.get(t.id)!;
+        let end: string;
+        if (keys.length === 0) end = FINISH;
+        else if (keys.length === 1) end = `merge:${keys[0]}`;
+        else end = keys.includes(t.id) ? `merge:${t.id}` : `end:${t.id}`;
+
+        const from = startOf(t.id);
+        if (usedPairs.has(`${from}>${end}`)) {
+            // Parallel tasks need their own finish event; the dependency continues through a dummy
+            if (end === FINISH) dummies.push([`end:${t.id}`, FINISH]);
+            end = `end:${t.id}`;
+        }
+        if (end === FINISH) finishUsed = true;
+        if (end.startsWith('end:') && !eventIds.includes(end)) eventIds.push(end);
+        usedPairs.add(`${from}>${end}`);
+        endOf.set(t.id, end);
+        activities.push({ id: t.id, taskId: t.id, from, to: end, duration: t.duration, isCritical: false });
+    });
+
+    // Merge events wait for every predecessor that does not finish there directly
+    mergeEvents.forEach((preds, key) => {
+        preds.forEach(pred => {
+            if (endOf.get(pred) !== `merge:${key}`) dummies.push([endOf.get(pred)!, `merge:${key}`]);
+        });
+    });
+    if (finishUsed || dummies.some(([, to]) => to === FINISH)) eventIds.push(FINISH);
+
+    const seen = new Set<string>();
+    dummies.forEach(([from, to], i) => {
+        if (seen.has(`${from}>${to}`)) return;
+        seen.add(`${from}>${to}`);
+        activities.push({ id: `dummy-${i + 1}`, taskId: null, from, to, duration: 0, isCritical: false });
+    });
+
+    // Topological order of events numbers them and drives the event time passes
+    const outgoing = new Map(eventIds.map(id => [id, activities.filter(a => a.from === id)]));
+    const inDegree = new Map(eventIds.map(id => [id, activities.filter(a => a.to === id).length]));
+    const queue = eventIds.filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        outgoing.get(id)!.forEach(a => {
+            inDegree.set(a.to, inDegree.get(a.to)! - 1);
+            if (inDegree.get(a.to) === 0) queue.push(a.to);
+        });
+    }
+    if (order.length !== eventIds.length) return empty;
+
+    const earliest = new Map(order.map(id => [id, 0]));
+    const layer = new Map(order.map(id => [id, 0]));
+    order.forEach(id => outgoing.get(id)!.forEach(a => {
+        earliest.set(a.to, Math.max(earliest.get(a.to)!, earliest.get(id)! + a.duration));
+        layer.set(a.to, Math.max(layer.get(a.to)!, layer.get(id)! + 1));
+    }));
+
+    const projectEnd = Math.max(...earliest.values());
+    const latest = new Map(order.map(id => [id, projectEnd]));
+    [...order].reverse().forEach(id => outgoing.get(id)!.forEach(a => {
+        latest.set(id, Math.min(latest.get(id)!, latest.get(a.to)! - a.duration));
+    }));
+
+    activities.forEach(a => {
+        a.isCritical = latest.get(a.to)! - earliest.get(a.from)! - a.duration <= 1e-9;
+    });
+
+    const numbers = new Map(order.map((id, i) => [id, i + 1]));
+    const events: AoaEvent[] = order.map(id => ({
+        id,
+        number: numbers.get(id)!,
+        earliest: earliest.get(id)!,
+        latest: latest.get(id)!,
+        layer: layer.get(id)!
+    }));
+
+    return { events, activities, approximatedLinks };
+};
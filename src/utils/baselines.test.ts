@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createBaseline, calculateVariance } from './baselines';
+import { calculateCPM } from './cpmLogic';
+import { migrateProject } from './projectMigration';
+import { Task, Resource, Project } from '../types';
+
+describe('baselines', () => {
+    const pool: Resource[] = [
+        { id: 'dev', name: 'Developer', type: 'work', maxUnits: 1, costRate: 100 },
+    ];
+    const tasks: Task[] = [
+        { id: 'A', name: 'Task A', duration: 3, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }], cost: 50 },
+        { id: 'B', name: 'Task B', duration: 2, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+    ];
+
+    it('should snapshot the calculated schedule', () => {
+        const baseline = createBaseline('Approved plan', calculateCPM(tasks).processedTasks, pool);
+
+        expect(baseline.name).toBe('Approved plan');
+        expect(baseline.projectDuration).toBe(5);
+        expect(baseline.tasks).toEqual([
+            { id: 'A', es: 0, ef: 3, duration: 3, cost: 350 },
+            { id: 'B', es: 3, ef: 5, duration: 2, cost: 0 },
+        ]);
+    });
+
+    it('should report start, finish, duration and cost variance', () => {
+        const baseline = createBaseline('Plan', calculateCPM(tasks).processedTasks, pool);
+        const slipped: Task[] = [
+            { ...tasks[0], duration: 4 },
+            tasks[1],
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [] },
+        ];
+
+        const variance = calculateVariance(calculateCPM(slipped).processedTasks, baseline, pool);
+
+        expect(variance).toEqual([
+            { id: 'A', startVariance: 0, finishVariance: 1, durationVariance: 1, costVariance: 100 },
+            { id: 'B', startVariance: 1, finishVariance: 1, durationVariance: 0, costVariance: 0 },
+            { id: 'C', startVariance: null, finishVariance: null, durationVariance: null, costVariance: null },
+        ]);
+    });
+
+    it('should survive a JSON export and import', () => {
+        const baseline = createBaseline('Plan', calculateCPM(tasks).processedTasks, pool);
+        const project: Project = {
+            id: 'p1', name: 'Project', createdAt: '', updatedAt: '', data: tasks,
+            schedule: { resources: pool, baselines: [baseline], activeBaselineId: baseline.id }
+        } as Project;
+
+        const [imported] = (JSON.parse(JSON.stringify([project])) as Project[]).map(migrateProject);
+
+        expect(imported.schedule?.baselines).toEqual([baseline]);
+        expect(imported.schedule?.activeBaselineId).toBe(baseline.id);
+    });
+});
@@ -0,0 +1,45 @@
+import { Task, Resource, Baseline, TaskVariance } from '../types';
+import { taskResourceCost } from './resources';
+
+/**
+ * Total planned cost of a task: its fixed cost plus the cost of its resource assignments.
+ * Summary tasks count as zero so their children's costs are not counted twice.
+ */
+export const taskTotalCost = (task: Task, pool: Resource[]): number =>
+    task.isSummary ? 0 : (task.cost || 0) + taskResourceCost(task, pool);
+
+/**
+ * Freezes the current calculated schedule under a name.
+ */
+export const createBaseline = (name: string, tasks: Task[], pool: Resource[]): Baseline => ({
+    id: crypto.randomUUID(),
+    name,
+    createdAt: new Date().toISOString(),
+    projectDuration: Math.max(0, ...tasks.map(t => t.ef ?? 0)),
+    tasks: tasks.map(t => ({
+        id: t.id,
+        es: t.es ?? 0,
+        ef: t.ef ?? t.duration,
+        duration: t.duration,
+        cost: taskTotalCost(t, pool)
+    }))
+});
+
+/**
+ * Current schedule minus baseline, per task.
+ */
+export const calculateVariance = (tasks: Task[], baseline: Baseline, pool: Resource[]): TaskVariance[] => {
+    const planned = new Map(baseline.tasks.map(t => [t.id, t]));
+
+    return tasks.map(task => {
+        const base = planned.get(task.id);
+        if (!base) return { id: task.id, startVariance: null, finishVariance: null, durationVariance: null, costVariance: null };
+        return {
+            id: task.id,
+            startVariance: (task.es ?? 0) - base.es,
+            finishVariance: (task.ef ?? task.duration) - base.ef,
+            durationVariance: task.duration - base.duration,
+            costVariance: taskTotalCost(task, pool) - base.cost
+        };
+    });
+};
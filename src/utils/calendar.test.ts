@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { workdayToDate, getTaskDates, toISODate, buildWorkdayDates } from './calendar';
+
+describe('calendar', () => {
+    const calendar = { workingDays: [1, 2, 3, 4, 5], holidays: ['2025-01-08'] };
+
+    it('should skip weekends and holidays when mapping day numbers', () => {
+        // 2025-01-03 is a Friday
+        expect(toISODate(workdayToDate('2025-01-03', 0, calendar)!)).toBe('2025-01-03');
+        expect(toISODate(workdayToDate('2025-01-03', 1, calendar)!)).toBe('2025-01-06');
+        expect(toISODate(workdayToDate('2025-01-03', 3, calendar)!)).toBe('2025-01-09');
+    });
+
+    it('should start on the first working day on or after the start date', () => {
+        // 2025-01-04 is a Saturday
+        expect(toISODate(workdayToDate('2025-01-04', 0, calendar)!)).toBe('2025-01-06');
+    });
+
+    it('should report the finish as the last working day of the task', () => {
+        const dates = getTaskDates(0, 3, { startDate: '2025-01-06', calendar });
+        expect(toISODate(dates!.start)).toBe('2025-01-06');
+        expect(toISODate(dates!.finish)).toBe('2025-01-09');
+    });
+
+    it('should not loop forever without working days', () => {
+        expect(buildWorkdayDates('2025-01-06', 5, { workingDays: [], holidays: [] })).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+import { ProjectCalendar, ScheduleSettings } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CALENDAR: ProjectCalendar = {
+    workingDays: [1, 2, 3, 4, 5], // Mon–Fri
+    holidays: []
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// All date math is done in UTC so daylight-saving shifts never move a day boundary
+export const parseISODate = (iso: string): Date => {
+    const [y, m, d] = iso.split('-').map(Number);
+    return new Date(Date.UTC(y, (m || 1) - 1, d || 1));
+};
+
+export const toISODate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addCalendarDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY);
+
+export const isWorkingDay = (date: Date, calendar: ProjectCalendar = DEFAULT_CALENDAR): boolean => {
+    if (!calendar.workingDays.includes(date.getUTCDay())) return false;
+    return !calendar.holidays.includes(toISODate(date));
+};
+
+/**
+ * Returns the dates of the first `count` working days, beginning with the first
+ * working day on or after `startDate` (which is day 0 of the schedule).
+ */
+export const buildWorkdayDates = (startDate: string, count: number, calendar: ProjectCalendar = DEFAULT_CALENDAR): Date[] => {
+    const dates: Date[] = [];
+    // A calendar without working days would never terminate
+    if (calendar.workingDays.length === 0) return dates;
+
+    let cursor = parseISODate(startDate);
+    while (dates.length < count) {
+        if (isWorkingDay(cursor, calendar)) dates.push(cursor);
+        cursor = addCalendarDays(cursor, 1);
+    }
+    return dates;
+};
+
+export const workdayToDate = (startDate: string, dayNumber: number, calendar: ProjectCalendar = DEFAULT_CALENDAR): Date | null => {
+    const index = Math.max(0, Math.floor(dayNumber));
+    const dates = buildWorkdayDates(startDate, index + 1, calendar);
+    return dates[index] || null;
+};
+
+/**
+ * Calendar start/finish of a task. Day numbers are boundaries: ES = n means the task
+ * starts on working day n, EF = n means it finishes at the end of working day n - 1.
+ */
+export const getTaskDates = (es: number, ef: number, schedule: ScheduleSettings): { start: Date; finish: Date } | null => {
+    if (!schedule.startDate) return null;
+    const calendar = schedule.calendar || DEFAULT_CALENDAR;
+    const start = workdayToDate(schedule.startDate, es, calendar);
+    const finish = workdayToDate(schedule.startDate, Math.max(es, ef - 1), calendar);
+    if (!start || !finish) return null;
+    return { start, finish };
+};
+
+export const formatDate = (date: Date, options: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'short', year: 'numeric' }): string =>
+    date.toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { movedConstraint } from './constraints';
+import { Task } from '../types';
+
+const task: Task = { id: 'A', name: 'Build', duration: 4, predecessors: [], es: 3, ef: 7 };
+
+describe('constraints', () => {
+    it('should give a moved task a start-no-earlier-than constraint at its new start', () => {
+        expect(movedConstraint(task, 2)).toEqual({ type: 'SNET', day: 5 });
+        expect(movedConstraint(task, -5)).toEqual({ type: 'SNET', day: 0 });
+        // SNET follows the bar, which logic may have pushed past the constraint day
+        expect(movedConstraint({ ...task, constraint: { type: 'SNET', day: 1 } }, 1)).toEqual({ type: 'SNET', day: 4 });
+        // A finish deadline is an upper bound and cannot move the start
+        expect(movedConstraint({ ...task, constraint: { type: 'FNLT', day: 10 } }, 2)).toEqual({ type: 'SNET', day: 5 });
+    });
+
+    it('should keep mandatory constraints mandatory, on the start', () => {
+        expect(movedConstraint({ ...task, constraint: { type: 'MSO', day: 3 } }, 2)).toEqual({ type: 'MSO', day: 5 });
+        expect(movedConstraint({ ...task, constraint: { type: 'MFO', day: 7 } }, -1)).toEqual({ type: 'MSO', day: 2 });
+    });
+});
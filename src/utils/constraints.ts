@@ -0,0 +1,50 @@
+import { ConstraintType, ScheduleConstraint, Task } from '../types';
+
+export const CONSTRAINT_TYPES: ConstraintType[] = ['SNET', 'FNLT', 'MSO', 'MFO'];
+
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+    SNET: 'Start No Earlier Than',
+    FNLT: 'Finish No Later Than',
+    MSO: 'Must Start On',
+    MFO: 'Must Finish On'
+};
+
+export const formatConstraint = (constraint: ScheduleConstraint): string => `${constraint.type} ${constraint.day}`;
+
+/**
+ * Early start once the task's constraint is applied to the start its predecessors allow.
+ * Must-constraints win over logic; the caller flags the violation.
+ */
+export const constrainedEarlyStart = (task: Task, logicStart: number): { es: number; violated: boolean } => {
+    const c = task.constraint;
+    if (!c) return { es: logicStart, violated: false };
+    switch (c.type) {
+        case 'SNET': return { es: Math.max(logicStart, c.day), violated: false };
+        case 'MSO': return { es: c.day, violated: logicStart > c.day + 1e-9 };
+        case 'MFO': return { es: c.day - task.duration, violated: logicStart + task.duration > c.day + 1e-9 };
+        default: return { es: logicStart, violated: false };
+    }
+};
+
+/**
+ * Late finish once constraints and the soft deadline are applied to the finish successors allow.
+ * Anything tighter than the early dates shows up as negative float.
+ */
+export const constrainedLateFinish = (task: Task, logicFinish: number, span: number): number => {
+    let lf = logicFinish;
+    const c = task.constraint;
+    if (c?.type === 'FNLT') lf = Math.min(lf, c.day);
+    if (c?.type === 'MFO') lf = c.day;
+    if (c?.type === 'MSO') lf = c.day + span;
+    if (task.deadline !== undefined) lf = Math.min(lf, task.deadline);
+    return lf;
+};
+
+/**
+ * Start constraint that moves a task by the given number of days, as when its bar is dragged.
+ * Tasks with a mandatory constraint get MSO at the new start; all others get SNET.
+ */
+export const movedConstraint = (task: Task, days: number): ScheduleConstraint => {
+    const mandatory = task.constraint?.type === 'MSO' || task.constraint?.type === 'MFO';
+    return { type: mandatory ? 'MSO' : 'SNET', day: Math.max(0, (task.es || 0) + days) };
+};
@@ -1,12 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { calculateCPM } from './cpmLogic';
+import { calculateCPM, isNearCritical } from './cpmLogic';
+import { probabilityOfMeeting } from './pert';
 import { Task } from '../types';
 
 describe('calculateCPM', () => {
     it('should correctly calculate CPM for a simple sequence', () => {
         const tasks: Task[] = [
             { id: 'A', name: 'Task A', duration: 3, predecessors: [] },
-            { id: 'B', name: 'Task B', duration: 2, predecessors: ['A'] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
         ];
 
         const result = calculateCPM(tasks);
@@ -30,11 +31,222 @@ describe('calculateCPM', () => {
 
     it('should detect cycles', () => {
         const tasks: Task[] = [
-            { id: 'A', name: 'Task A', duration: 3, predecessors: ['B'] },
-            { id: 'B', name: 'Task B', duration: 2, predecessors: ['A'] },
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [{ id: 'B', type: 'FS', lag: 0 }] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
         ];
 
         const result = calculateCPM(tasks);
         expect(result.error).toBe("Cycle detected");
+        expect(result.cycles).toEqual([['A', 'B']]);
+    });
+
+    it('should report each loop and schedule around unknown predecessors', () => {
+        const looped: Task[] = [
+            { id: 'A', name: 'Task A', duration: 1, predecessors: [{ id: 'C', type: 'FS', lag: 0 }] },
+            { id: 'B', name: 'Task B', duration: 1, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [{ id: 'B', type: 'FS', lag: 0 }] },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [{ id: 'D', type: 'FS', lag: 0 }] },
+        ];
+        expect(calculateCPM(looped).cycles).toEqual([['A', 'B', 'C'], ['D']]);
+
+        // A dangling link used to count as an unmet dependency and surface as a cycle
+        const dangling = calculateCPM([
+            { id: 'A', name: 'Task A', duration: 2, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }, { id: 'X', type: 'FS', lag: 0 }] },
+        ]);
+        expect(dangling.error).toBeNull();
+        expect(dangling.projectDuration).toBe(5);
+        expect(dangling.warnings).toEqual([{ taskId: 'B', predecessorId: 'X', message: 'Task B: predecessor X does not exist' }]);
+    });
+
+    it('should honour start-to-start and finish-to-finish links with lag', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Development', duration: 10, predecessors: [] },
+            { id: 'B', name: 'Testing', duration: 4, predecessors: [{ id: 'A', type: 'SS', lag: 3 }] },
+            { id: 'C', name: 'Docs', duration: 2, predecessors: [{ id: 'A', type: 'FF', lag: 2 }] },
+        ];
+
+        const result = calculateCPM(tasks);
+        const byId = (id: string) => result.processedTasks.find(t => t.id === id)!;
+
+        expect(byId('B').es).toBe(3);
+        expect(byId('B').ef).toBe(7);
+        expect(byId('C').es).toBe(10);
+        expect(byId('C').ef).toBe(12);
+        expect(result.projectDuration).toBe(12);
+
+        // B only has to finish by the project end; A is driven by C's FF link
+        expect(byId('B').slack).toBe(5);
+        expect(byId('A').isCritical).toBe(true);
+        expect(byId('C').isCritical).toBe(true);
+    });
+
+    it('should allow leads but never start before day 0', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 5, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: -2 }] },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [{ id: 'A', type: 'SS', lag: -4 }] },
+        ];
+
+        const result = calculateCPM(tasks);
+        expect(result.processedTasks.find(t => t.id === 'B')?.es).toBe(3);
+        expect(result.processedTasks.find(t => t.id === 'C')?.es).toBe(0);
+        expect(result.projectDuration).toBe(6);
+    });
+
+    it('should migrate legacy string predecessors', () => {
+        const tasks = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: ['A'] },
+        ] as unknown as Task[];
+
+        const result = calculateCPM(tasks);
+        expect(result.projectDuration).toBe(5);
+        expect(result.processedTasks.find(t => t.id === 'B')?.predecessors).toEqual([{ id: 'A', type: 'FS', lag: 0 }]);
+    });
+
+    it('should compute the PERT standard deviation of the riskiest critical chain', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 4, predecessors: [], optimistic: 1, mostLikely: 4, pessimistic: 7 },
+            { id: 'B', name: 'Task B', duration: 4, predecessors: [], optimistic: 4, mostLikely: 4, pessimistic: 4 },
+            { id: 'C', name: 'Task C', duration: 6, predecessors: [{ id: 'A', type: 'FS', lag: 0 }, { id: 'B', type: 'FS', lag: 0 }], optimistic: 3, mostLikely: 6, pessimistic: 9 },
+            { id: 'D', name: 'Task D', duration: 2, predecessors: [] },
+        ];
+
+        const result = calculateCPM(tasks);
+        const taskA = result.processedTasks.find(t => t.id === 'A');
+
+        expect(taskA?.expectedDuration).toBe(4);
+        expect(taskA?.variance).toBe(1);
+        // A -> C dominates B -> C: sqrt(1 + 1)
+        expect(result.criticalPathStdDev).toBeCloseTo(Math.SQRT2);
+        expect(result.criticalPathExpectedDuration).toBe(result.projectDuration);
+        expect(probabilityOfMeeting(result.projectDuration, result.projectDuration, result.criticalPathStdDev)).toBeCloseTo(0.5);
+        expect(probabilityOfMeeting(10 + 1.96 * Math.SQRT2, 10, Math.SQRT2)).toBeCloseTo(0.975, 3);
+    });
+
+    it('should use the expected durations of the critical chain as the PERT mean', () => {
+        // Durations left at their defaults while the three-point estimates say otherwise
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 1, predecessors: [], optimistic: 2, mostLikely: 4, pessimistic: 12 },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 1 }] },
+        ];
+
+        const result = calculateCPM(tasks);
+
+        expect(result.projectDuration).toBe(5);
+        // te(A) = (2 + 16 + 12) / 6 = 5, so the mean is 5 + 1 + 3
+        expect(result.criticalPathExpectedDuration).toBeCloseTo(9);
+        expect(result.criticalPathStdDev).toBeCloseTo(10 / 6);
+        expect(probabilityOfMeeting(9, result.criticalPathExpectedDuration, result.criticalPathStdDev)).toBeCloseTo(0.5);
+    });
+
+    it('should reschedule remaining work from the status date', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 2, predecessors: [], actualStart: 0, actualFinish: 3 },
+            { id: 'B', name: 'Task B', duration: 4, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], actualStart: 3, percentComplete: 25 },
+            { id: 'C', name: 'Task C', duration: 2, predecessors: [{ id: 'B', type: 'FS', lag: 0 }] },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [] },
+        ];
+
+        const result = calculateCPM(tasks, { statusDate: 6 });
+        const byId = new Map(result.processedTasks.map(t => [t.id, t]));
+
+        // A keeps its actual dates and is no longer critical
+        expect(byId.get('A')).toMatchObject({ es: 0, ef: 3, isCritical: false });
+        // B did 1 of 4 days by day 4, is behind, so its last 3 days run from the status date
+        expect(byId.get('B')).toMatchObject({ es: 3, ef: 9, isCritical: true });
+        expect(byId.get('C')).toMatchObject({ es: 9, ef: 11 });
+        // Unstarted work cannot be scheduled in the past
+        expect(byId.get('D')).toMatchObject({ es: 6, ef: 7, slack: 4 });
+        expect(result.projectDuration).toBe(11);
+    });
+
+    it('should use an explicit remaining duration over percent complete', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 4, predecessors: [], actualStart: 0, percentComplete: 50, remainingDuration: 5 },
+        ];
+
+        const result = calculateCPM(tasks);
+
+        expect(result.processedTasks[0]).toMatchObject({ es: 0, ef: 7 });
+    });
+
+    it('should apply start-no-earlier-than and must-start-on constraints in the forward pass', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 2, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], constraint: { type: 'SNET', day: 5 } },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], constraint: { type: 'MSO', day: 1 } },
+        ];
+
+        const result = calculateCPM(tasks);
+        const byId = new Map(result.processedTasks.map(t => [t.id, t]));
+
+        expect(byId.get('B')).toMatchObject({ es: 5, ef: 8, constraintViolated: false });
+        // Must-start-on wins over logic and is flagged
+        expect(byId.get('C')).toMatchObject({ es: 1, ef: 2, constraintViolated: true });
+    });
+
+    it('should produce negative float when a finish constraint or deadline cannot be met', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 4, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], constraint: { type: 'FNLT', day: 5 } },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [], deadline: 3 },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [], deadline: 0 },
+        ];
+
+        const result = calculateCPM(tasks);
+        const byId = new Map(result.processedTasks.map(t => [t.id, t]));
+
+        expect(byId.get('B')).toMatchObject({ ef: 7, lf: 5, slack: -2, isCritical: true, constraintViolated: true });
+        expect(byId.get('A')).toMatchObject({ lf: 2, slack: -2, isCritical: true });
+        // A deadline in reach only tightens the float
+        expect(byId.get('C')).toMatchObject({ es: 0, slack: 2, deadlineMissed: false });
+        expect(byId.get('D')).toMatchObject({ es: 0, slack: -1, deadlineMissed: true });
+    });
+
+    it('should compute free and interfering float', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 5, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 1, predecessors: [] },
+            { id: 'C', name: 'Task C', duration: 2, predecessors: [{ id: 'B', type: 'FS', lag: 0 }] },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [{ id: 'A', type: 'FS', lag: 0 }, { id: 'C', type: 'FS', lag: 0 }] },
+        ];
+
+        const byId = new Map(calculateCPM(tasks).processedTasks.map(t => [t.id, t]));
+
+        // B can slip without touching C only by 0 days; the 2 days of slack are shared with C
+        expect(byId.get('B')).toMatchObject({ slack: 2, freeFloat: 0, interferingFloat: 2 });
+        expect(byId.get('C')).toMatchObject({ slack: 2, freeFloat: 2, interferingFloat: 0 });
+        expect(byId.get('A')).toMatchObject({ slack: 0, freeFloat: 0, interferingFloat: 0 });
+    });
+
+    it('should enumerate every critical path', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 2, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+            { id: 'C', name: 'Task C', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+            { id: 'D', name: 'Task D', duration: 1, predecessors: [{ id: 'B', type: 'FS', lag: 0 }, { id: 'C', type: 'FS', lag: 0 }] },
+            { id: 'E', name: 'Task E', duration: 4, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+        ];
+
+        const result = calculateCPM(tasks);
+
+        expect(result.criticalPaths).toEqual([['A', 'B', 'D'], ['A', 'C', 'D'], ['A', 'E']]);
+        expect(result.criticalPath).toEqual(['A', 'B', 'D']);
+    });
+
+    it('should flag near-critical tasks by threshold', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 5, predecessors: [] },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [] },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [] },
+        ];
+
+        const byId = new Map(calculateCPM(tasks).processedTasks.map(t => [t.id, t]));
+
+        expect(isNearCritical(byId.get('A')!, 2)).toBe(false);
+        expect(isNearCritical(byId.get('B')!, 2)).toBe(true);
+        expect(isNearCritical(byId.get('C')!, 2)).toBe(false);
     });
 });
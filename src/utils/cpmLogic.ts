@@ -1,30 +1,110 @@
-import { Task, ProcessedTask, CPMResult } from '../types';
+import { Task, ProcessedTask, CPMResult, CPMOptions, CPMWarning, PredecessorLink } from '../types';
+import { toPredecessorLinks, findCycles, findUnknownPredecessors } from './dependencies';
+import { pertEstimate } from './pert';
+import { actualSchedule, isComplete } from './progress';
+import { constrainedEarlyStart, constrainedLateFinish } from './constraints';
+import { hasHierarchy, expandSummaryLinks, rollUpSummaries, computeWbsCodes } from './wbs';
 
-export const calculateCPM = (tasks: Task[]): CPMResult => {
-    // Initialize map
+/**
+ * Earliest start a successor may take given one incoming link.
+ * FS: ES >= EF + lag, SS: ES >= ES + lag, FF: EF >= EF + lag, SF: EF >= ES + lag.
+ */
+export const linkEarliestStart = (pred: { es: number; ef: number }, link: PredecessorLink, succDuration: number): number => {
+    switch (link.type) {
+        case 'SS': return pred.es + link.lag;
+        case 'FF': return pred.ef + link.lag - succDuration;
+        case 'SF': return pred.es + link.lag - succDuration;
+        default: return pred.ef + link.lag;
+    }
+};
+
+/**
+ * Latest finish a predecessor may take given one outgoing link (mirror of linkEarliestStart).
+ */
+export const linkLatestFinish = (succ: { ls: number; lf: number }, link: PredecessorLink, predDuration: number): number => {
+    switch (link.type) {
+        case 'SS': return succ.ls - link.lag + predDuration;
+        case 'FF': return succ.lf - link.lag;
+        case 'SF': return succ.lf - link.lag + predDuration;
+        default: return succ.ls - link.lag;
+    }
+};
+
+/**
+ * How far a predecessor can slip along one link before it moves the successor; 0 means the link drives.
+ */
+export const linkFloat = (pred: { es: number; ef: number }, succ: { es: number; duration: number }, link: PredecessorLink): number =>
+    succ.es - linkEarliestStart(pred, link, succ.duration);
+
+export const isDrivingLink = (pred: { es: number; ef: number }, succ: { es: number; duration: number }, link: PredecessorLink): boolean =>
+    Math.abs(linkFloat(pred, succ, link)) < 0.001;
+
+export const DEFAULT_NEAR_CRITICAL_THRESHOLD = 2;
+
+export const isNearCritical = (task: { isCritical?: boolean; slack?: number }, threshold: number): boolean =>
+    !task.isCritical && task.slack !== undefined && task.slack <= threshold;
+
+// Enumeration is exponential on dense networks, so stop listing after this many paths
+const MAX_CRITICAL_PATHS = 50;
+
+/**
+ * Schedules the project. With a WBS, only leaf tasks are scheduled (links to or from a summary
+ * apply to all of its leaves) and summary tasks are rolled up from their children afterwards.
+ * Links to unknown tasks are ignored and reported as warnings; a dependency loop stops the
+ * calculation and is reported in `cycles`.
+ */
+export const calculateCPM = (tasks: Task[], options: CPMOptions = {}): CPMResult => {
+    const warnings: CPMWarning[] = findUnknownPredecessors(tasks).map(({ taskId, predecessorId }) => ({
+        taskId,
+        predecessorId,
+        message: `Task ${taskId}: predecessor ${predecessorId} does not exist`
+    }));
+    if (!hasHierarchy(tasks)) return { ...scheduleNetwork(tasks, options), warnings };
+
+    const normalized = tasks.map(t => ({ ...t, predecessors: toPredecessorLinks(t.predecessors) }));
+    const network = expandSummaryLinks(normalized);
+    const result = scheduleNetwork(network, options);
+    if (result.error) return { ...result, warnings };
+
+    // Scheduling normalises links, which drops where expanded links came from
+    const links = new Map(network.map(t => [t.id, t.predecessors]));
+    const codes = computeWbsCodes(normalized);
+    return {
+        ...result,
+        warnings,
+        processedTasks: rollUpSummaries(result.processedTasks, normalized).map(t => ({ ...t, predecessors: links.get(t.id) ?? t.predecessors, wbsCode: codes.get(t.id) }))
+    };
+};
+
+const scheduleNetwork = (tasks: Task[], options: CPMOptions): CPMResult => {
+    const { statusDate } = options;
+
+    // Initialize map (predecessors are normalized so legacy string lists still calculate)
     const taskMap = new Map<string, ProcessedTask>(tasks.map(t => [t.id, {
         ...t,
+        predecessors: toPredecessorLinks(t.predecessors),
         es: 0, ef: 0, ls: Infinity, lf: Infinity, slack: 0, isCritical: false
     }]));
 
-    const adj = new Map<string, string[]>(tasks.map(t => [t.id, []]));
-    const revAdj = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+    // Edges carry the link so both passes can honour type and lag
+    const adj = new Map<string, { id: string; link: PredecessorLink }[]>(tasks.map(t => [t.id, []]));
+    const revAdj = new Map<string, PredecessorLink[]>(tasks.map(t => [t.id, []]));
 
     // Build Graph
-    tasks.forEach(task => {
-        task.predecessors.forEach(pId => {
-            if (taskMap.has(pId)) {
-                adj.get(pId)?.push(task.id);
-                revAdj.get(task.id)?.push(pId);
+    taskMap.forEach(task => {
+        task.predecessors.forEach(link => {
+            if (taskMap.has(link.id)) {
+                adj.get(link.id)?.push({ id: task.id, link });
+                revAdj.get(task.id)?.push(link);
             }
         });
     });
 
     // Topological Sort
     const inDegree = new Map<string, number>(tasks.map(t => [t.id, 0]));
-    tasks.forEach(t => {
-        t.predecessors.forEach(p => {
-            if (inDegree.has(t.id)) inDegree.set(t.id, (inDegree.get(t.id) || 0) + 1);
+    taskMap.forEach(t => {
+        t.predecessors.forEach(link => {
+            if (taskMap.has(link.id)) inDegree.set(t.id, (inDegree.get(t.id) || 0) + 1);
         });
     });
 
@@ -35,29 +115,39 @@ export const calculateCPM = (tasks: Task[]): CPMResult => {
         const u = queue.shift()!;
         sortedOrder.push(u);
         const neighbors = adj.get(u) || [];
-        neighbors.forEach(v => {
+        neighbors.forEach(({ id: v }) => {
             inDegree.set(v, (inDegree.get(v) || 0) - 1);
             if (inDegree.get(v) === 0) queue.push(v);
         });
     }
 
     if (sortedOrder.length !== tasks.length) {
-        if (tasks.length === 0) return { processedTasks: [], projectDuration: 0, criticalPath: [], error: "No tasks provided" };
-        return { error: "Cycle detected", processedTasks: [], projectDuration: 0, criticalPath: [] };
+        if (tasks.length === 0) return { processedTasks: [], projectDuration: 0, criticalPath: [], criticalPaths: [], criticalPathStdDev: 0, criticalPathExpectedDuration: 0, cycles: [], warnings: [], error: "No tasks provided" };
+        return { error: "Cycle detected", processedTasks: [], projectDuration: 0, criticalPath: [], criticalPaths: [], criticalPathStdDev: 0, criticalPathExpectedDuration: 0, cycles: findCycles(tasks), warnings: [] };
     }
 
     // --- 1. Standard Forward Pass ---
     sortedOrder.forEach(u => {
         const task = taskMap.get(u)!;
-        let maxPrevEF = 0;
+        // Leads may pull a task forward, but never before the project start
+        let maxConstraint = 0;
         const preds = revAdj.get(u) || [];
-        if (preds.length > 0) {
-            preds.forEach(pId => {
-                maxPrevEF = Math.max(maxPrevEF, taskMap.get(pId)!.ef);
-            });
+        preds.forEach(link => {
+            maxConstraint = Math.max(maxConstraint, linkEarliestStart(taskMap.get(link.id)!, link, task.duration));
+        });
+
+        // Started work keeps its actual dates; everything else waits for the status date
+        const actual = actualSchedule(task, maxConstraint, statusDate);
+        if (actual) {
+            task.es = actual.es;
+            task.ef = actual.ef;
+        } else {
+            const { es, violated } = constrainedEarlyStart(task, Math.max(maxConstraint, statusDate ?? 0));
+            task.es = es;
+            task.ef = task.es + task.duration;
+            task.constraintViolated = violated || (task.constraint?.type === 'FNLT' && task.ef > task.constraint.day + 1e-9);
         }
-        task.es = maxPrevEF;
-        task.ef = task.es + task.duration;
+        task.deadlineMissed = task.deadline !== undefined && task.ef > task.deadline + 1e-9;
     });
 
     let projectDuration = 0;
@@ -68,23 +158,24 @@ export const calculateCPM = (tasks: Task[]): CPMResult => {
     // --- 2. Standard Backward Pass ---
     [...sortedOrder].reverse().forEach(u => {
         const task = taskMap.get(u)!;
+        // Start/finish-linked successors can leave a predecessor free to end after them, so cap at the project end
+        let minConstraint = projectDuration;
         const succs = adj.get(u) || [];
-        if (succs.length === 0) {
-            task.lf = projectDuration;
-        } else {
-            let minSuccLS = Infinity;
-            succs.forEach(vId => {
-                minSuccLS = Math.min(minSuccLS, taskMap.get(vId)!.ls);
-            });
-            task.lf = minSuccLS;
-        }
-        task.ls = task.lf - task.duration;
+        succs.forEach(({ id: vId, link }) => {
+            minConstraint = Math.min(minConstraint, linkLatestFinish(taskMap.get(vId)!, link, task.ef - task.es));
+        });
+        // Progress can stretch or shrink a task, so use its scheduled span rather than the planned duration
+        const span = task.ef - task.es;
+        task.lf = constrainedLateFinish(task, minConstraint, span);
+        task.ls = task.lf - span;
 
         // Natural Slack
         let calculatedSlack = task.ls - task.es;
         if (Math.abs(calculatedSlack) < 0.001) calculatedSlack = 0;
         task.slack = calculatedSlack;
-        task.isCritical = task.slack === 0;
+        // Negative float (a constraint or deadline that logic cannot meet) is critical too;
+        // finished work can no longer delay the project
+        task.isCritical = task.slack <= 0 && !isComplete(task);
     });
 
     // --- 3. APPLY MANUAL OVERRIDES (Force Values) ---
@@ -98,17 +189,91 @@ export const calculateCPM = (tasks: Task[]): CPMResult => {
         if (task.manualSlack !== undefined && task.manualSlack !== null && task.manualSlack !== '') {
             task.slack = parseFloat(task.manualSlack as string);
         } else {
-            // If we manually moved dates, re-compute slack visually
-            task.slack = task.ls - task.es;
+            // If we manually moved dates, re-compute slack visually (same tolerance as the natural slack,
+            // fractional durations would otherwise lose criticality to rounding noise)
+            const slack = task.ls - task.es;
+            task.slack = Math.abs(slack) < 0.001 ? 0 : slack;
         }
 
         if (task.manualCritical !== undefined && task.manualCritical !== 'auto') {
             task.isCritical = task.manualCritical === 'true';
         } else {
             // Re-evaluate criticality based on potentially new slack
-            task.isCritical = task.slack === 0;
+            task.isCritical = task.slack <= 0 && !isComplete(task);
         }
     });
 
-    return { error: null, processedTasks: Array.from(taskMap.values()), projectDuration };
+    // --- 4. PERT Variance along the critical path ---
+    // Parallel critical chains are possible, so keep the largest accumulated variance (the riskiest chain).
+    // Alongside it, sum how far that chain's expected durations (te) differ from the scheduled ones,
+    // so the mean and the variance describe the same chain.
+    const pathVariance = new Map<string, { variance: number; shift: number }>();
+    let critical = { variance: 0, shift: 0 };
+    const riskier = (a: { variance: number; shift: number }, b: { variance: number; shift: number }) =>
+        b.variance > a.variance || (b.variance === a.variance && b.shift > a.shift) ? b : a;
+    sortedOrder.forEach(u => {
+        const task = taskMap.get(u)!;
+        const { expected, variance } = pertEstimate(task);
+        task.expectedDuration = expected;
+        task.variance = variance;
+        if (!task.isCritical) return;
+
+        const chains = (revAdj.get(u) || [])
+            .filter(link => taskMap.get(link.id)!.isCritical && isDrivingLink(taskMap.get(link.id)!, task, link))
+            .map(link => pathVariance.get(link.id)!);
+        const inherited = chains.length > 0 ? chains.reduce(riskier) : { variance: 0, shift: 0 };
+        // Completed work keeps its actual duration
+        const shift = isComplete(task) ? 0 : expected - task.duration;
+        const chain = { variance: inherited.variance + variance, shift: inherited.shift + shift };
+        pathVariance.set(u, chain);
+        critical = riskier(critical, chain);
+    });
+
+    // --- 5. Free and interfering float ---
+    taskMap.forEach(task => {
+        const succs = adj.get(task.id) || [];
+        let freeFloat = succs.length === 0 ? projectDuration - task.ef : Infinity;
+        succs.forEach(({ id: vId, link }) => {
+            freeFloat = Math.min(freeFloat, linkFloat(task, taskMap.get(vId)!, link));
+        });
+        // Free float can never exceed total slack (deadlines and constraints tighten the latter)
+        freeFloat = Math.max(0, Math.min(freeFloat, task.slack));
+        if (Math.abs(freeFloat) < 0.001) freeFloat = 0;
+        task.freeFloat = freeFloat;
+        task.interferingFloat = Math.max(0, task.slack - freeFloat);
+    });
+
+    // --- 6. Enumerate critical paths ---
+    const drivingSuccessors = (id: string) => (adj.get(id) || [])
+        .filter(({ id: vId, link }) => taskMap.get(vId)!.isCritical && isDrivingLink(taskMap.get(id)!, taskMap.get(vId)!, link))
+        .map(({ id: vId }) => vId);
+    const hasDrivingPredecessor = (id: string) => (revAdj.get(id) || [])
+        .some(link => taskMap.get(link.id)!.isCritical && isDrivingLink(taskMap.get(link.id)!, taskMap.get(id)!, link));
+
+    const criticalPaths: string[][] = [];
+    const walk = (id: string, path: string[]) => {
+        if (criticalPaths.length >= MAX_CRITICAL_PATHS) return;
+        const next = drivingSuccessors(id);
+        if (next.length === 0) criticalPaths.push(path);
+        else next.forEach(vId => walk(vId, [...path, vId]));
+    };
+    sortedOrder
+        .filter(id => taskMap.get(id)!.isCritical && !hasDrivingPredecessor(id))
+        .forEach(id => walk(id, [id]));
+
+    // Report the chain spanning the most time first
+    const pathSpan = (path: string[]) => taskMap.get(path[path.length - 1])!.ef - taskMap.get(path[0])!.es;
+    criticalPaths.sort((a, b) => pathSpan(b) - pathSpan(a) || b.length - a.length);
+
+    return {
+        error: null,
+        processedTasks: Array.from(taskMap.values()),
+        projectDuration,
+        criticalPath: criticalPaths[0] || [],
+        criticalPaths,
+        criticalPathStdDev: Math.sqrt(critical.variance),
+        criticalPathExpectedDuration: projectDuration + critical.shift,
+        cycles: [],
+        warnings: []
+    };
 };
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { optimiseCrashing, crashSlope } from './crashing';
+import { Task } from '../types';
+
+describe('optimiseCrashing', () => {
+    it('should derive the cost per day saved', () => {
+        expect(crashSlope({ id: 'A', name: 'A', duration: 5, predecessors: [], crashDuration: 3, crashCost: 400 })).toBe(200);
+        expect(crashSlope({ id: 'A', name: 'A', duration: 5, predecessors: [] })).toBeNull();
+    });
+
+    it('should shorten the cheapest critical task first', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 4, predecessors: [], crashDuration: 2, crashCost: 200 },
+            { id: 'B', name: 'Task B', duration: 4, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], crashDuration: 3, crashCost: 50 },
+        ];
+
+        const result = optimiseCrashing(tasks, 6);
+
+        expect(result.reachedTarget).toBe(true);
+        expect(result.finalDuration).toBe(6);
+        expect(result.steps.map(s => s.taskIds)).toEqual([['B'], ['A']]);
+        expect(result.totalCost).toBe(150);
+        expect(result.curve).toEqual([
+            { duration: 8, extraCost: 0 },
+            { duration: 7, extraCost: 50 },
+            { duration: 6, extraCost: 150 },
+        ]);
+        expect(result.recommendations).toEqual([
+            { id: 'B', fromDuration: 4, toDuration: 3, cost: 50 },
+            { id: 'A', fromDuration: 4, toDuration: 3, cost: 100 },
+        ]);
+    });
+
+    it('should cut parallel critical paths together, preferring a shared task', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [], crashDuration: 1, crashCost: 300 },
+            { id: 'B', name: 'Task B', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], crashDuration: 2, crashCost: 100 },
+            { id: 'C', name: 'Task C', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], crashDuration: 2, crashCost: 100 },
+        ];
+
+        const result = optimiseCrashing(tasks, 5);
+
+        // A (150/day) cuts both paths more cheaply than B + C (200/day)
+        expect(result.steps[0].taskIds).toEqual(['A']);
+        expect(result.finalDuration).toBe(5);
+        expect(result.totalCost).toBe(150);
+    });
+
+    it('should stop when no critical path can be shortened', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 4, predecessors: [], crashDuration: 3, crashCost: 10 },
+            { id: 'B', name: 'Task B', duration: 4, predecessors: [] },
+        ];
+
+        const result = optimiseCrashing(tasks, 2);
+
+        expect(result.reachedTarget).toBe(false);
+        expect(result.finalDuration).toBe(4);
+        expect(result.steps).toEqual([]);
+    });
+});
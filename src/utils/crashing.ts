@@ -0,0 +1,142 @@
+import { Task, CPMOptions, CrashingResult, CrashStep, CrashRecommendation } from '../types';
+import { calculateCPM } from './cpmLogic';
+import { isComplete } from './progress';
+
+// Exact cut search is exponential, so fall back to a greedy cover beyond this many candidates
+const MAX_EXACT_CANDIDATES = 20;
+const MAX_CUT_SIZE = 3;
+const MAX_STEPS = 10000;
+
+/**
+ * Cost per day of shortening a task, or null when it cannot be crashed.
+ */
+export const crashSlope = (task: Task): number | null => {
+    if (task.crashDuration === undefined || task.crashDuration >= task.duration) return null;
+    return (task.crashCost ?? 0) / (task.duration - task.crashDuration);
+};
+
+interface Candidate {
+    id: string;
+    slope: number;
+    capacity: number; // Days left before reaching the crash duration
+}
+
+/**
+ * Cheapest set of candidates such that every critical path contains at least one of them.
+ * Small networks are searched exhaustively up to MAX_CUT_SIZE tasks; larger ones use a greedy
+ * cost-per-path-covered cover, which is not always optimal.
+ */
+const cheapestCut = (paths: string[][], candidates: Candidate[]): Candidate[] | null => {
+    const pathSets = paths.map(p => new Set(p));
+    const covers = (cut: Candidate[]) => pathSets.every(path => cut.some(c => path.has(c.id)));
+    const cost = (cut: Candidate[]) => cut.reduce((sum, c) => sum + c.slope, 0);
+
+    if (candidates.length <= MAX_EXACT_CANDIDATES) {
+        let best: Candidate[] | null = null;
+        const search = (start: number, cut: Candidate[]): void => {
+            if (cut.length > 0 && covers(cut)) {
+                if (best === null || cost(cut) < cost(best) - 1e-9) best = cut;
+                return;
+            }
+            if (cut.length === MAX_CUT_SIZE) return;
+            for (let i = start; i < candidates.length; i++) search(i + 1, [...cut, candidates[i]]);
+        };
+        search(0, []);
+        const found = best as Candidate[] | null;
+        if (found) return found;
+    }
+
+    const cut: Candidate[] = [];
+    let uncovered = pathSets;
+    while (uncovered.length > 0) {
+        let pick: Candidate | null = null;
+        let pickScore = Infinity;
+        for (const c of candidates) {
+            const covered = uncovered.filter(path => path.has(c.id)).length;
+            if (covered === 0) continue;
+            const score = c.slope / covered;
+            if (score < pickScore) { pick = c; pickScore = score; }
+        }
+        if (!pick) return null;
+        const chosen = pick;
+        cut.push(chosen);
+        uncovered = uncovered.filter(path => !path.has(chosen.id));
+    }
+    return cut;
+};
+
+/**
+ * Shortens the project towards the target duration as cheaply as possible: each step shortens the
+ * cheapest set of crashable tasks that cuts every critical path, then recalculates, since new paths
+ * may become critical along the way. Stops early when no critical path can be shortened further.
+ */
+export const optimiseCrashing = (tasks: Task[], targetDuration: number, cpmOptions: CPMOptions = {}): CrashingResult => {
+    const durations = new Map(tasks.map(t => [t.id, t.duration]));
+    const withDurations = () => tasks.map(t => ({ ...t, duration: durations.get(t.id)! }));
+
+    let result = calculateCPM(tasks, cpmOptions);
+    const originalDuration = result.projectDuration;
+    const steps: CrashStep[] = [];
+    const done = (error: string | null = null): CrashingResult => {
+        const totalCost = steps.reduce((sum, s) => sum + s.cost, 0);
+        let cumulative = 0;
+        const recommendations: CrashRecommendation[] = tasks
+            .filter(t => durations.get(t.id)! < t.duration - 1e-9)
+            .map(t => ({
+                id: t.id,
+                fromDuration: t.duration,
+                toDuration: durations.get(t.id)!,
+                cost: (t.duration - durations.get(t.id)!) * (crashSlope(t) ?? 0)
+            }))
+            .sort((a, b) => a.cost - b.cost);
+
+        return {
+            error,
+            originalDuration,
+            finalDuration: result.projectDuration,
+            targetDuration,
+            reachedTarget: result.projectDuration <= targetDuration + 1e-9,
+            totalCost,
+            steps,
+            curve: [{ duration: originalDuration, extraCost: 0 }, ...steps.map(s => ({ duration: s.toDuration, extraCost: (cumulative += s.cost) }))],
+            recommendations
+        };
+    };
+
+    if (result.error) return done(result.error);
+
+    const slopes = new Map(tasks.map(t => [t.id, crashSlope(t)]));
+    const floors = new Map(tasks.map(t => [t.id, t.crashDuration ?? t.duration]));
+    const crashable = new Set(tasks.filter(t => slopes.get(t.id) !== null && !isComplete(t)).map(t => t.id));
+
+    while (result.projectDuration > targetDuration + 1e-9 && steps.length < MAX_STEPS) {
+        const onPaths = new Set(result.criticalPaths.flat());
+        const candidates: Candidate[] = [...onPaths]
+            .filter(id => crashable.has(id) && durations.get(id)! - floors.get(id)! > 1e-9)
+            .map(id => ({ id, slope: slopes.get(id)!, capacity: durations.get(id)! - floors.get(id)! }));
+
+        const cut = cheapestCut(result.criticalPaths, candidates);
+        if (!cut) break;
+
+        const amount = Math.min(1, result.projectDuration - targetDuration, ...cut.map(c => c.capacity));
+        const previous = new Map(durations);
+        cut.forEach(c => durations.set(c.id, durations.get(c.id)! - amount));
+
+        const next = calculateCPM(withDurations(), cpmOptions);
+        // Start-linked or constrained paths may not respond to shorter tasks
+        if (next.error || next.projectDuration >= result.projectDuration - 1e-9) {
+            previous.forEach((d, id) => durations.set(id, d));
+            break;
+        }
+
+        steps.push({
+            fromDuration: result.projectDuration,
+            toDuration: next.projectDuration,
+            taskIds: cut.map(c => c.id),
+            cost: cut.reduce((sum, c) => sum + c.slope * amount, 0)
+        });
+        result = next;
+    }
+
+    return done();
+};
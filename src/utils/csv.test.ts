@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, guessCsvMapping, importCsvRows, exportCsv } from './csv';
+import { calculateCPM } from './cpmLogic';
+import { Task, Resource } from '../types';
+
+describe('csv', () => {
+    const pool: Resource[] = [
+        { id: 'dev', name: 'Developer', type: 'work', maxUnits: 1, costRate: 500 },
+    ];
+    const existing: Task[] = [
+        { id: 'A', name: 'Design', duration: 2, predecessors: [] },
+        { id: 'B', name: 'Build', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+    ];
+
+    it('should parse quoted fields and detect semicolon delimiters', () => {
+        expect(parseCsv('\uFEFFID;Name;Predecessors\r\n1;"Plan; scope";\r\n2;"Say ""hi""\nagain";"1, 3"\r\n\r\n')).toEqual([
+            ['ID', 'Name', 'Predecessors'],
+            ['1', 'Plan; scope', ''],
+            ['2', 'Say "hi"\nagain', '1, 3'],
+        ]);
+    });
+
+    it('should guess columns from common header names', () => {
+        expect(guessCsvMapping(['Task Name', 'Duration (days)', 'ID', 'Depends on'])).toEqual({
+            id: 2, name: 0, duration: 1, predecessors: 3, resources: null, cost: null
+        });
+    });
+
+    it('should merge rows into existing tasks and flag problems', () => {
+        const records = parseCsv('B,Build it,,A\nC,Test,2,"B, Z"\nC,Again,1,\nD,Deploy,soon,C');
+        const mapping = { id: 0, name: 1, duration: 2, predecessors: 3, resources: null, cost: null };
+
+        const result = importCsvRows(records, mapping, pool, existing, 'merge');
+
+        expect(result.added).toBe(2);
+        expect(result.updated).toBe(1);
+        expect(result.tasks.map(t => [t.id, t.name, t.duration])).toEqual([
+            ['A', 'Design', 2], ['B', 'Build it', 3], ['C', 'Test', 2], ['D', 'Deploy', 1]
+        ]);
+        expect(result.rows[1].issues).toEqual(['Unknown predecessor Z']);
+        expect(result.rows[2].issues[0]).toContain('Duplicate ID C');
+        expect(result.rows[3].issues[0]).toContain('not a valid duration');
+    });
+
+    it('should replace the list and export computed values', () => {
+        const records = [['X', 'Only task', '4', '', 'Developer', '100']];
+        const mapping = { id: 0, name: 1, duration: 2, predecessors: 3, resources: 4, cost: 5 };
+        const { tasks } = importCsvRows(records, mapping, pool, existing, 'replace');
+        expect(tasks).toEqual([{ id: 'X', name: 'Only task', duration: 4, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }], cost: 100 }]);
+
+        const csv = exportCsv(existing, calculateCPM(existing).processedTasks, pool, { startDate: '2025-03-03' });
+        const lines = csv.replace(/^\uFEFF/, '').trim().split('\r\n');
+        expect(lines[0]).toBe('ID,Name,Duration,Predecessors,Resources,Cost,ES,EF,LS,LF,Slack,Critical,Start,Finish');
+        expect(lines[2]).toBe('B,Build,3,A,,,2,5,2,5,0,Yes,2025-03-05,2025-03-07');
+    });
+});
@@ -0,0 +1,176 @@
+import { Task, ProcessedTask, Resource, ScheduleSettings } from '../types';
+import { GRID_COLUMNS, GridColumnKey, cellText, applyCellEdit } from './taskGrid';
+import { findUnknownPredecessors } from './dependencies';
+import { getTaskDates, toISODate } from './calendar';
+
+export type CsvField = Extract<GridColumnKey, 'id' | 'name' | 'duration' | 'predecessors' | 'resources' | 'cost'>;
+
+export const CSV_FIELDS: CsvField[] = ['id', 'name', 'duration', 'predecessors', 'resources', 'cost'];
+
+// Column index in the file for each field, or null when the file has no such column
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export type CsvImportMode = 'replace' | 'merge';
+
+// Header spellings recognised when guessing the mapping (compared in lower case without punctuation)
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+    id: ['id', 'taskid', 'code', 'key', 'no', 'number'],
+    name: ['name', 'task', 'taskname', 'title', 'activity', 'description'],
+    duration: ['duration', 'days', 'durationdays', 'length'],
+    predecessors: ['predecessors', 'predecessor', 'preds', 'dependencies', 'dependson'],
+    resources: ['resources', 'resource', 'resourcenames', 'assignedto', 'owner'],
+    cost: ['cost', 'fixedcost', 'budget']
+};
+
+/**
+ * Splits CSV text into records, honouring quoted fields with embedded delimiters, quotes and line
+ * breaks. The delimiter (comma, semicolon or tab, as Excel writes depending on locale) is detected
+ * from the first line. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else field += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/** Best-effort mapping of a header row onto task fields. */
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+    const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z]/g, ''));
+    const mapping = {} as CsvColumnMapping;
+    CSV_FIELDS.forEach(field => {
+        const index = normalized.findIndex(h => FIELD_ALIASES[field].includes(h));
+        mapping[field] = index === -1 ? null : index;
+    });
+    return mapping;
+};
+
+export interface CsvImportRow {
+    line: number; // 1-based record number among the data rows
+    id: string | null; // Task the row became, if any
+    issues: string[];
+}
+
+export interface CsvImportResult {
+    tasks: Task[];
+    rows: CsvImportRow[];
+    added: number;
+    updated: number;
+}
+
+/**
+ * Builds the task list a CSV import would produce. In merge mode, rows whose ID matches an existing
+ * task update only the mapped, non-blank fields of that task and other rows are appended; in replace
+ * mode the file becomes the whole list. Without an ID column, rows get the next free number.
+ * Problems are reported per row: rejected cells, duplicate IDs and links to unknown tasks.
+ */
+export const importCsvRows = (
+    records: string[][], mapping: CsvColumnMapping, pool: Resource[], existing: Task[], mode: CsvImportMode
+): CsvImportResult => {
+    let list = mode === 'merge' ? existing : [];
+    const seen = new Set<string>();
+    const rows: CsvImportRow[] = [];
+    let added = 0;
+    let updated = 0;
+
+    records.forEach((record, r) => {
+        const row: CsvImportRow = { line: r + 1, id: null, issues: [] };
+        rows.push(row);
+        const cell = (field: CsvField) => mapping[field] === null ? undefined : record[mapping[field]!] ?? '';
+
+        const idText = cell('id')?.trim().toUpperCase();
+        if (idText && seen.has(idText)) {
+            row.issues.push(`Duplicate ID ${idText}, row skipped`);
+            return;
+        }
+
+        let id: string | null = null;
+        if (idText && list.some(t => t.id === idText)) {
+            id = idText;
+            updated++;
+        } else {
+            // Creating the task from its ID, or from its name when there is no ID column
+            const field: CsvField = idText ? 'id' : 'name';
+            const result = applyCellEdit(list, null, field, idText || cell('name') || '', pool);
+            if (result.error || result.tasks.length === list.length) {
+                row.issues.push(result.error || 'Row has no ID or name, skipped');
+                return;
+            }
+            list = result.tasks;
+            id = list[list.length - 1].id;
+            added++;
+        }
+        seen.add(id);
+        row.id = id;
+
+        CSV_FIELDS.filter(f => f !== 'id').forEach(field => {
+            const text = cell(field);
+            if (text === undefined) return;
+            // Blank cells keep what the task already has (or the defaults for a new one)
+            if (text.trim() === '') return;
+            const result = applyCellEdit(list, id, field, text, pool);
+            if (result.error) row.issues.push(`${GRID_COLUMNS.find(c => c.key === field)!.label}: ${result.error}`);
+            else list = result.tasks;
+        });
+    });
+
+    const rowById = new Map(rows.filter(r => r.id).map(r => [r.id!, r]));
+    findUnknownPredecessors(list).forEach(({ taskId, predecessorId }) => {
+        rowById.get(taskId)?.issues.push(`Unknown predecessor ${predecessorId}`);
+    });
+
+    return { tasks: list, rows, added, updated };
+};
+
+const quoteCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Task list as CSV with the grid's columns, including the computed dates and slack, plus calendar
+ * start and finish when the project has a start date. Starts with a byte order mark so Excel reads
+ * it as UTF-8.
+ */
+export const exportCsv = (tasks: Task[], scheduledTasks: ProcessedTask[], pool: Resource[], schedule: ScheduleSettings = {}): string => {
+    const scheduled = new Map(scheduledTasks.map(t => [t.id, t]));
+    const withDates = !!schedule.startDate;
+    const header = [...GRID_COLUMNS.map(c => c.label), 'Critical', ...(withDates ? ['Start', 'Finish'] : [])];
+    const lines = tasks.map(task => {
+        const done = scheduled.get(task.id);
+        const dates = withDates && done ? getTaskDates(done.es, done.ef, schedule) : null;
+        return [
+            ...GRID_COLUMNS.map(c => cellText(task, done, c.key, pool)),
+            done ? (done.isCritical ? 'Yes' : 'No') : '',
+            ...(withDates ? [dates ? toISODate(dates.start) : '', dates ? toISODate(dates.finish) : ''] : [])
+        ].map(quoteCsv).join(',');
+    });
+    return '\uFEFF' + [header.join(','), ...lines].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,133 @@
+import { Task, PredecessorLink, DependencyType } from '../types';
+
+export const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+/**
+ * Normalizes a predecessor list that may still contain legacy plain IDs
+ * (projects saved before dependency types existed) into typed links.
+ */
+export const toPredecessorLinks = (predecessors: (string | PredecessorLink)[] | undefined): PredecessorLink[] => {
+    if (!predecessors) return [];
+    return predecessors.map(p => {
+        if (typeof p === 'string') return { id: p, type: 'FS', lag: 0 };
+        return {
+            id: p.id,
+            type: DEPENDENCY_TYPES.includes(p.type) ? p.type : 'FS',
+            lag: Number(p.lag) || 0
+        };
+    });
+};
+
+export const migrateTasks = (tasks: Task[]): Task[] =>
+    tasks.map(t => ({ ...t, predecessors: toPredecessorLinks(t.predecessors) }));
+
+export const getPredecessorIds = (task: Task): string[] => task.predecessors.map(p => p.id);
+
+/**
+ * Short label for an arrow, e.g. "SS+3". Plain finish-to-start links without lag return ''.
+ */
+export const formatLinkLabel = (link: PredecessorLink): string => {
+    if (link.type === 'FS' && link.lag === 0) return '';
+    if (link.lag === 0) return link.type;
+    return `${link.type}${link.lag > 0 ? '+' : ''}${link.lag}`;
+};
+
+export const formatPredecessor = (link: PredecessorLink): string => {
+    const label = formatLinkLabel(link);
+    return label ? `${link.id} ${label}` : link.id;
+};
+
+const LINK_PATTERN = /^(\S+)(?:\s+(FS|SS|FF|SF)\s*([+-]\s*\d+(?:\.\d+)?)?)?$/i;
+
+/**
+ * Parses the compact text notation used in the quick-add bar: "A, B SS+3, C FF-2".
+ * Entries that don't match the notation are kept as plain finish-to-start links.
+ */
+export const parsePredecessors = (input: string): PredecessorLink[] =>
+    input.split(',').map(s => s.trim()).filter(s => s !== '').map(entry => {
+        const match = entry.match(LINK_PATTERN);
+        if (!match) return { id: entry.toUpperCase(), type: 'FS', lag: 0 };
+        return {
+            id: match[1].toUpperCase(),
+            type: (match[2]?.toUpperCase() as DependencyType) || 'FS',
+            lag: match[3] ? parseFloat(match[3].replace(/\s/g, '')) : 0
+        };
+    });
+
+/**
+ * Links whose predecessor ID matches no task, as task and predecessor ID pairs.
+ */
+export const findUnknownPredecessors = (tasks: Task[]): { taskId: string; predecessorId: string }[] => {
+    const ids = new Set(tasks.map(t => t.id));
+    return tasks.flatMap(t => toPredecessorLinks(t.predecessors)
+        .filter(l => !ids.has(l.id))
+        .map(l => ({ taskId: t.id, predecessorId: l.id })));
+};
+
+/**
+ * Dependency loops, one per strongly connected group of tasks, each listed in link order
+ * (every task is a predecessor of the next, and the last of the first). Links to unknown
+ * tasks are ignored.
+ */
+export const findCycles = (tasks: Task[]): string[][] => {
+    const ids = new Set(tasks.map(t => t.id));
+    const successors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+    tasks.forEach(t => toPredecessorLinks(t.predecessors).forEach(l => {
+        if (ids.has(l.id)) successors.get(l.id)!.push(t.id);
+    }));
+
+    // Tarjan's strongly connected components
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const connect = (id: string) => {
+        index.set(id, counter);
+        lowLink.set(id, counter++);
+        stack.push(id);
+        onStack.add(id);
+        successors.get(id)!.forEach(next => {
+            if (!index.has(next)) {
+                connect(next);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+            }
+        });
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== id);
+            components.push(component);
+        }
+    };
+    tasks.forEach(t => { if (!index.has(t.id)) connect(t.id); });
+
+    return components
+        .filter(c => c.length > 1 || successors.get(c[0])!.includes(c[0]))
+        .map(component => {
+            // Walk one concrete loop through the component, starting from its first task in list order
+            const members = new Set(component);
+            const start = tasks.find(t => members.has(t.id))!.id;
+            const path = [start];
+            const visited = new Set(path);
+            const walk = (id: string): boolean => successors.get(id)!.some(next => {
+                if (next === start) return true;
+                if (!members.has(next) || visited.has(next)) return false;
+                visited.add(next);
+                path.push(next);
+                if (walk(next)) return true;
+                path.pop();
+                return false;
+            });
+            walk(start);
+            return path;
+        });
+};
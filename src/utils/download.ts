@@ -0,0 +1,14 @@
+/**
+ * Saves generated text as a file through a temporary link.
+ */
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+    const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    document.body.appendChild(link); // Required for Firefox
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
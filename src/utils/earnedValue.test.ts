@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEarnedValue, plannedValueAt, buildSCurve } from './earnedValue';
+import { createBaseline } from './baselines';
+import { calculateCPM } from './cpmLogic';
+import { Task } from '../types';
+
+describe('earnedValue', () => {
+    const plan: Task[] = [
+        { id: 'A', name: 'Task A', duration: 4, predecessors: [], cost: 400 },
+        { id: 'B', name: 'Task B', duration: 4, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], cost: 800 },
+    ];
+    const baseline = createBaseline('Plan', calculateCPM(plan).processedTasks, []);
+
+    it('should spread baseline cost evenly over each task', () => {
+        expect(plannedValueAt(baseline, 0)).toBe(0);
+        expect(plannedValueAt(baseline, 2)).toBe(200);
+        expect(plannedValueAt(baseline, 6)).toBe(800);
+        expect(plannedValueAt(baseline, 10)).toBe(1200);
+    });
+
+    it('should compute variances, indices and forecasts as of the status date', () => {
+        const progressed: Task[] = [
+            { ...plan[0], actualStart: 0, actualFinish: 5, actualCost: 500 },
+            { ...plan[1], actualStart: 5, percentComplete: 25, actualCost: 300 },
+        ];
+
+        const evm = calculateEarnedValue(calculateCPM(progressed, { statusDate: 6 }).processedTasks, baseline, 6);
+
+        expect(evm.bac).toBe(1200);
+        expect(evm.pv).toBe(800);
+        expect(evm.ev).toBe(600);
+        expect(evm.ac).toBe(800);
+        expect(evm.sv).toBe(-200);
+        expect(evm.cv).toBe(-200);
+        expect(evm.spi).toBe(0.75);
+        expect(evm.cpi).toBe(0.75);
+        expect(evm.eac).toBe(1600);
+        expect(evm.etc).toBe(800);
+        expect(evm.vac).toBe(-400);
+    });
+
+    it('should leave ratios empty before any cost or plan exists', () => {
+        const evm = calculateEarnedValue(calculateCPM(plan).processedTasks, baseline, 0);
+
+        expect(evm.spi).toBeNull();
+        expect(evm.cpi).toBeNull();
+        expect(evm.eac).toBeNull();
+    });
+
+    it('should build cumulative curves for the baseline and current schedule', () => {
+        const slipped = calculateCPM([{ ...plan[0], duration: 6 }, plan[1]]).processedTasks;
+
+        const curve = buildSCurve(slipped, baseline, []);
+
+        expect(curve).toHaveLength(11);
+        expect(curve[8]).toEqual({ day: 8, pv: 1200, forecast: 800 });
+        expect(curve[10].forecast).toBe(1200);
+    });
+});
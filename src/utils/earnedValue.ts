@@ -0,0 +1,61 @@
+import { Task, Resource, Baseline, EarnedValueMetrics, SCurvePoint } from '../types';
+import { taskTotalCost } from './baselines';
+import { percentComplete } from './progress';
+
+/**
+ * Share of a task's budget scheduled by the given day, spread evenly over its span.
+ */
+const scheduledFraction = (es: number, ef: number, day: number): number => {
+    if (day >= ef) return 1;
+    if (day <= es) return 0;
+    return (day - es) / (ef - es);
+};
+
+/**
+ * Planned value: the baseline cost scheduled to be spent by the given day.
+ */
+export const plannedValueAt = (baseline: Baseline, day: number): number =>
+    baseline.tasks.reduce((sum, t) => sum + t.cost * scheduledFraction(t.es, t.ef, day), 0);
+
+const ratio = (a: number, b: number) => b > 0 ? a / b : null;
+
+/**
+ * Earned value metrics as of the status date. Budgets come from the baseline, so tasks added since
+ * the baseline earn nothing but their actual cost still counts.
+ */
+export const calculateEarnedValue = (tasks: Task[], baseline: Baseline, statusDate: number): EarnedValueMetrics => {
+    const budgets = new Map(baseline.tasks.map(t => [t.id, t.cost]));
+
+    const bac = baseline.tasks.reduce((sum, t) => sum + t.cost, 0);
+    const pv = plannedValueAt(baseline, statusDate);
+    const ev = tasks.reduce((sum, t) => sum + (budgets.get(t.id) ?? 0) * percentComplete(t) / 100, 0);
+    const ac = tasks.reduce((sum, t) => sum + (t.actualCost ?? 0), 0);
+
+    const spi = ratio(ev, pv);
+    const cpi = ratio(ev, ac);
+    const eac = cpi ? bac / cpi : null;
+
+    return {
+        statusDate,
+        bac, pv, ev, ac,
+        sv: ev - pv,
+        cv: ev - ac,
+        spi, cpi, eac,
+        etc: eac !== null ? eac - ac : null,
+        vac: eac !== null ? bac - eac : null
+    };
+};
+
+/**
+ * Cumulative baseline cost (PV) and current-schedule cost per day, for the S-curve.
+ */
+export const buildSCurve = (tasks: Task[], baseline: Baseline, pool: Resource[]): SCurvePoint[] => {
+    const current = tasks.map(t => ({ es: t.es ?? 0, ef: t.ef ?? t.duration, cost: taskTotalCost(t, pool) }));
+    const horizon = Math.ceil(Math.max(baseline.projectDuration, ...current.map(t => t.ef)));
+
+    return Array.from({ length: horizon + 1 }, (_, day) => ({
+        day,
+        pv: plannedValueAt(baseline, day),
+        forecast: current.reduce((sum, t) => sum + t.cost * scheduledFraction(t.es, t.ef, day), 0)
+    }));
+};
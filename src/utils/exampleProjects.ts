@@ -0,0 +1,87 @@
+import { StructuredAnalysisData } from '../types/structuredAnalysis';
+import { ProjectRepository } from '../types/ie';
+
+// Analysis content of the built-in example project. It lives here rather than in App.tsx so the
+// migration that backfills older saves of the example can use it.
+
+export const EXAMPLE_PROJECT_ID = 'example-mobile-app';
+
+export const EXAMPLE_STRUCTURED_ANALYSIS: StructuredAnalysisData = {
+    contextDiagram: {
+        id: 'context',
+        nodes: [
+            { id: 'sys', type: 'process', name: 'Mobile App', position: { x: 400, y: 300 }, size: { width: 150, height: 150 } },
+            { id: 'user', type: 'external_entity', name: 'User', position: { x: 100, y: 300 }, size: { width: 120, height: 80 } },
+            { id: 'store', type: 'external_entity', name: 'App Store', position: { x: 700, y: 300 }, size: { width: 120, height: 80 } },
+            { id: 'bound', type: 'boundary', name: 'System Boundary', position: { x: 300, y: 200 }, size: { width: 350, height: 350 } }
+        ],
+        connections: [
+            { id: 'c1', sourceId: 'user', targetId: 'sys', label: 'Credentials' },
+            { id: 'c2', sourceId: 'sys', targetId: 'user', label: 'App Content' },
+            { id: 'c3', sourceId: 'sys', targetId: 'store', label: 'App Binary' }
+        ]
+    },
+    dfds: [
+        {
+            id: 'level0',
+            level: 0,
+            nodes: [
+                { id: 'p1', type: 'process', name: 'Authenticate', position: { x: 150, y: 150 }, size: { width: 160, height: 96 }, level: 1 },
+                { id: 'p2', type: 'process', name: 'Browse Content', position: { x: 400, y: 150 }, size: { width: 160, height: 96 }, level: 1 },
+                { id: 'p3', type: 'process', name: 'Process Order', position: { x: 400, y: 400 }, size: { width: 160, height: 96 }, level: 1 },
+                { id: 'd1', type: 'data_store', name: 'User DB', position: { x: 150, y: 400 }, size: { width: 160, height: 64 } },
+                { id: 'd2', type: 'data_store', name: 'Product DB', position: { x: 650, y: 150 }, size: { width: 160, height: 64 } }
+            ],
+            connections: [
+                { id: 'f1', sourceId: 'p1', targetId: 'd1', label: 'Verify User' },
+                { id: 'f2', sourceId: 'p2', targetId: 'd2', label: 'Get Products' },
+                { id: 'f3', sourceId: 'p1', targetId: 'p2', label: 'User Token' },
+                { id: 'f4', sourceId: 'p2', targetId: 'p3', label: 'Order Details' }
+            ]
+        }
+    ],
+    dictionary: [
+        { id: 'de1', name: 'Credentials', type: 'data_structure', definition: 'Username + Password', relatedDiagramIds: ['context'] },
+        { id: 'de2', name: 'User Token', type: 'data_element', definition: 'JWT String', relatedDiagramIds: ['level0'] }
+    ],
+    stds: []
+};
+
+export const EXAMPLE_INFORMATION_ENGINEERING: ProjectRepository = {
+    id: 'ie-example',
+    name: 'Mobile App IE',
+    currentStep: 1,
+    entities: {
+        'e1': { id: 'e1', name: 'Customer', attributes: [], position: { x: 100, y: 100 }, size: { width: 140, height: 70 } },
+        'e2': { id: 'e2', name: 'Order', attributes: [], position: { x: 500, y: 100 }, size: { width: 140, height: 70 } },
+        'e3': { id: 'e3', name: 'Inventory', attributes: [], position: { x: 300, y: 300 }, size: { width: 140, height: 70 } }
+    },
+    relationships: {
+        'r1': { 
+            id: 'r1', 
+            sourceEntityId: 'e1', 
+            targetEntityId: 'e2', 
+            sourceCardinality: 'one_one', 
+            targetCardinality: 'zero_many', 
+            label: 'places', 
+            position: { x: 300, y: 100 },
+            controlPoints: []
+        }
+    },
+    processes: {
+        'p1': { id: 'p1', name: 'Manage Orders', type: 'function', level: 0, position: { x: 400, y: 50 }, size: { width: 160, height: 60 } },
+        'p2': { id: 'p2', name: 'Receive Order', type: 'process', parentId: 'p1', level: 1, position: { x: 100, y: 250 }, size: { width: 140, height: 60 } },
+        'p3': { id: 'p3', name: 'Validate Stock', type: 'process', parentId: 'p1', level: 1, position: { x: 400, y: 250 }, size: { width: 140, height: 60 } },
+        'p4': { id: 'p4', name: 'Ship Items', type: 'process', parentId: 'p1', level: 1, position: { x: 700, y: 250 }, size: { width: 140, height: 60 } }
+    },
+    processDependencies: {
+        'd1': { id: 'd1', sourceProcessId: 'p2', targetProcessId: 'p3', type: 'sequence' },
+        'd2': { id: 'd2', sourceProcessId: 'p3', targetProcessId: 'p4', type: 'sequence' }
+    },
+    dataFlows: {
+        'df1': { id: 'df1', processDependencyId: 'd1', entityId: 'e2', accessType: 'create' }, // Receive creates Order
+        'df2': { id: 'df2', processDependencyId: 'd1', entityId: 'e1', accessType: 'update' }, // Receive updates Customer?
+        'df3': { id: 'df3', processDependencyId: 'd2', entityId: 'e3', accessType: 'read' },   // Validate reads Inventory
+    },
+    triggers: {}
+};
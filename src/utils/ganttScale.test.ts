@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimescale, dateToColumn, visibleRange, dragDays, barDragUpdate, rowAtOffset } from './ganttScale';
+import { buildWorkdayDates, parseISODate } from './calendar';
+import { Task } from '../types';
+
+const task: Task = { id: 'A', name: 'Build', duration: 4, predecessors: [], es: 3, ef: 7 };
+
+describe('ganttScale', () => {
+    it('should group working days into weeks under months', () => {
+        // Mon 24 Feb 2025, five-day weeks
+        const dates = buildWorkdayDates('2025-02-24', 10);
+        const scale = buildTimescale('week', 10, dates);
+
+        expect(scale.bottom.map(b => [b.start, b.span])).toEqual([[0, 5], [5, 5]]);
+        expect(scale.top.map(b => [b.start, b.span])).toEqual([[0, 5], [5, 5]]);
+        expect(scale.top[1].label).toContain('Mar');
+    });
+
+    it('should count undated periods in working days', () => {
+        const scale = buildTimescale('month', 45, null);
+
+        expect(scale.bottom.map(b => b.label)).toEqual(['M1', 'M2', 'M3']);
+        expect(scale.bottom.map(b => b.span)).toEqual([20, 20, 5]);
+        expect(scale.top.map(b => b.label)).toEqual(['Q1']);
+    });
+
+    it('should map dates to working-day columns', () => {
+        const dates = buildWorkdayDates('2025-02-24', 10);
+
+        expect(dateToColumn(dates, parseISODate('2025-02-25'))).toBe(1);
+        // A weekend maps to the following Monday
+        expect(dateToColumn(dates, parseISODate('2025-03-01'))).toBe(5);
+        expect(dateToColumn(dates, parseISODate('2025-01-01'))).toBeNull();
+        expect(dateToColumn(dates, parseISODate('2026-01-01'))).toBeNull();
+    });
+
+    it('should only include items in the viewport plus overscan', () => {
+        expect(visibleRange(4000, 800, 40, 500, 5)).toEqual([95, 125]);
+        expect(visibleRange(0, 800, 40, 10, 5)).toEqual([0, 9]);
+        expect(visibleRange(0, 800, 40, 0)).toEqual([0, -1]);
+    });
+
+    it('should snap drags to whole working days', () => {
+        expect(dragDays(55, 40)).toBe(1);
+        expect(dragDays(-100, 40)).toBe(-2);
+        expect(dragDays(10, 1.5)).toBe(7);
+    });
+
+    it('should constrain moved bars and resize durations', () => {
+        expect(barDragUpdate(task, 'move', 2)).toEqual({ constraint: { type: 'SNET', day: 5 } });
+        expect(barDragUpdate(task, 'move', -5)).toEqual({ constraint: { type: 'SNET', day: 0 } });
+        expect(barDragUpdate(task, 'resize', -2)).toEqual({ duration: 2 });
+        expect(barDragUpdate(task, 'resize', -9)).toEqual({ duration: 0 });
+        expect(barDragUpdate(task, 'move', 0)).toBeNull();
+    });
+
+    it('should find the row a link is dropped on', () => {
+        expect(rowAtOffset(56 + 85, 56, 40, 5)).toBe(2);
+        expect(rowAtOffset(30, 56, 40, 5)).toBeNull();
+        expect(rowAtOffset(56 + 200, 56, 40, 5)).toBeNull();
+    });
+});
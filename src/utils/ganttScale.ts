@@ -0,0 +1,152 @@
+import { Task } from '../types';
+import { formatDate, toISODate, addCalendarDays } from './calendar';
+import { movedConstraint } from './constraints';
+
+export type GanttZoom = 'day' | 'week' | 'month' | 'quarter';
+
+export const GANTT_ZOOM_LEVELS: GanttZoom[] = ['day', 'week', 'month', 'quarter'];
+
+export const GANTT_ZOOM_LABELS: Record<GanttZoom, string> = {
+    day: 'Day',
+    week: 'Week',
+    month: 'Month',
+    quarter: 'Quarter'
+};
+
+// Pixels per working day
+export const GANTT_DAY_WIDTHS: Record<GanttZoom, number> = {
+    day: 40,
+    week: 14,
+    month: 4,
+    quarter: 1.5
+};
+
+// Without a start date, periods are counted in working days
+const UNDATED_UNITS = { day: 1, week: 5, month: 20, quarter: 60, year: 240 };
+
+export interface TimescaleBand {
+    key: string;
+    label: string;
+    sublabel?: string;
+    title?: string;
+    start: number; // First day column
+    span: number; // Number of day columns
+}
+
+export interface Timescale {
+    top: TimescaleBand[];
+    bottom: TimescaleBand[];
+}
+
+type Period = { key: string; label: string; sublabel?: string; title?: string };
+
+// Merges consecutive day columns that fall into the same period
+const group = (columns: number, periodOf: (day: number) => Period): TimescaleBand[] => {
+    const bands: TimescaleBand[] = [];
+    for (let day = 0; day < columns; day++) {
+        const period = periodOf(day);
+        const last = bands[bands.length - 1];
+        if (last && last.key === period.key) last.span++;
+        else bands.push({ ...period, start: day, span: 1 });
+    }
+    return bands;
+};
+
+const weekStart = (date: Date) => addCalendarDays(date, -((date.getUTCDay() + 6) % 7));
+
+const datedPeriods: Record<GanttZoom | 'year', (date: Date) => Period> = {
+    day: date => ({
+        key: toISODate(date),
+        label: String(date.getUTCDate()),
+        sublabel: formatDate(date, { weekday: 'narrow' }),
+        title: formatDate(date, { weekday: 'long', day: '2-digit', month: 'short', year: 'numeric' })
+    }),
+    week: date => {
+        const monday = weekStart(date);
+        return { key: toISODate(monday), label: formatDate(monday, { day: '2-digit', month: 'short' }), title: `Week of ${formatDate(monday)}` };
+    },
+    month: date => ({ key: `${date.getUTCFullYear()}-${date.getUTCMonth()}`, label: formatDate(date, { month: 'short' }), title: formatDate(date, { month: 'long', year: 'numeric' }) }),
+    quarter: date => {
+        const quarter = Math.floor(date.getUTCMonth() / 3) + 1;
+        return { key: `${date.getUTCFullYear()}-Q${quarter}`, label: `Q${quarter}`, title: `Q${quarter} ${date.getUTCFullYear()}` };
+    },
+    year: date => ({ key: String(date.getUTCFullYear()), label: String(date.getUTCFullYear()) })
+};
+
+const undatedPeriod = (unit: keyof typeof UNDATED_UNITS, prefix: string) => (day: number): Period => {
+    const index = Math.floor(day / UNDATED_UNITS[unit]);
+    return unit === 'day'
+        ? { key: String(day), label: String(day), title: `Day ${day}` }
+        : { key: String(index), label: `${prefix}${index + 1}`, title: `Days ${index * UNDATED_UNITS[unit]}–${(index + 1) * UNDATED_UNITS[unit] - 1}` };
+};
+
+/**
+ * Two-tier header for a zoom level: the bottom tier is the zoom unit and the top tier the next
+ * larger period. With working-day dates the tiers follow the calendar (months show the year on the
+ * top tier when zoomed in); without them, weeks, months and quarters are 5, 20 and 60 working days.
+ */
+export const buildTimescale = (zoom: GanttZoom, columns: number, dates: Date[] | null): Timescale => {
+    if (dates) {
+        const at = (period: (date: Date) => Period) => (day: number) => period(dates[Math.min(day, dates.length - 1)]);
+        const monthWithYear = (date: Date) => ({ ...datedPeriods.month(date), label: formatDate(date, { month: 'short', year: 'numeric' }) });
+        const tiers: Record<GanttZoom, [(date: Date) => Period, (date: Date) => Period]> = {
+            day: [monthWithYear, datedPeriods.day],
+            week: [monthWithYear, datedPeriods.week],
+            month: [datedPeriods.year, datedPeriods.month],
+            quarter: [datedPeriods.year, datedPeriods.quarter]
+        };
+        const [top, bottom] = tiers[zoom];
+        return { top: group(columns, at(top)), bottom: group(columns, at(bottom)) };
+    }
+
+    const tiers: Record<GanttZoom, [(day: number) => Period, (day: number) => Period]> = {
+        day: [undatedPeriod('week', 'W'), undatedPeriod('day', '')],
+        week: [undatedPeriod('month', 'M'), undatedPeriod('week', 'W')],
+        month: [undatedPeriod('quarter', 'Q'), undatedPeriod('month', 'M')],
+        quarter: [undatedPeriod('year', 'Y'), undatedPeriod('quarter', 'Q')]
+    };
+    const [top, bottom] = tiers[zoom];
+    return { top: group(columns, top), bottom: group(columns, bottom) };
+};
+
+/**
+ * Column of a calendar date among working-day dates: the first working day on or after it, or null
+ * when it falls outside the range.
+ */
+export const dateToColumn = (dates: Date[], date: Date): number | null => {
+    const target = toISODate(date);
+    if (dates.length === 0 || target < toISODate(dates[0])) return null;
+    const index = dates.findIndex(d => toISODate(d) >= target);
+    return index === -1 ? null : index;
+};
+
+/**
+ * First and last index (inclusive) of fixed-size items overlapping a scrolled viewport, padded by
+ * `overscan` items on each side.
+ */
+export const visibleRange = (offset: number, viewport: number, itemSize: number, count: number, overscan = 0): [number, number] => {
+    if (count === 0) return [0, -1];
+    const first = Math.max(0, Math.floor(offset / itemSize) - overscan);
+    const last = Math.min(count - 1, Math.ceil((offset + viewport) / itemSize) + overscan);
+    return [first, last];
+};
+
+/** Whole working days a horizontal pointer movement covers at the given day width. */
+export const dragDays = (dx: number, dayWidth: number): number => Math.round(dx / dayWidth);
+
+/**
+ * Task update for releasing a bar dragged by `days`: moving constrains the start, resizing changes
+ * the duration. Returns null when nothing changes.
+ */
+export const barDragUpdate = (task: Task, mode: 'move' | 'resize', days: number): Partial<Task> | null => {
+    if (days === 0) return null;
+    return mode === 'move'
+        ? { constraint: movedConstraint(task, days) }
+        : { duration: Math.max(0, task.duration + days) };
+};
+
+/** Index of the row under a vertical offset below the header, or null outside the rows. */
+export const rowAtOffset = (y: number, headerHeight: number, rowHeight: number, count: number): number | null => {
+    const row = Math.floor((y - headerHeight) / rowHeight);
+    return row >= 0 && row < count ? row : null;
+};
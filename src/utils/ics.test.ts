@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { exportIcs } from './ics';
+import { calculateCPM } from './cpmLogic';
+import { Task, ScheduleSettings } from '../types';
+
+const schedule: ScheduleSettings = {
+    startDate: '2025-03-03', // Monday
+    resources: [{ id: 'dev', name: 'Developer', type: 'work', maxUnits: 1, costRate: 400 }]
+};
+
+const tasks: Task[] = [
+    { id: 'A', name: 'Design, review', duration: 3, predecessors: [] },
+    { id: 'B', name: 'Build', duration: 4, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], resources: [{ resourceId: 'dev', units: 1 }] },
+    { id: 'C', name: 'Docs', duration: 1, predecessors: [{ id: 'A', type: 'SS', lag: 1 }] },
+];
+
+const now = new Date(Date.UTC(2025, 0, 15, 9, 30));
+
+const events = (ics: string) => ics.split('BEGIN:VEVENT').slice(1);
+
+describe('ics', () => {
+    it('should export the project start and finish as milestones', () => {
+        const { processedTasks } = calculateCPM(tasks);
+        const ics = exportIcs('p1', 'Demo', processedTasks, schedule, { includeTasks: false, filter: 'all' }, now);
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(events(ics)).toHaveLength(2);
+        expect(ics).toContain('UID:start.p1@pathfinder');
+        expect(ics).toContain('DTSTAMP:20250115T093000Z');
+        expect(ics).toContain('DTSTART;VALUE=DATE:20250303\r\nDTEND;VALUE=DATE:20250304');
+        // Seven working days: Mon 3 March to Tue 11 March
+        expect(ics).toContain('DTSTART;VALUE=DATE:20250311\r\nDTEND;VALUE=DATE:20250312');
+    });
+
+    it('should export tasks with their ID and predecessors, filtered', () => {
+        const { processedTasks } = calculateCPM(tasks);
+        const all = exportIcs('p1', 'Demo', processedTasks, schedule, { includeTasks: true, filter: 'all' }, now);
+
+        expect(events(all)).toHaveLength(5);
+        expect(all).toContain('SUMMARY:A Design\\, review');
+        expect(all).toContain('DESCRIPTION:Task ID: C\\nPredecessors: A SS+1');
+
+        const build = events(all).find(e => e.includes('UID:task-B.p1'))!;
+        expect(build).toContain('DTSTART;VALUE=DATE:20250306\r\nDTEND;VALUE=DATE:20250312');
+        expect(build).toContain('CATEGORIES:Critical');
+
+        const critical = exportIcs('p1', 'Demo', processedTasks, schedule, { includeTasks: true, filter: 'critical' }, now);
+        expect(events(critical).map(e => e.match(/UID:(\S+)\./)![1])).toEqual(['start', 'finish', 'task-A', 'task-B']);
+
+        const developer = exportIcs('p1', 'Demo', processedTasks, schedule, { includeTasks: true, filter: 'resource', resourceId: 'dev' }, now);
+        expect(events(developer).map(e => e.match(/UID:(\S+)\./)![1])).toEqual(['start', 'finish', 'task-B']);
+    });
+
+    it('should fold long lines and require a start date', () => {
+        const { processedTasks } = calculateCPM([{ id: 'A', name: 'x'.repeat(120), duration: 1, predecessors: [] }]);
+        const ics = exportIcs('p1', 'Demo', processedTasks, schedule, { includeTasks: true, filter: 'all' }, now);
+
+        expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+        expect(ics).toContain('\r\n x');
+        expect(() => exportIcs('p1', 'Demo', processedTasks, {}, { includeTasks: false, filter: 'all' })).toThrow('start date');
+    });
+});
@@ -0,0 +1,112 @@
+import { ProcessedTask, Resource, ScheduleSettings } from '../types';
+import { formatPredecessor } from './dependencies';
+import { formatAssignments } from './resources';
+import { addCalendarDays, getTaskDates, toISODate } from './calendar';
+
+export interface IcsExportOptions {
+    includeTasks: boolean; // Every task as an event, not just the project start and finish
+    filter: 'all' | 'critical' | 'resource';
+    resourceId?: string; // Used with the 'resource' filter
+}
+
+// Text values escape backslashes, separators and line breaks (RFC 5545 §3.3.11)
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+    const bytes = new TextEncoder().encode(line);
+    if (bytes.length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const char of line) {
+        const charSize = new TextEncoder().encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74;
+        if (size + charSize > limit) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += charSize;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const icsDate = (date: Date) => toISODate(date).replace(/-/g, '');
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Tasks the filter keeps. Project start and finish markers are always left out (they become the milestones). */
+export const filterCalendarTasks = (tasks: ProcessedTask[], options: IcsExportOptions): ProcessedTask[] => tasks.filter(task => {
+    if (task.type === 'start' || task.type === 'end') return false;
+    if (options.filter === 'critical') return task.isCritical;
+    if (options.filter === 'resource') return !!task.resources?.some(a => a.resourceId === options.resourceId);
+    return true;
+});
+
+/**
+ * iCalendar file with all-day events for the project start and finish and, optionally, for each
+ * task passing the filter. Task events span their working days from start to finish (weekends in
+ * between included) and carry the task ID, predecessors and assignments in the description.
+ */
+export const exportIcs = (
+    projectId: string, projectName: string, tasks: ProcessedTask[], schedule: ScheduleSettings,
+    options: IcsExportOptions, now: Date = new Date()
+): string => {
+    if (!schedule.startDate) throw new Error('Set a project start date to export a calendar');
+    const pool: Resource[] = schedule.resources || [];
+    const stamp = icsTimestamp(now);
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Pathfinder//CPM Schedule//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(projectName)}`
+    ];
+
+    const addEvent = (uid: string, summary: string, start: Date, finish: Date, description: string[], categories: string[]) => {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${uid}.${projectId}@pathfinder`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${icsDate(start)}`,
+            `DTEND;VALUE=DATE:${icsDate(addCalendarDays(finish, 1))}`, // All-day end dates are exclusive
+            `SUMMARY:${escapeText(summary)}`,
+            `DESCRIPTION:${escapeText(description.join('\n'))}`,
+            ...(categories.length > 0 ? [`CATEGORIES:${categories.map(escapeText).join(',')}`] : []),
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        );
+    };
+
+    const finishDay = Math.max(0, ...tasks.map(t => t.ef));
+    const project = getTaskDates(0, finishDay, schedule)!;
+    addEvent('start', `${projectName}: start`, project.start, project.start, ['Project start (day 0)'], ['Milestone']);
+    addEvent('finish', `${projectName}: finish`, project.finish, project.finish, [`Project finish (day ${finishDay})`], ['Milestone']);
+
+    if (options.includeTasks) {
+        filterCalendarTasks(tasks, options).forEach(task => {
+            const dates = getTaskDates(task.es, task.ef, schedule);
+            if (!dates) return;
+            const description = [
+                `Task ID: ${task.id}`,
+                `Predecessors: ${task.predecessors.length > 0 ? task.predecessors.map(formatPredecessor).join(', ') : 'none'}`,
+                `Duration: ${task.duration} days (day ${task.es} to ${task.ef})`,
+                `Slack: ${task.slack} days`,
+                ...(task.resources?.length ? [`Resources: ${formatAssignments(task.resources, pool)}`] : [])
+            ];
+            const categories = [
+                ...(task.duration === 0 ? ['Milestone'] : []),
+                ...(task.isCritical ? ['Critical'] : [])
+            ];
+            addEvent(`task-${task.id}`, `${task.id} ${task.name}`, dates.start, dates.finish, description, categories);
+        });
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
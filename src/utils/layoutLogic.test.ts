@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLayout } from './layoutLogic';
+import { calculateCPM } from './cpmLogic';
+import { Task, LayoutNode } from '../types';
+
+const fs = (id: string) => ({ id, type: 'FS' as const, lag: 0 });
+
+const countCrossings = (nodes: LayoutNode[]) => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const edges = nodes.flatMap(n => n.predecessors.map(l => [byId.get(l.id)!, n]));
+    let crossings = 0;
+    edges.forEach(([a, b], i) => edges.slice(i + 1).forEach(([c, d]) => {
+        if (a.level !== c.level || b.level !== d.level) return;
+        if ((a.y - c.y) * (b.y - d.y) < 0) crossings++;
+    }));
+    return crossings;
+};
+
+describe('calculateLayout', () => {
+    it('should place tasks one level after their furthest predecessor', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'A', duration: 1, predecessors: [] },
+            { id: 'B', name: 'B', duration: 1, predecessors: [fs('A')] },
+            { id: 'C', name: 'C', duration: 1, predecessors: [fs('A'), fs('B')] },
+        ];
+
+        const layout = calculateLayout(calculateCPM(tasks).processedTasks);
+
+        expect(layout.map(n => n.level)).toEqual([0, 1, 2]);
+        expect(layout[2].x - layout[1].x).toBe(layout[1].x - layout[0].x);
+    });
+
+    it('should reorder siblings to remove crossings', () => {
+        // In array order, A1 -> B2 and A2 -> B1 cross
+        const tasks: Task[] = [
+            { id: 'A1', name: 'A1', duration: 1, predecessors: [] },
+            { id: 'A2', name: 'A2', duration: 1, predecessors: [] },
+            { id: 'B1', name: 'B1', duration: 1, predecessors: [fs('A2')] },
+            { id: 'B2', name: 'B2', duration: 1, predecessors: [fs('A1')] },
+        ];
+
+        expect(countCrossings(calculateLayout(calculateCPM(tasks).processedTasks))).toBe(0);
+    });
+
+    it('should keep pinned positions', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'A', duration: 1, predecessors: [] },
+            { id: 'B', name: 'B', duration: 1, predecessors: [fs('A')], manualX: 900, manualY: -50 },
+        ];
+
+        const b = calculateLayout(calculateCPM(tasks).processedTasks).find(n => n.id === 'B')!;
+
+        expect(b.x).toBe(900);
+        expect(b.y).toBe(-50);
+    });
+
+    it('should lay out large networks quickly', () => {
+        // 1,200 tasks in 40 interleaved chains with cross links
+        const tasks: Task[] = Array.from({ length: 1200 }, (_, i) => ({
+            id: `T${i}`,
+            name: `Task ${i}`,
+            duration: 1,
+            predecessors: i < 40 ? [] : [fs(`T${i - 40}`), ...(i % 7 === 0 ? [fs(`T${i - 41}`)] : [])]
+        }));
+        const processed = calculateCPM(tasks).processedTasks;
+
+        const started = performance.now();
+        const layout = calculateLayout(processed);
+
+        expect(layout).toHaveLength(1200);
+        expect(performance.now() - started).toBeLessThan(2000);
+    });
+});
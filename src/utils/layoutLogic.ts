@@ -2,58 +2,167 @@ import { ProcessedTask, LayoutNode } from '../types';
 
 const LEVEL_SPACING = 280;
 const SIBLING_SPACING = 200;
+const CENTER_Y = 400;
+const ORDERING_SWEEPS = 8;
+const POSITIONING_SWEEPS = 4;
 
-export const calculateLayout = (processedTasks: ProcessedTask[]): LayoutNode[] => {
-    const levels = new Map<number, ProcessedTask[]>();
-    let maxLevel = 0;
-    const taskDepth = new Map<string, number>();
-
-    const getDepth = (id: string, visited = new Set<string>()): number => {
-        if (visited.has(id)) return 0;
-        if (taskDepth.has(id)) return taskDepth.get(id)!;
-
-        visited.add(id);
-        const task = processedTasks.find(t => t.id === id);
-        if (!task || task.predecessors.length === 0) {
-            taskDepth.set(id, 0);
-            return 0;
-        }
+// A layer entry is a task or a virtual node that carries a long edge through an intermediate layer
+interface LayerNode {
+    id: string;
+    up: string[]; // Neighbours in the previous layer
+    down: string[]; // Neighbours in the next layer
+}
+
+/**
+ * Longest-path layering: every task sits one level after its furthest predecessor. Tasks caught in a
+ * cycle (which the CPM pass rejects anyway) fall back to the level after their placed predecessors.
+ */
+const assignLevels = (tasks: ProcessedTask[], predIds: Map<string, string[]>): Map<string, number> => {
+    const successors = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+    const inDegree = new Map<string, number>(tasks.map(t => [t.id, 0]));
+    predIds.forEach((preds, id) => preds.forEach(p => {
+        successors.get(p)!.push(id);
+        inDegree.set(id, inDegree.get(id)! + 1);
+    }));
 
-        let maxPDepth = 0;
-        task.predecessors.forEach(pId => {
-            maxPDepth = Math.max(maxPDepth, getDepth(pId, new Set(visited)));
+    const level = new Map<string, number>();
+    const queue = tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+    for (let head = 0; head < queue.length; head++) {
+        const id = queue[head];
+        const preds = predIds.get(id)!;
+        level.set(id, preds.length === 0 ? 0 : Math.max(...preds.map(p => level.get(p)!)) + 1);
+        successors.get(id)!.forEach(s => {
+            inDegree.set(s, inDegree.get(s)! - 1);
+            if (inDegree.get(s) === 0) queue.push(s);
         });
+    }
 
-        const depth = maxPDepth + 1;
-        taskDepth.set(id, depth);
-        return depth;
-    };
+    tasks.forEach(t => {
+        if (level.has(t.id)) return;
+        const placed = predIds.get(t.id)!.filter(p => level.has(p));
+        level.set(t.id, placed.length === 0 ? 0 : Math.max(...placed.map(p => level.get(p)!)) + 1);
+    });
+    return level;
+};
+
+/**
+ * Crossings between two adjacent layers, counting inversions of edge end positions.
+ */
+const countCrossings = (upper: LayerNode[], position: Map<string, number>): number => {
+    const ends: number[][] = upper.map(node => node.down.map(d => position.get(d)!).sort((a, b) => a - b));
+    let crossings = 0;
+    const seen: number[] = [];
+    ends.forEach(targets => {
+        targets.forEach(target => {
+            seen.forEach(prev => { if (prev > target) crossings++; });
+        });
+        seen.push(...targets);
+    });
+    return crossings;
+};
+
+/**
+ * Layered (Sugiyama-style) layout: longest-path levels, barycentric crossing reduction with virtual
+ * nodes on long edges, then vertical positions pulled towards connected neighbours while keeping the
+ * order and spacing. Tasks with manualX/manualY keep their pinned position and attract their neighbours.
+ */
+export const calculateLayout = (processedTasks: ProcessedTask[]): LayoutNode[] => {
+    const ids = new Set(processedTasks.map(t => t.id));
+    const predIds = new Map(processedTasks.map(t => [t.id, [...new Set(t.predecessors.map(l => l.id).filter(p => ids.has(p) && p !== t.id))]]));
+    const level = assignLevels(processedTasks, predIds);
+    const maxLevel = Math.max(0, ...level.values());
 
+    // Build layers, splitting edges that skip levels into chains of virtual nodes
+    const nodes = new Map<string, LayerNode>();
+    const layers: LayerNode[][] = Array.from({ length: maxLevel + 1 }, () => []);
+    const addNode = (id: string, layer: number) => {
+        const node: LayerNode = { id, up: [], down: [] };
+        nodes.set(id, node);
+        layers[layer].push(node);
+        return node;
+    };
+    processedTasks.forEach(t => addNode(t.id, level.get(t.id)!));
     processedTasks.forEach(t => {
-        const depth = getDepth(t.id);
-        if (!levels.has(depth)) levels.set(depth, []);
-        levels.get(depth)!.push(t);
-        maxLevel = Math.max(maxLevel, depth);
+        predIds.get(t.id)!.forEach(p => {
+            const from = level.get(p)!;
+            const to = level.get(t.id)!;
+            if (to <= from) return; // Back edge inside a cycle
+            let previous = nodes.get(p)!;
+            for (let l = from + 1; l < to; l++) {
+                const virtual = addNode(`\u0000${p}>${t.id}@${l}`, l);
+                previous.down.push(virtual.id);
+                virtual.up.push(previous.id);
+                previous = virtual;
+            }
+            previous.down.push(t.id);
+            nodes.get(t.id)!.up.push(previous.id);
+        });
     });
 
-    const layoutNodes: LayoutNode[] = [];
-    levels.forEach((nodes, level) => {
-        nodes.forEach((node, index) => {
-            // Basic centering logic
-            const totalHeight = nodes.length * SIBLING_SPACING;
-            const startY = -(totalHeight / 2) + (SIBLING_SPACING / 2);
-
-            const defaultX = level * LEVEL_SPACING + 150;
-            const defaultY = startY + (index * SIBLING_SPACING) + 400;
-
-            layoutNodes.push({
-                ...node,
-                x: node.manualX !== undefined ? node.manualX : defaultX,
-                y: node.manualY !== undefined ? node.manualY : defaultY,
-                level: level
+    // Crossing reduction: alternate downward and upward barycenter sweeps, keeping the best ordering
+    const position = new Map<string, number>();
+    const reindex = (layer: LayerNode[]) => layer.forEach((node, i) => position.set(node.id, i));
+    layers.forEach(reindex);
+    const totalCrossings = () => layers.slice(0, -1).reduce((sum, layer) => sum + countCrossings(layer, position), 0);
+
+    let best = layers.map(layer => [...layer]);
+    let bestCrossings = totalCrossings();
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+        const downward = sweep % 2 === 0;
+        const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse();
+        sequence.forEach(layer => {
+            const barycenter = new Map(layer.map(node => {
+                const neighbours = downward ? node.up : node.down;
+                // Nodes without neighbours on that side keep their place
+                const value = neighbours.length === 0
+                    ? position.get(node.id)!
+                    : neighbours.reduce((sum, n) => sum + position.get(n)!, 0) / neighbours.length;
+                return [node.id, value];
+            }));
+            layer.sort((a, b) => barycenter.get(a.id)! - barycenter.get(b.id)! || position.get(a.id)! - position.get(b.id)!);
+            reindex(layer);
+        });
+
+        const crossings = totalCrossings();
+        if (crossings < bestCrossings) {
+            best = layers.map(layer => [...layer]);
+            bestCrossings = crossings;
+        }
+    }
+    best.forEach((layer, i) => { layers[i] = layer; reindex(layer); });
+
+    // Coordinate assignment: start centred, then pull each node towards its neighbours' average
+    const pinned = new Map(processedTasks.filter(t => t.manualY !== undefined).map(t => [t.id, t.manualY!]));
+    const y = new Map<string, number>();
+    layers.forEach(layer => layer.forEach((node, i) => {
+        y.set(node.id, pinned.get(node.id) ?? CENTER_Y + (i - (layer.length - 1) / 2) * SIBLING_SPACING);
+    }));
+
+    for (let sweep = 0; sweep < POSITIONING_SWEEPS; sweep++) {
+        layers.forEach(layer => {
+            const desired = layer.map(node => {
+                if (pinned.has(node.id)) return pinned.get(node.id)!;
+                const neighbours = [...node.up, ...node.down];
+                return neighbours.length === 0 ? y.get(node.id)! : neighbours.reduce((sum, n) => sum + y.get(n)!, 0) / neighbours.length;
+            });
+            // Keep order and spacing: push down from the top, push up from the bottom, and meet halfway
+            const down = [...desired];
+            for (let i = 1; i < down.length; i++) down[i] = Math.max(down[i], down[i - 1] + SIBLING_SPACING);
+            const up = [...desired];
+            for (let i = up.length - 2; i >= 0; i--) up[i] = Math.min(up[i], up[i + 1] - SIBLING_SPACING);
+            layer.forEach((node, i) => {
+                if (!pinned.has(node.id)) y.set(node.id, (down[i] + up[i]) / 2);
             });
         });
-    });
+    }
 
-    return layoutNodes;
+    return processedTasks.map(task => {
+        const taskLevel = level.get(task.id)!;
+        return {
+            ...task,
+            x: task.manualX !== undefined ? task.manualX : taskLevel * LEVEL_SPACING + 150,
+            y: task.manualY !== undefined ? task.manualY : y.get(task.id)!,
+            level: taskLevel
+        };
+    });
 };
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarlo, sampleDuration, createRandom } from './monteCarlo';
+import { Task } from '../types';
+
+describe('runMonteCarlo', () => {
+    const tasks: Task[] = [
+        { id: 'A', name: 'Task A', duration: 5, predecessors: [], optimistic: 2, mostLikely: 5, pessimistic: 14 },
+        { id: 'B', name: 'Task B', duration: 4, predecessors: [], optimistic: 3, mostLikely: 4, pessimistic: 5 },
+        { id: 'C', name: 'Task C', duration: 3, predecessors: [{ id: 'A', type: 'FS', lag: 0 }, { id: 'B', type: 'FS', lag: 0 }] },
+    ];
+
+    it('should keep samples within the estimate range', () => {
+        const random = createRandom(42);
+        (['triangular', 'beta-pert', 'uniform'] as const).forEach(distribution => {
+            for (let i = 0; i < 500; i++) {
+                const d = sampleDuration(tasks[0], distribution, random);
+                expect(d).toBeGreaterThanOrEqual(2);
+                expect(d).toBeLessThanOrEqual(14);
+            }
+        });
+        expect(sampleDuration(tasks[2], 'triangular', random)).toBe(3);
+    });
+
+    it('should report ordered percentiles and criticality indices', () => {
+        const result = runMonteCarlo(tasks, { iterations: 2000, distribution: 'triangular', seed: 7 });
+
+        expect(result.deterministicDuration).toBe(8);
+        expect(result.p50).toBeLessThanOrEqual(result.p80);
+        expect(result.p80).toBeLessThanOrEqual(result.p95);
+        expect(result.histogram.reduce((sum, b) => sum + b.count, 0)).toBe(2000);
+        // C is on every path; A dominates B most of the time
+        expect(result.criticalityIndex['C']).toBe(1);
+        expect(result.criticalityIndex['A']).toBeGreaterThan(result.criticalityIndex['B']);
+    });
+
+    it('should be reproducible with a seed', () => {
+        const a = runMonteCarlo(tasks, { iterations: 200, distribution: 'beta-pert', seed: 1 });
+        const b = runMonteCarlo(tasks, { iterations: 200, distribution: 'beta-pert', seed: 1 });
+        expect(a.p80).toBe(b.p80);
+    });
+
+    it('should keep completed tasks fixed and schedule from the status date', () => {
+        const progressed: Task[] = [{ ...tasks[0], actualStart: 0, actualFinish: 6 }, tasks[1], tasks[2]];
+        expect(sampleDuration(progressed[0], 'uniform', createRandom(3))).toBe(5);
+
+        const result = runMonteCarlo(progressed, { iterations: 200, distribution: 'uniform', seed: 3 }, { statusDate: 6 });
+        // A finished on day 6 and B cannot start before the status date, so B drives C in every run
+        expect(result.deterministicDuration).toBe(13);
+        expect(result.min).toBeGreaterThanOrEqual(12);
+        expect(result.criticalityIndex['A']).toBe(0);
+        expect(result.criticalityIndex['B']).toBe(1);
+    });
+});
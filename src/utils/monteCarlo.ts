@@ -0,0 +1,152 @@
+import { Task, SamplingDistribution, MonteCarloOptions, MonteCarloResult, HistogramBin, CPMOptions } from '../types';
+import { calculateCPM } from './cpmLogic';
+import { hasThreePointEstimate } from './pert';
+import { isComplete } from './progress';
+
+export type Random = () => number;
+
+// Small seedable PRNG (mulberry32) so runs can be reproduced
+export const createRandom = (seed: number = Date.now()): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const sampleNormal = (random: Random): number => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia–Tsang; beta-PERT shape parameters are always >= 1
+const sampleGamma = (shape: number, random: Random): number => {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+};
+
+/**
+ * Samples one duration for a task. Completed tasks and tasks without a three-point estimate keep
+ * their fixed duration.
+ */
+export const sampleDuration = (task: Task, distribution: SamplingDistribution, random: Random): number => {
+    if (isComplete(task) || !hasThreePointEstimate(task)) return task.duration;
+    const o = task.optimistic!;
+    const m = task.mostLikely!;
+    const p = task.pessimistic!;
+    if (p <= o) return m;
+
+    switch (distribution) {
+        case 'uniform':
+            return o + random() * (p - o);
+        case 'beta-pert': {
+            const alpha = 1 + 4 * (m - o) / (p - o);
+            const beta = 1 + 4 * (p - m) / (p - o);
+            const x = sampleGamma(alpha, random);
+            const y = sampleGamma(beta, random);
+            return o + (x / (x + y)) * (p - o);
+        }
+        default: {
+            // Inverse CDF of the triangular distribution
+            const u = random();
+            const split = (m - o) / (p - o);
+            return u < split
+                ? o + Math.sqrt(u * (p - o) * (m - o))
+                : p - Math.sqrt((1 - u) * (p - o) * (p - m));
+        }
+    }
+};
+
+// Nearest-rank percentile of an ascending array
+export const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const rank = Math.min(sorted.length, Math.max(1, Math.ceil(p * sorted.length)));
+    return sorted[rank - 1];
+};
+
+export const buildHistogram = (sorted: number[], bins: number): HistogramBin[] => {
+    if (sorted.length === 0) return [];
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    if (max - min < 1e-9) return [{ start: min, end: max, count: sorted.length }];
+
+    const width = (max - min) / bins;
+    const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+        start: min + i * width,
+        end: min + (i + 1) * width,
+        count: 0
+    }));
+    sorted.forEach(value => {
+        histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count++;
+    });
+    return histogram;
+};
+
+/**
+ * Runs the CPM calculation repeatedly with sampled durations, scheduled from the same status date
+ * as the deterministic plan. `onProgress` is called every `progressInterval` iterations so a
+ * worker can report back.
+ */
+export const runMonteCarlo = (
+    tasks: Task[],
+    options: MonteCarloOptions,
+    cpmOptions: CPMOptions = {},
+    onProgress?: (completed: number) => void,
+    progressInterval = 250
+): MonteCarloResult => {
+    const baseline = calculateCPM(tasks, cpmOptions);
+    if (baseline.error) throw new Error(baseline.error);
+
+    const random = createRandom(options.seed);
+    const durations: number[] = [];
+    const criticalCounts = new Map<string, number>(tasks.map(t => [t.id, 0]));
+
+    for (let i = 0; i < options.iterations; i++) {
+        const sampled = tasks.map(t => ({ ...t, duration: sampleDuration(t, options.distribution, random) }));
+        const result = calculateCPM(sampled, cpmOptions);
+        durations.push(result.projectDuration);
+        result.processedTasks.forEach(t => {
+            if (t.isCritical) criticalCounts.set(t.id, (criticalCounts.get(t.id) || 0) + 1);
+        });
+        if (onProgress && (i + 1) % progressInterval === 0) onProgress(i + 1);
+    }
+
+    const sorted = [...durations].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, d) => sum + d, 0) / Math.max(1, sorted.length);
+    const variance = sorted.reduce((sum, d) => sum + Math.pow(d - mean, 2), 0) / Math.max(1, sorted.length);
+
+    const criticalityIndex: Record<string, number> = {};
+    criticalCounts.forEach((count, id) => {
+        criticalityIndex[id] = options.iterations > 0 ? count / options.iterations : 0;
+    });
+
+    return {
+        iterations: options.iterations,
+        deterministicDuration: baseline.projectDuration,
+        mean,
+        stdDev: Math.sqrt(variance),
+        min: sorted[0] ?? 0,
+        max: sorted[sorted.length - 1] ?? 0,
+        p50: percentile(sorted, 0.5),
+        p80: percentile(sorted, 0.8),
+        p95: percentile(sorted, 0.95),
+        histogram: buildHistogram(sorted, options.bins || 20),
+        criticalityIndex
+    };
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { exportMspdi, importMspdi } from './mspdi';
+import { Task, ScheduleSettings } from '../types';
+
+describe('mspdi', () => {
+    it('should round-trip tasks, links, hierarchy and assignments', () => {
+        const schedule: ScheduleSettings = {
+            startDate: '2025-03-03',
+            resources: [{ id: 'dev', name: 'Developer', type: 'work', maxUnits: 2, costRate: 400 }]
+        };
+        const tasks: Task[] = [
+            { id: 'P', name: 'Phase <1>', duration: 0, predecessors: [] },
+            { id: 'A', name: 'Design', duration: 2, predecessors: [], parentId: 'P', cost: 150 },
+            { id: 'B', name: 'Build', duration: 3.5, predecessors: [{ id: 'A', type: 'SS', lag: 1 }], parentId: 'P', resources: [{ resourceId: 'dev', units: 0.5 }] },
+            { id: 'C', name: 'Launch', duration: 0, predecessors: [{ id: 'P', type: 'FS', lag: 0 }], constraint: { type: 'FNLT', day: 10 } },
+        ];
+
+        const result = importMspdi(exportMspdi('Demo', tasks, schedule));
+
+        expect(result.name).toBe('Demo');
+        expect(result.startDate).toBe('2025-03-03');
+        expect(result.unmapped).toEqual([]);
+        expect(result.tasks.map(t => [t.id, t.name, t.duration, t.parentId])).toEqual([
+            ['1', 'Phase <1>', 4.5, undefined],
+            ['2', 'Design', 2, '1'],
+            ['3', 'Build', 3.5, '1'],
+            ['4', 'Launch', 0, undefined],
+        ]);
+        expect(result.tasks[1].cost).toBe(150);
+        expect(result.tasks[2].predecessors).toEqual([{ id: '2', type: 'SS', lag: 1 }]);
+        expect(result.tasks[3].predecessors).toEqual([{ id: '1', type: 'FS', lag: 0 }]);
+        expect(result.tasks[3].constraint).toEqual({ type: 'FNLT', day: 10 });
+        expect(result.resources).toMatchObject([{ name: 'Developer', type: 'work', maxUnits: 2, costRate: 400 }]);
+        expect(result.tasks[2].resources).toEqual([{ resourceId: result.resources[0].id, units: 0.5 }]);
+    });
+
+    it('should report what cannot be mapped', () => {
+        const xml = `<?xml version="1.0"?>
+            <Project xmlns="http://schemas.microsoft.com/project">
+                <MinutesPerDay>480</MinutesPerDay>
+                <Calendars><Calendar><UID>1</UID></Calendar></Calendars>
+                <Tasks>
+                    <Task><UID>0</UID><ID>0</ID><Name>Project</Name><OutlineLevel>0</OutlineLevel></Task>
+                    <Task><UID>7</UID><ID>1</ID><Name>Survey</Name><OutlineLevel>1</OutlineLevel><Duration>PT24H0M0S</Duration><ConstraintType>5</ConstraintType></Task>
+                    <Task><UID>9</UID><ID>2</ID><Name>Report</Name><OutlineLevel>1</OutlineLevel><Duration>PT8H0M0S</Duration>
+                        <PredecessorLink><PredecessorUID>7</PredecessorUID><Type>1</Type><LinkLag>500</LinkLag><LagFormat>19</LagFormat></PredecessorLink>
+                        <PredecessorLink><PredecessorUID>99</PredecessorUID><Type>1</Type></PredecessorLink>
+                    </Task>
+                </Tasks>
+                <Resources><Resource><UID>1</UID><Name>Travel</Name><Type>2</Type></Resource></Resources>
+                <Assignments><Assignment><UID>1</UID><TaskUID>7</TaskUID><ResourceUID>1</ResourceUID><Units>1</Units></Assignment></Assignments>
+            </Project>`;
+
+        const result = importMspdi(xml);
+
+        expect(result.tasks.map(t => [t.id, t.duration])).toEqual([['1', 3], ['2', 1]]);
+        expect(result.tasks[1].predecessors).toEqual([{ id: '1', type: 'FS', lag: 0 }]);
+        expect(result.resources).toEqual([]);
+        expect(result.unmapped).toHaveLength(6);
+        expect(result.unmapped.join('\n')).toContain('Start No Later Than');
+        expect(result.unmapped.join('\n')).toContain('percentage lag');
+        expect(result.unmapped.join('\n')).toContain('cost resources');
+    });
+
+    it('should reject files that are not Project XML', () => {
+        expect(() => importMspdi('<Workbook/>')).toThrow('Not a Microsoft Project XML file');
+        expect(() => importMspdi('not xml')).toThrow();
+    });
+});
@@ -0,0 +1,335 @@
+import { Task, Resource, ResourceAssignment, ScheduleSettings, PredecessorLink, DependencyType, ConstraintType } from '../types';
+import { toPredecessorLinks } from './dependencies';
+import { calculateCPM } from './cpmLogic';
+import { getTaskDates, workdayToDate, buildWorkdayDates, parseISODate, toISODate, DEFAULT_CALENDAR } from './calendar';
+import { getAncestors, computeWbsCodes, wbsOrder, buildChildrenMap } from './wbs';
+
+// Microsoft Project XML (MSPDI) interchange. Durations and lags are stored as working time, so a
+// working day is taken to be MinutesPerDay (8 hours unless the file says otherwise).
+
+const NAMESPACE = 'http://schemas.microsoft.com/project';
+const DEFAULT_MINUTES_PER_DAY = 480;
+
+// MSPDI link types are numbered FF, FS, SF, SS
+const LINK_TYPES: DependencyType[] = ['FF', 'FS', 'SF', 'SS'];
+
+// MSPDI constraint type numbers for the constraints the scheduler supports
+const CONSTRAINT_CODES: Record<ConstraintType, number> = { MSO: 2, MFO: 3, SNET: 4, FNLT: 7 };
+const UNSUPPORTED_CONSTRAINTS: Record<number, string> = {
+    1: 'As Late As Possible',
+    5: 'Start No Later Than',
+    6: 'Finish No Earlier Than'
+};
+
+// Duration formats for elapsed (calendar) time: em, eh, ed, ew, emo, e%
+const ELAPSED_FORMATS = new Set([4, 6, 8, 10, 12, 20]);
+const PERCENT_FORMATS = new Set([19, 20]);
+
+export interface MspdiImport {
+    name: string;
+    tasks: Task[];
+    resources: Resource[];
+    startDate?: string;
+    unmapped: string[]; // Everything in the file that has no equivalent on Task or Resource
+}
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const element = (name: string, value: string | number | undefined): string =>
+    value === undefined ? '' : `<${name}>${typeof value === 'number' ? value : escapeXml(value)}</${name}>`;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const formatDuration = (days: number, minutesPerDay: number) => {
+    const minutes = Math.round(days * minutesPerDay);
+    return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+};
+
+const parseDuration = (value: string, minutesPerDay: number): number => {
+    const match = value.match(/^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+    if (!match) return 0;
+    const [, d, h, m, s] = match.map(Number);
+    const minutes = (d || 0) * minutesPerDay + (h || 0) * 60 + (m || 0) + (s || 0) / 60;
+    return round(minutes / minutesPerDay);
+};
+
+// Working-day number of a calendar date, counted from the project start
+const dateToWorkday = (startDate: string, date: string, schedule: ScheduleSettings): number | null => {
+    const target = date.slice(0, 10);
+    if (target < startDate) return null;
+    const days = Math.round((parseISODate(target).getTime() - parseISODate(startDate).getTime()) / 86400000);
+    const index = buildWorkdayDates(startDate, days + 1, schedule.calendar || DEFAULT_CALENDAR).findIndex(d => toISODate(d) >= target);
+    return index === -1 ? null : index;
+};
+
+/**
+ * Serialises the task list and resource pool as an MSPDI document. Tasks are written in WBS order
+ * with outline levels, renumbered 1..n; with a project start date, dates, constraints and deadlines
+ * are included as well.
+ */
+export const exportMspdi = (name: string, tasks: Task[], schedule: ScheduleSettings): string => {
+    const minutesPerDay = DEFAULT_MINUTES_PER_DAY;
+    const ordered = wbsOrder(tasks);
+    const uid = new Map(ordered.map((t, i) => [t.id, i + 1]));
+    const children = buildChildrenMap(tasks);
+    const codes = computeWbsCodes(tasks);
+    const pool = schedule.resources || [];
+    const resourceUid = new Map(pool.map((r, i) => [r.id, i + 1]));
+
+    const result = schedule.startDate ? calculateCPM(tasks, { statusDate: schedule.statusDate }) : null;
+    const scheduled = new Map((result?.processedTasks || []).map(t => [t.id, t]));
+    const dateAt = (day: number, finish: boolean) => {
+        if (!schedule.startDate) return undefined;
+        const date = workdayToDate(schedule.startDate, finish ? Math.max(0, day - 1) : day, schedule.calendar || DEFAULT_CALENDAR);
+        return date ? `${toISODate(date)}T${finish ? '17' : '08'}:00:00` : undefined;
+    };
+
+    const taskXml = ordered.map((task, i) => {
+        const isSummary = children.has(task.id);
+        const done = scheduled.get(task.id);
+        const dates = done ? getTaskDates(done.es, done.ef, schedule) : null;
+        const links = toPredecessorLinks(task.predecessors).filter(l => uid.has(l.id)).map(link => `<PredecessorLink>${[
+            element('PredecessorUID', uid.get(link.id)),
+            element('Type', LINK_TYPES.indexOf(link.type)),
+            element('LinkLag', Math.round(link.lag * minutesPerDay * 10)),
+            element('LagFormat', 7)
+        ].join('')}</PredecessorLink>`);
+        const constraint = task.constraint && schedule.startDate ? task.constraint : undefined;
+        const isFinishConstraint = constraint?.type === 'FNLT' || constraint?.type === 'MFO';
+
+        return `<Task>${[
+            element('UID', i + 1),
+            element('ID', i + 1),
+            element('Name', task.name),
+            element('OutlineNumber', codes.get(task.id) || String(i + 1)),
+            element('OutlineLevel', getAncestors(task.id, tasks).length + 1),
+            element('Summary', isSummary ? 1 : 0),
+            element('Milestone', !isSummary && task.duration === 0 ? 1 : 0),
+            element('Start', dates ? `${toISODate(dates.start)}T08:00:00` : undefined),
+            // Milestones finish the moment they start
+            element('Finish', dates ? (done!.ef > done!.es ? `${toISODate(dates.finish)}T17:00:00` : `${toISODate(dates.start)}T08:00:00`) : undefined),
+            element('Duration', formatDuration(isSummary && done ? done.ef - done.es : task.duration, minutesPerDay)),
+            element('DurationFormat', 7),
+            element('FixedCost', task.cost),
+            element('PercentComplete', task.percentComplete),
+            element('ConstraintType', constraint ? CONSTRAINT_CODES[constraint.type] : 0),
+            element('ConstraintDate', constraint ? dateAt(constraint.day, isFinishConstraint) : undefined),
+            element('Deadline', task.deadline !== undefined ? dateAt(task.deadline, true) : undefined),
+            ...links
+        ].join('')}</Task>`;
+    });
+
+    const resourceXml = pool.map((resource, i) => `<Resource>${[
+        element('UID', i + 1),
+        element('ID', i + 1),
+        element('Name', resource.name),
+        element('Type', resource.type === 'material' ? 0 : 1),
+        element('MaxUnits', resource.maxUnits),
+        // Work rates are per hour; material rates per unit
+        element('StandardRate', resource.type === 'material' ? resource.costRate : round(resource.costRate * 60 / minutesPerDay)),
+        element('StandardRateFormat', resource.type === 'material' ? 7 : 2)
+    ].join('')}</Resource>`);
+
+    const assignmentXml = ordered.flatMap(task => (task.resources || [])
+        .filter(a => resourceUid.has(a.resourceId))
+        .map(a => ({ task, a })))
+        .map(({ task, a }, i) => `<Assignment>${[
+            element('UID', i + 1),
+            element('TaskUID', uid.get(task.id)),
+            element('ResourceUID', resourceUid.get(a.resourceId)),
+            element('Units', a.units)
+        ].join('')}</Assignment>`);
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        `<Project xmlns="${NAMESPACE}">`,
+        element('Name', name),
+        element('Title', name),
+        element('ScheduleFromStart', 1),
+        element('StartDate', schedule.startDate ? `${schedule.startDate}T08:00:00` : undefined),
+        element('MinutesPerDay', minutesPerDay),
+        element('MinutesPerWeek', minutesPerDay * 5),
+        element('DaysPerMonth', 20),
+        `<Tasks>${taskXml.join('')}</Tasks>`,
+        `<Resources>${resourceXml.join('')}</Resources>`,
+        `<Assignments>${assignmentXml.join('')}</Assignments>`,
+        '</Project>'
+    ].filter(line => line !== '').join('\n');
+};
+
+const childElements = (parent: Element | null | undefined, name: string): Element[] =>
+    parent ? Array.from(parent.children).filter(c => c.localName === name) : [];
+
+const childText = (parent: Element, name: string): string | undefined =>
+    childElements(parent, name)[0]?.textContent?.trim() || undefined;
+
+const childNumber = (parent: Element, name: string): number | undefined => {
+    const text = childText(parent, name);
+    return text === undefined || !Number.isFinite(Number(text)) ? undefined : Number(text);
+};
+
+/**
+ * Reads an MSPDI document into tasks and a resource pool. Task IDs are the row IDs shown in
+ * Microsoft Project; outline levels become summary tasks. Anything that cannot be represented is
+ * listed in `unmapped` rather than silently dropped.
+ */
+export const importMspdi = (xml: string): MspdiImport => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Project') {
+        throw new Error('Not a Microsoft Project XML file');
+    }
+
+    const unmapped: string[] = [];
+    const minutesPerDay = childNumber(root, 'MinutesPerDay') || DEFAULT_MINUTES_PER_DAY;
+    const startText = childText(root, 'StartDate');
+    const startDate = startText ? startText.slice(0, 10) : undefined;
+    const schedule: ScheduleSettings = { startDate };
+    const toDay = (date: string | undefined) => startDate && date ? dateToWorkday(startDate, date, schedule) : null;
+
+    if (childElements(childElements(root, 'Calendars')[0], 'Calendar').length > 0) {
+        unmapped.push('Calendars: working time is not imported; the Monday–Friday week is used');
+    }
+
+    // Resources
+    const resourceIds = new Map<string, string>(); // MSPDI UID -> pool ID
+    const resources: Resource[] = [];
+    childElements(childElements(root, 'Resources')[0], 'Resource').forEach(el => {
+        const uid = childText(el, 'UID');
+        const name = childText(el, 'Name');
+        if (!uid || !name) return; // The unnamed UID 0 resource is a placeholder
+        const type = childNumber(el, 'Type') ?? 1;
+        if (type === 2) {
+            unmapped.push(`Resource "${name}": cost resources are not supported`);
+            return;
+        }
+        const rate = childNumber(el, 'StandardRate') || 0;
+        const resource: Resource = {
+            id: crypto.randomUUID(),
+            name,
+            type: type === 0 ? 'material' : 'work',
+            maxUnits: childNumber(el, 'MaxUnits') ?? 1,
+            costRate: type === 0 ? rate : round(rate * minutesPerDay / 60)
+        };
+        resourceIds.set(uid, resource.id);
+        resources.push(resource);
+    });
+
+    // Tasks
+    const taskIds = new Map<string, string>(); // MSPDI UID -> task ID
+    const taskElements = childElements(childElements(root, 'Tasks')[0], 'Task').filter(el => {
+        const name = childText(el, 'Name');
+        if (childText(el, 'IsNull') === '1') return false;
+        // The project summary task (outline level 0) is the project itself
+        if (childNumber(el, 'OutlineLevel') === 0 || childText(el, 'UID') === '0') return false;
+        if (childText(el, 'Active') === '0') unmapped.push(`Task "${name}": inactive tasks are imported as active`);
+        return true;
+    });
+    taskElements.forEach((el, i) => {
+        taskIds.set(childText(el, 'UID') || String(i), childText(el, 'ID') || String(i + 1));
+    });
+
+    const parents: string[] = []; // Task ID at each outline level
+    const tasks: Task[] = taskElements.map((el, i) => {
+        const id = taskIds.get(childText(el, 'UID') || String(i))!;
+        const name = childText(el, 'Name') || `Task ${id}`;
+        const label = `Task ${id} "${name}"`;
+        const level = childNumber(el, 'OutlineLevel') || 1;
+        parents.length = level - 1;
+        const parentId = parents[level - 2];
+        parents[level - 1] = id;
+
+        const durationFormat = childNumber(el, 'DurationFormat');
+        if (durationFormat !== undefined && ELAPSED_FORMATS.has(durationFormat)) {
+            unmapped.push(`${label}: elapsed duration treated as working days`);
+        }
+
+        const predecessors: PredecessorLink[] = childElements(el, 'PredecessorLink').flatMap(link => {
+            const predecessorId = taskIds.get(childText(link, 'PredecessorUID') || '');
+            if (!predecessorId) {
+                unmapped.push(`${label}: link to a task outside this file was dropped`);
+                return [];
+            }
+            const lagFormat = childNumber(link, 'LagFormat');
+            let lag = round((childNumber(link, 'LinkLag') || 0) / 10 / minutesPerDay);
+            if (lagFormat !== undefined && PERCENT_FORMATS.has(lagFormat)) {
+                unmapped.push(`${label}: percentage lag on the link from ${predecessorId} was dropped`);
+                lag = 0;
+            } else if (lagFormat !== undefined && ELAPSED_FORMATS.has(lagFormat)) {
+                unmapped.push(`${label}: elapsed lag on the link from ${predecessorId} treated as working days`);
+            }
+            return [{ id: predecessorId, type: LINK_TYPES[childNumber(link, 'Type') ?? 1] || 'FS', lag }];
+        });
+
+        const task: Task = {
+            id,
+            name,
+            duration: parseDuration(childText(el, 'Duration') || 'PT0H0M0S', minutesPerDay),
+            predecessors,
+            ...(parentId ? { parentId } : {})
+        };
+
+        const cost = childNumber(el, 'FixedCost');
+        if (cost) task.cost = cost;
+        const percentComplete = childNumber(el, 'PercentComplete');
+        if (percentComplete) task.percentComplete = percentComplete;
+
+        const constraintType = childNumber(el, 'ConstraintType') || 0;
+        const supported = (Object.keys(CONSTRAINT_CODES) as ConstraintType[]).find(c => CONSTRAINT_CODES[c] === constraintType);
+        if (supported) {
+            const date = childText(el, 'ConstraintDate');
+            const isFinish = supported === 'FNLT' || supported === 'MFO';
+            const day = toDay(date);
+            if (day === null) unmapped.push(`${label}: ${supported} constraint needs a project start date on or before ${date?.slice(0, 10) || 'its date'}`);
+            else task.constraint = { type: supported, day: isFinish ? day + 1 : day };
+        } else if (UNSUPPORTED_CONSTRAINTS[constraintType]) {
+            unmapped.push(`${label}: "${UNSUPPORTED_CONSTRAINTS[constraintType]}" constraint is not supported`);
+        }
+
+        const deadline = childText(el, 'Deadline');
+        if (deadline) {
+            const day = toDay(deadline);
+            if (day === null) unmapped.push(`${label}: deadline ${deadline.slice(0, 10)} is before the project start`);
+            else task.deadline = day + 1;
+        }
+
+        if (childText(el, 'ActualStart') || childText(el, 'ActualFinish')) {
+            unmapped.push(`${label}: actual dates are not imported, only percent complete`);
+        }
+        if (childText(el, 'Recurring') === '1') unmapped.push(`${label}: recurrence is not imported`);
+        return task;
+    });
+
+    // Assignments
+    const taskById = new Map(tasks.map(t => [t.id, t]));
+    const summaryIds = new Set(tasks.map(t => t.parentId));
+    childElements(childElements(root, 'Assignments')[0], 'Assignment').forEach(el => {
+        const task = taskById.get(taskIds.get(childText(el, 'TaskUID') || '') || '');
+        const resourceUid = childText(el, 'ResourceUID');
+        const resourceId = resourceIds.get(resourceUid || '');
+        // Resource UID -65535 marks a task without assignments
+        if (!task || resourceUid === '-65535') return;
+        if (!resourceId) {
+            unmapped.push(`Task ${task.id} "${task.name}": assignment to an unsupported or missing resource was dropped`);
+            return;
+        }
+        if (summaryIds.has(task.id)) {
+            unmapped.push(`Task ${task.id} "${task.name}": assignments on summary tasks are not supported`);
+            return;
+        }
+        const assignment: ResourceAssignment = { resourceId, units: childNumber(el, 'Units') ?? 1 };
+        task.resources = [...(task.resources || []), assignment];
+    });
+
+    return {
+        name: childText(root, 'Title') || childText(root, 'Name') || 'Imported project',
+        tasks,
+        resources,
+        startDate,
+        unmapped
+    };
+};
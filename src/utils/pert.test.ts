@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { hasThreePointEstimate, pertEstimate, normalCdf, probabilityOfMeeting } from './pert';
+import { Task } from '../types';
+
+const task: Task = { id: 'A', name: 'Design', duration: 5, predecessors: [], optimistic: 2, mostLikely: 4, pessimistic: 12 };
+
+describe('pert', () => {
+    it('should weight the most likely estimate four times', () => {
+        const { expected, variance } = pertEstimate(task);
+
+        expect(hasThreePointEstimate(task)).toBe(true);
+        expect(expected).toBeCloseTo(5); // (2 + 16 + 12) / 6
+        expect(variance).toBeCloseTo(25 / 9); // ((12 - 2) / 6)²
+    });
+
+    it('should treat tasks without a full estimate as deterministic', () => {
+        const partial = { ...task, pessimistic: undefined };
+
+        expect(hasThreePointEstimate(partial)).toBe(false);
+        expect(pertEstimate(partial)).toEqual({ expected: 5, variance: 0 });
+    });
+
+    it('should follow the standard normal distribution', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+        expect(normalCdf(1)).toBeCloseTo(0.8413, 4);
+        expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+    });
+
+    it('should give the probability of meeting a target duration', () => {
+        expect(probabilityOfMeeting(20, 20, 3)).toBeCloseTo(0.5, 6);
+        expect(probabilityOfMeeting(23, 20, 3)).toBeCloseTo(0.8413, 4);
+        expect(probabilityOfMeeting(14, 20, 3)).toBeCloseTo(0.0228, 4);
+        // Without any spread the target is either met or missed
+        expect(probabilityOfMeeting(20, 20, 0)).toBe(1);
+        expect(probabilityOfMeeting(19, 20, 0)).toBe(0);
+    });
+});
@@ -0,0 +1,39 @@
+import { Task } from '../types';
+
+export const hasThreePointEstimate = (task: Task): boolean =>
+    task.optimistic !== undefined && task.mostLikely !== undefined && task.pessimistic !== undefined;
+
+/**
+ * Beta-PERT expected duration and variance: te = (o + 4m + p) / 6, var = ((p - o) / 6)^2.
+ * Tasks without a three-point estimate are treated as deterministic.
+ */
+export const pertEstimate = (task: Task): { expected: number; variance: number } => {
+    if (!hasThreePointEstimate(task)) return { expected: task.duration, variance: 0 };
+    const o = task.optimistic!;
+    const m = task.mostLikely!;
+    const p = task.pessimistic!;
+    return {
+        expected: (o + 4 * m + p) / 6,
+        variance: Math.pow((p - o) / 6, 2)
+    };
+};
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1.5e-7
+const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const ax = Math.abs(x);
+    const t = 1 / (1 + 0.3275911 * ax);
+    const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+    return sign * y;
+};
+
+export const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+/**
+ * Probability of finishing by `target` when the project duration is approximately
+ * normal with the given mean and standard deviation (central limit theorem over the critical path).
+ */
+export const probabilityOfMeeting = (target: number, mean: number, stdDev: number): number => {
+    if (stdDev <= 0) return target >= mean ? 1 : 0;
+    return normalCdf((target - mean) / stdDev);
+};
@@ -0,0 +1,252 @@
+import { LayoutNode, ProcessedTask, PredecessorLink, ScheduleSettings } from '../types';
+import { isDrivingLink, isNearCritical } from './cpmLogic';
+import { formatLinkLabel } from './dependencies';
+import { buildWorkdayDates, formatDate, DEFAULT_CALENDAR } from './calendar';
+import { buildChildrenMap, outlineRows, displayLinks } from './wbs';
+
+// Device-independent drawings of the network and Gantt, rendered to SVG or PDF by vectorExport.
+// Coordinates are in CSS pixels at 100%; text y is the baseline.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type Shape =
+    | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; strokeWidth?: number; radius?: number; dash?: number[] }
+    | { kind: 'circle'; cx: number; cy: number; r: number; fill?: string; stroke?: string; strokeWidth?: number }
+    | { kind: 'line'; points: Point[]; stroke: string; strokeWidth?: number; dash?: number[] }
+    | { kind: 'polygon'; points: Point[]; fill: string }
+    | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; bold?: boolean; align?: 'left' | 'center' | 'right' };
+
+export interface Drawing {
+    width: number;
+    height: number;
+    shapes: Shape[];
+}
+
+const COLORS = {
+    critical: '#dc2626',
+    nearCritical: '#d97706',
+    normal: '#3b82f6',
+    link: '#94a3b8',
+    text: '#1e293b',
+    muted: '#64748b',
+    grid: '#e2e8f0'
+};
+
+const MARGIN = 40;
+const NODE_RADIUS = 90;
+const ARROW_SIZE = 8;
+
+/** Filled arrowhead with its tip at `to`, pointing away from `from`. */
+const arrowhead = (from: Point, to: Point, color: string): Shape => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const corner = (offset: number) => ({
+        x: to.x - ARROW_SIZE * Math.cos(angle + offset),
+        y: to.y - ARROW_SIZE * Math.sin(angle + offset)
+    });
+    return { kind: 'polygon', points: [to, corner(Math.PI / 7), corner(-Math.PI / 7)], fill: color };
+};
+
+/** Splits a name into at most `maxLines` lines of roughly `width` characters, ending in an ellipsis if cut. */
+const wrapText = (text: string, width: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && (current + ' ' + word).length > width) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    if (lines.length <= maxLines) return lines.map(l => l.length > width ? l.slice(0, width - 1) + '…' : l);
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = kept[maxLines - 1].slice(0, width - 1) + '…';
+    return kept;
+};
+
+/** Samples a cubic Bézier curve as a polyline. */
+const bezier = (p0: Point, p1: Point, p2: Point, p3: Point, steps = 16): Point[] =>
+    Array.from({ length: steps + 1 }, (_, i) => {
+        const t = i / steps;
+        const u = 1 - t;
+        return {
+            x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+            y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+        };
+    });
+
+const linkLabel = (point: Point, link: PredecessorLink, color: string): Shape[] => {
+    const label = formatLinkLabel(link);
+    if (!label) return [];
+    const width = label.length * 6 + 8;
+    return [
+        { kind: 'rect', x: point.x - width / 2, y: point.y - 8, width, height: 14, fill: '#ffffff', radius: 3 },
+        { kind: 'text', x: point.x, y: point.y + 3, text: label, size: 10, color, bold: true, align: 'center' }
+    ];
+};
+
+/**
+ * The activity-on-node network as laid out on screen: circles with ID, name, duration, early dates
+ * and slack, and curved links leaving from the finish (right) or start (left) side by link type.
+ */
+export const buildNetworkDrawing = (nodes: LayoutNode[], nearCriticalThreshold: number): Drawing => {
+    if (nodes.length === 0) return { width: 2 * MARGIN, height: 2 * MARGIN, shapes: [] };
+    const minX = Math.min(...nodes.map(n => n.x));
+    const minY = Math.min(...nodes.map(n => n.y));
+    const center = (node: LayoutNode): Point => ({ x: node.x - minX + MARGIN + NODE_RADIUS, y: node.y - minY + MARGIN + NODE_RADIUS });
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const shapes: Shape[] = [];
+
+    // Links first so the nodes sit on top of them
+    nodes.forEach(node => node.predecessors.forEach(link => {
+        const pred = byId.get(link.id);
+        if (!pred || pred.id === node.id) return;
+        const driving = isDrivingLink(pred, node, link);
+        const color = node.isCritical && pred.isCritical && driving ? COLORS.critical
+            : driving && (pred.isCritical || isNearCritical(pred, nearCriticalThreshold)) && (node.isCritical || isNearCritical(node, nearCriticalThreshold)) ? COLORS.nearCritical
+                : COLORS.link;
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toFinish = link.type === 'FF' || link.type === 'SF';
+        const a = center(pred);
+        const b = center(node);
+        const start = { x: a.x + (fromStart ? -NODE_RADIUS : NODE_RADIUS), y: a.y };
+        const end = { x: b.x + (toFinish ? NODE_RADIUS : -NODE_RADIUS), y: b.y };
+        const bend = Math.max(40, Math.abs(end.x - start.x) / 2);
+        const points = bezier(
+            start,
+            { x: start.x + (fromStart ? -bend : bend), y: start.y },
+            { x: end.x + (toFinish ? bend : -bend), y: end.y },
+            end
+        );
+        shapes.push({ kind: 'line', points, stroke: color, strokeWidth: 2 });
+        shapes.push(arrowhead(points[points.length - 2], end, color));
+        shapes.push(...linkLabel(points[Math.floor(points.length / 2)], link, color));
+    }));
+
+    nodes.forEach(node => {
+        const c = center(node);
+        const isEnd = node.type === 'end';
+        const stroke = node.type === 'start' ? '#10b981' : isEnd ? COLORS.text
+            : node.isCritical ? COLORS.critical : isNearCritical(node, nearCriticalThreshold) ? COLORS.nearCritical : '#cbd5e1';
+        const textColor = isEnd ? '#ffffff' : COLORS.text;
+        shapes.push({ kind: 'circle', cx: c.x, cy: c.y, r: NODE_RADIUS, fill: isEnd ? COLORS.text : '#ffffff', stroke, strokeWidth: 3 });
+        shapes.push({ kind: 'text', x: c.x, y: c.y - 56, text: `ID: ${node.id}`, size: 10, color: isEnd ? '#cbd5e1' : COLORS.muted, bold: true, align: 'center' });
+        const lines = wrapText(node.name, 18, 2);
+        lines.forEach((line, i) => shapes.push({
+            kind: 'text', x: c.x, y: c.y - 18 + (i - (lines.length - 1) / 2) * 16, text: line, size: 14, color: textColor, bold: true, align: 'center'
+        }));
+        shapes.push({ kind: 'text', x: c.x, y: c.y + 14, text: `${node.duration} days`, size: 11, color: isEnd ? '#cbd5e1' : COLORS.muted, align: 'center' });
+        shapes.push({ kind: 'line', points: [{ x: c.x - 60, y: c.y + 26 }, { x: c.x + 60, y: c.y + 26 }], stroke: isEnd ? '#475569' : COLORS.grid, strokeWidth: 1 });
+        shapes.push({ kind: 'text', x: c.x, y: c.y + 44, text: `ES ${node.es}   EF ${node.ef}`, size: 11, color: textColor, align: 'center' });
+        shapes.push({ kind: 'text', x: c.x, y: c.y + 62, text: `Slack ${node.slack}`, size: 11, color: node.isCritical ? COLORS.critical : textColor, bold: node.isCritical, align: 'center' });
+    });
+
+    return {
+        width: Math.max(...nodes.map(n => n.x)) - minX + 2 * (MARGIN + NODE_RADIUS),
+        height: Math.max(...nodes.map(n => n.y)) - minY + 2 * (MARGIN + NODE_RADIUS),
+        shapes
+    };
+};
+
+const GANTT_LABEL_WIDTH = 260;
+const GANTT_HEADER_HEIGHT = 40;
+const GANTT_ROW_HEIGHT = 26;
+const GANTT_DAY_WIDTH = 24;
+
+/**
+ * The Gantt chart in outline order: a label column with IDs and indented names, a two-tier
+ * timescale (months and dates when the project has a start date, weeks of five working days and
+ * day numbers otherwise), bars coloured by criticality, summary brackets, milestone diamonds,
+ * dashed float tails and elbow arrows for the links.
+ */
+export const buildGanttDrawing = (tasks: ProcessedTask[], schedule: ScheduleSettings = {}, nearCriticalThreshold = 0): Drawing => {
+    const rows = outlineRows(tasks).filter(({ task }) => task.type !== 'start' && task.type !== 'end');
+    const children = buildChildrenMap(tasks);
+    const days = Math.max(1, Math.ceil(Math.max(0, ...rows.map(({ task }) => task.ef + Math.max(0, task.slack)))) + 1);
+    const dates = schedule.startDate ? buildWorkdayDates(schedule.startDate, days, schedule.calendar || DEFAULT_CALENDAR) : null;
+    const width = GANTT_LABEL_WIDTH + days * GANTT_DAY_WIDTH;
+    const height = GANTT_HEADER_HEIGHT + rows.length * GANTT_ROW_HEIGHT;
+    const dayX = (day: number) => GANTT_LABEL_WIDTH + day * GANTT_DAY_WIDTH;
+    const rowY = new Map(rows.map(({ task }, i) => [task.id, GANTT_HEADER_HEIGHT + i * GANTT_ROW_HEIGHT]));
+    const shapes: Shape[] = [];
+    const gridLine = (x1: number, y1: number, x2: number, y2: number): Shape =>
+        ({ kind: 'line', points: [{ x: x1, y: y1 }, { x: x2, y: y2 }], stroke: COLORS.grid, strokeWidth: 1 });
+
+    // Timescale: the upper tier labels each month (or week) where it starts
+    shapes.push({ kind: 'rect', x: 0, y: 0, width, height: GANTT_HEADER_HEIGHT, fill: '#f8fafc' });
+    for (let day = 0; day < days; day++) {
+        const x = dayX(day);
+        const date = dates?.[day];
+        const startsGroup = dates ? day === 0 || date!.getUTCMonth() !== dates[day - 1].getUTCMonth() : day % 5 === 0;
+        if (startsGroup) {
+            shapes.push(gridLine(x, 0, x, height));
+            shapes.push({ kind: 'text', x: x + 4, y: 14, text: date ? formatDate(date, { month: 'short', year: 'numeric', timeZone: 'UTC' }) : `Week ${day / 5 + 1}`, size: 10, color: COLORS.text, bold: true });
+        } else {
+            shapes.push(gridLine(x, GANTT_HEADER_HEIGHT / 2, x, GANTT_HEADER_HEIGHT));
+        }
+        shapes.push({ kind: 'text', x: x + GANTT_DAY_WIDTH / 2, y: 34, text: date ? String(date.getUTCDate()) : String(day), size: 9, color: COLORS.muted, align: 'center' });
+    }
+    shapes.push(gridLine(GANTT_LABEL_WIDTH, GANTT_HEADER_HEIGHT / 2, width, GANTT_HEADER_HEIGHT / 2));
+    shapes.push(gridLine(0, GANTT_HEADER_HEIGHT, width, GANTT_HEADER_HEIGHT));
+    shapes.push(gridLine(GANTT_LABEL_WIDTH, 0, GANTT_LABEL_WIDTH, height));
+    shapes.push({ kind: 'text', x: 8, y: 34, text: 'Task', size: 10, color: COLORS.text, bold: true });
+
+    rows.forEach(({ task, depth }) => {
+        const y = rowY.get(task.id)!;
+        const middle = y + GANTT_ROW_HEIGHT / 2;
+        const isSummary = children.has(task.id);
+        const color = task.isCritical ? COLORS.critical : isNearCritical(task, nearCriticalThreshold) ? COLORS.nearCritical : COLORS.normal;
+        const left = dayX(task.es);
+        const right = dayX(task.ef);
+        shapes.push(gridLine(0, y + GANTT_ROW_HEIGHT, width, y + GANTT_ROW_HEIGHT));
+        shapes.push({ kind: 'text', x: 8, y: middle + 4, text: task.id, size: 10, color: COLORS.muted });
+        shapes.push({
+            kind: 'text', x: 52 + depth * 12, y: middle + 4, text: wrapText(task.name, Math.floor((GANTT_LABEL_WIDTH - 60 - depth * 12) / 6.5), 1)[0] || '',
+            size: 11, color: COLORS.text, bold: isSummary
+        });
+
+        if (isSummary) {
+            const barColor = task.isCritical ? COLORS.critical : COLORS.text;
+            shapes.push({ kind: 'rect', x: left, y: middle - 5, width: Math.max(right - left, 2), height: 5, fill: barColor });
+            [left, right].forEach(x => shapes.push({ kind: 'polygon', points: [{ x: x - 5, y: middle }, { x: x + 5, y: middle }, { x, y: middle + 6 }], fill: barColor }));
+        } else if (task.duration === 0) {
+            shapes.push({ kind: 'polygon', points: [{ x: left, y: middle - 7 }, { x: left + 7, y: middle }, { x: left, y: middle + 7 }, { x: left - 7, y: middle }], fill: color });
+            shapes.push({ kind: 'text', x: left + 10, y: middle + 4, text: task.name, size: 10, color: COLORS.muted });
+        } else {
+            shapes.push({ kind: 'rect', x: left, y: middle - 8, width: Math.max(right - left, 2), height: 16, fill: color, radius: 3 });
+            if (right - left > 30) shapes.push({ kind: 'text', x: left + 5, y: middle + 4, text: `${task.duration}d`, size: 10, color: '#ffffff' });
+        }
+        if (!isSummary && task.slack > 0) {
+            shapes.push({ kind: 'line', points: [{ x: right, y: middle }, { x: dayX(task.ef + task.slack), y: middle }], stroke: COLORS.muted, strokeWidth: 1, dash: [3, 3] });
+        }
+    });
+
+    // Links: leave the finish (or start) of the predecessor, enter the start (or finish) of the successor
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    rows.forEach(({ task }) => displayLinks(task).forEach(link => {
+        const pred = byId.get(link.id);
+        if (!pred || !rowY.has(pred.id) || pred.id === task.id) return;
+        const fromStart = link.type === 'SS' || link.type === 'SF';
+        const toFinish = link.type === 'FF' || link.type === 'SF';
+        const sy = rowY.get(pred.id)! + GANTT_ROW_HEIGHT / 2;
+        const ty = rowY.get(task.id)! + GANTT_ROW_HEIGHT / 2;
+        const sx = dayX(fromStart ? pred.es : pred.ef);
+        const tx = dayX(toFinish ? task.ef : task.es);
+        const exitX = sx + (fromStart ? -6 : 6);
+        const entryX = tx + (toFinish ? 6 : -6);
+        const fits = toFinish ? exitX >= entryX : exitX <= entryX;
+        const corridor = ty + (ty > sy ? -1 : 1) * GANTT_ROW_HEIGHT / 2;
+        const points = fits
+            ? [{ x: sx, y: sy }, { x: exitX, y: sy }, { x: exitX, y: ty }, { x: tx, y: ty }]
+            : [{ x: sx, y: sy }, { x: exitX, y: sy }, { x: exitX, y: corridor }, { x: entryX, y: corridor }, { x: entryX, y: ty }, { x: tx, y: ty }];
+        const color = task.isCritical && pred.isCritical && isDrivingLink(pred, task, link) ? COLORS.critical : COLORS.link;
+        shapes.push({ kind: 'line', points, stroke: color, strokeWidth: 1 });
+        shapes.push(arrowhead(points[points.length - 2], points[points.length - 1], color));
+    }));
+
+    return { width, height, shapes };
+};
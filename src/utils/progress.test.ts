@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { isComplete, isInProgress, percentComplete, remainingDuration, actualSchedule } from './progress';
+import { calculateCPM } from './cpmLogic';
+import { Task } from '../types';
+
+const task: Task = { id: 'A', name: 'Build', duration: 10, predecessors: [] };
+
+describe('progress', () => {
+    it('should keep the actual dates of completed tasks', () => {
+        const done = { ...task, actualStart: 2, actualFinish: 9 };
+
+        expect(isComplete(done)).toBe(true);
+        expect(isComplete({ ...task, percentComplete: 100 })).toBe(true);
+        expect(percentComplete(done)).toBe(100);
+        expect(remainingDuration(done)).toBe(0);
+        // The status date does not move finished work
+        expect(actualSchedule(done, 0, 20)).toEqual({ es: 2, ef: 9 });
+        expect(actualSchedule({ ...task, percentComplete: 100 }, 3, 20)).toEqual({ es: 3, ef: 13 });
+    });
+
+    it('should finish in-progress tasks from the status date', () => {
+        const started = { ...task, actualStart: 1, percentComplete: 40 };
+
+        expect(isInProgress(started)).toBe(true);
+        expect(remainingDuration(started)).toBe(6);
+        // Four days worked by day 5, but the status date is day 8: the remaining six start there
+        expect(actualSchedule(started, 0, 8)).toEqual({ es: 1, ef: 14 });
+        // A status date before the work done so far does not pull the finish in
+        expect(actualSchedule(started, 0, 3)).toEqual({ es: 1, ef: 11 });
+        expect(actualSchedule(started, 0)).toEqual({ es: 1, ef: 11 });
+        // An explicit remaining duration wins over percent complete
+        expect(actualSchedule({ ...started, remainingDuration: 2 }, 0, 8)).toEqual({ es: 1, ef: 10 });
+    });
+
+    it('should leave tasks that have not started to the schedule, after the status date', () => {
+        expect(isInProgress(task)).toBe(false);
+        expect(remainingDuration(task)).toBe(10);
+        expect(actualSchedule(task, 0, 8)).toBeNull();
+
+        const { processedTasks } = calculateCPM([task], { statusDate: 8 });
+        expect(processedTasks.find(t => t.id === 'A')).toMatchObject({ es: 8, ef: 18 });
+    });
+});
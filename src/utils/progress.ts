@@ -0,0 +1,38 @@
+import { Task } from '../types';
+
+export const isComplete = (task: Task): boolean =>
+    task.actualFinish !== undefined || (task.percentComplete ?? 0) >= 100;
+
+export const isInProgress = (task: Task): boolean =>
+    !isComplete(task) && (task.actualStart !== undefined || (task.percentComplete ?? 0) > 0);
+
+export const percentComplete = (task: Task): number => {
+    if (isComplete(task)) return 100;
+    return Math.min(100, Math.max(0, task.percentComplete ?? 0));
+};
+
+/**
+ * Days of work left: an explicit remaining duration wins, otherwise it follows from percent complete.
+ */
+export const remainingDuration = (task: Task): number => {
+    if (isComplete(task)) return 0;
+    if (task.remainingDuration !== undefined) return Math.max(0, task.remainingDuration);
+    return task.duration * (1 - percentComplete(task) / 100);
+};
+
+/**
+ * Fixed dates for work that has started. Completed tasks keep their actual dates; tasks in progress
+ * keep their actual start and finish the remaining work counted from the status date (or from where
+ * the work done so far leaves them, if that is later). Returns null for tasks that have not started.
+ */
+export const actualSchedule = (task: Task, plannedStart: number, statusDate?: number): { es: number; ef: number } | null => {
+    if (isComplete(task)) {
+        const es = task.actualStart ?? plannedStart;
+        return { es, ef: task.actualFinish ?? es + task.duration };
+    }
+    if (!isInProgress(task)) return null;
+
+    const es = task.actualStart ?? plannedStart;
+    const workedUntil = es + task.duration * percentComplete(task) / 100;
+    return { es, ef: Math.max(workedUntil, statusDate ?? workedUntil) + remainingDuration(task) };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { migrateProject, CURRENT_SCHEMA_VERSION, StoredProject } from './projectMigration';
+import { EXAMPLE_PROJECT_ID, EXAMPLE_STRUCTURED_ANALYSIS, EXAMPLE_INFORMATION_ENGINEERING } from './exampleProjects';
+import { Task } from '../types';
+
+const legacyProject = (tasks: unknown[], schemaVersion?: number): StoredProject => ({
+    id: 'p1',
+    name: 'Old save',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    taskCount: tasks.length,
+    data: tasks as Task[],
+    ...(schemaVersion === undefined ? {} : { schemaVersion })
+});
+
+describe('projectMigration', () => {
+    it('should upgrade unversioned exports through every migration', () => {
+        const project = migrateProject(legacyProject([
+            { id: 'A', name: 'Design', duration: 2, predecessors: [], resources: ['Alice'] },
+            { id: 'B', name: 'Build', duration: 3, predecessors: ['A'], resources: ['alice', 'Bob'] },
+        ]));
+
+        expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(project.data[1].predecessors).toEqual([{ id: 'A', type: 'FS', lag: 0 }]);
+        expect(project.schedule?.resources?.map(r => r.name)).toEqual(['Alice', 'Bob']);
+        const [alice, bob] = project.schedule!.resources!;
+        expect(project.data[1].resources).toEqual([{ resourceId: alice.id, units: 1 }, { resourceId: bob.id, units: 1 }]);
+    });
+
+    it('should only run the migrations after the stored version', () => {
+        // Version 1 data already has typed links; a stray string is left for the resource step only
+        const project = migrateProject(legacyProject([
+            { id: 'A', name: 'Design', duration: 2, predecessors: [{ id: 'B', type: 'SS', lag: 2 }], resources: ['Alice'] },
+        ], 1));
+
+        expect(project.data[0].predecessors).toEqual([{ id: 'B', type: 'SS', lag: 2 }]);
+        expect(project.schedule?.resources).toHaveLength(1);
+        expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should backfill the analysis content of older example project saves', () => {
+        const custom = { ...EXAMPLE_STRUCTURED_ANALYSIS, dfds: [] };
+        const example = migrateProject({ ...legacyProject([], 2), id: EXAMPLE_PROJECT_ID, structuredAnalysis: custom });
+
+        expect(example.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        // What the user already has is kept; only missing sections are filled in
+        expect(example.structuredAnalysis).toBe(custom);
+        expect(example.informationEngineering).toBe(EXAMPLE_INFORMATION_ENGINEERING);
+
+        const other = migrateProject(legacyProject([], 2));
+        expect(other.structuredAnalysis).toBeUndefined();
+        expect(other.informationEngineering).toBeUndefined();
+    });
+
+    it('should leave current and newer projects unchanged', () => {
+        const tasks = [{ id: 'A', name: 'Design', duration: 2, predecessors: [] }];
+        const current = legacyProject(tasks, CURRENT_SCHEMA_VERSION);
+        expect(migrateProject(current)).toEqual(current);
+        expect(migrateProject(legacyProject(tasks, CURRENT_SCHEMA_VERSION + 1)).schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+    });
+});
@@ -0,0 +1,38 @@
+import { Project } from '../types';
+import { migrateTasks } from './dependencies';
+import { migrateLegacyResources } from './resources';
+import { EXAMPLE_PROJECT_ID, EXAMPLE_STRUCTURED_ANALYSIS, EXAMPLE_INFORMATION_ENGINEERING } from './exampleProjects';
+
+/** Schema version written with every project. Bump it together with a new entry in MIGRATIONS. */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// A project as stored or exported by any version of the app; data from before versioning has no schemaVersion (version 0)
+export type StoredProject = Omit<Project, 'schemaVersion'> & { schemaVersion?: number };
+
+// MIGRATIONS[n] upgrades a project from schema version n to n + 1
+const MIGRATIONS: ((project: StoredProject) => StoredProject)[] = [
+    // 0 → 1: plain predecessor IDs become typed finish-to-start links
+    project => ({ ...project, data: migrateTasks(project.data || []) }),
+    // 1 → 2: free-text resource names on tasks move into the project's resource pool
+    project => {
+        const { tasks, pool } = migrateLegacyResources(project.data, project.schedule?.resources);
+        return { ...project, data: tasks, schedule: pool.length > 0 ? { ...project.schedule, resources: pool } : project.schedule };
+    },
+    // 2 → 3: saves of the example project from before it had analysis content get the example diagrams
+    project => project.id !== EXAMPLE_PROJECT_ID ? project : {
+        ...project,
+        structuredAnalysis: project.structuredAnalysis ?? EXAMPLE_STRUCTURED_ANALYSIS,
+        informationEngineering: project.informationEngineering ?? EXAMPLE_INFORMATION_ENGINEERING
+    }
+];
+
+/**
+ * Upgrades a stored or imported project to the current schema by running the migrations after
+ * its version in order. Projects written by a newer version of the app are returned unchanged.
+ */
+export const migrateProject = (project: StoredProject): Project => {
+    const version = project.schemaVersion ?? 0;
+    if (version >= CURRENT_SCHEMA_VERSION) return { ...project, schemaVersion: version };
+    const upgraded = MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), project);
+    return { ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
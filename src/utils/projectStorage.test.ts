@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { CURRENT_SCHEMA_VERSION } from './projectMigration';
+import { Project } from '../types';
+
+const LEGACY_KEY = 'pathfinder_projects';
+
+const project = (id: string, createdAt: string): Project => ({
+    id,
+    name: `Project ${id}`,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt,
+    updatedAt: createdAt,
+    taskCount: 1,
+    data: [{ id: 'A', name: 'Design', duration: 2, predecessors: [] }]
+});
+
+// The module keeps its database connection, so each test loads a fresh copy against a fresh factory
+const loadStorage = async (indexedDB: IDBFactory | undefined) => {
+    vi.stubGlobal('indexedDB', indexedDB);
+    vi.resetModules();
+    return import('./projectStorage');
+};
+
+describe('projectStorage', () => {
+    beforeEach(() => localStorage.clear());
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('should fall back to localStorage without IndexedDB', async () => {
+        const { loadProjects, saveProjects } = await loadStorage(undefined);
+
+        expect(await loadProjects()).toBeNull();
+
+        await saveProjects([project('old', '2024-01-01'), project('new', '2025-01-01')]);
+        await saveProjects([{ ...project('old', '2024-01-01'), name: 'Renamed' }], ['new']);
+
+        expect(JSON.parse(localStorage.getItem(LEGACY_KEY)!).map((p: Project) => p.name)).toEqual(['Renamed']);
+        expect((await loadProjects())!.map(p => p.name)).toEqual(['Renamed']);
+    });
+
+    it('should move a legacy localStorage save into IndexedDB, upgraded', async () => {
+        localStorage.setItem(LEGACY_KEY, JSON.stringify([
+            { id: 'p1', name: 'Old', createdAt: '2024-01-01', updatedAt: '2024-01-01', taskCount: 2, data: [
+                { id: 'A', name: 'Design', duration: 2, predecessors: [] },
+                { id: 'B', name: 'Build', duration: 3, predecessors: ['A'] }
+            ] }
+        ]));
+        const factory = new IDBFactory();
+        const { loadProjects } = await loadStorage(factory);
+
+        const [loaded] = (await loadProjects())!;
+        expect(loaded.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(loaded.data[1].predecessors).toEqual([{ id: 'A', type: 'FS', lag: 0 }]);
+        expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+
+        // A fresh session reads the per-project record
+        const reopened = await loadStorage(factory);
+        expect(await reopened.loadProjects()).toEqual([loaded]);
+    });
+
+    it('should save and delete per-project records', async () => {
+        const factory = new IDBFactory();
+        const { loadProjects, saveProjects } = await loadStorage(factory);
+
+        expect(await loadProjects()).toBeNull();
+
+        await saveProjects([project('a', '2024-01-01'), project('b', '2025-01-01')]);
+        expect((await loadProjects())!.map(p => p.id)).toEqual(['b', 'a']);
+
+        await saveProjects([], ['a', 'b']);
+        // Once something has been saved an empty list stays empty instead of reseeding the example
+        expect(await loadProjects()).toEqual([]);
+    });
+});
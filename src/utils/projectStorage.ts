@@ -0,0 +1,102 @@
+import { Project } from '../types';
+import { migrateProject, StoredProject } from './projectMigration';
+
+// Projects live in IndexedDB, one record per project, so a save only writes what changed and
+// large plans are not limited by the localStorage quota. Where IndexedDB is unavailable the
+// single localStorage key used by earlier versions is kept as a fallback.
+
+const DB_NAME = 'pathfinder';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const META_STORE = 'meta';
+const INITIALISED_KEY = 'initialised'; // Set once anything has been saved, so an empty list stays empty
+const LEGACY_KEY = 'pathfinder_projects';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> | null => {
+    if (typeof indexedDB === 'undefined') return null;
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const readLegacy = (): StoredProject[] | null => {
+    const saved = localStorage.getItem(LEGACY_KEY);
+    return saved ? JSON.parse(saved) : null;
+};
+
+const byNewest = (a: StoredProject, b: StoredProject) => (b.createdAt || '').localeCompare(a.createdAt || '');
+
+/**
+ * Loads every saved project, upgraded to the current schema, newest first. Upgraded projects are
+ * written back, and the first load moves an old localStorage save into the database. Returns null
+ * when nothing has ever been saved.
+ */
+export const loadProjects = async (): Promise<Project[] | null> => {
+    const db = await openDatabase();
+    if (!db) return readLegacy()?.map(migrateProject).sort(byNewest) ?? null;
+
+    const read = db.transaction([PROJECTS_STORE, META_STORE], 'readonly');
+    const [stored, initialised] = await Promise.all([
+        requestResult(read.objectStore(PROJECTS_STORE).getAll() as IDBRequest<StoredProject[]>),
+        requestResult(read.objectStore(META_STORE).get(INITIALISED_KEY))
+    ]);
+
+    let source = stored;
+    if (!initialised) {
+        const legacy = readLegacy();
+        if (!legacy && stored.length === 0) return null;
+        source = [...stored, ...(legacy || []).filter(p => !stored.some(s => s.id === p.id))];
+    }
+
+    const projects = source.map(migrateProject);
+    const changed = initialised ? projects.filter((p, i) => p.schemaVersion !== source[i].schemaVersion) : projects;
+    if (changed.length > 0 || !initialised) {
+        const write = db.transaction([PROJECTS_STORE, META_STORE], 'readwrite');
+        changed.forEach(p => write.objectStore(PROJECTS_STORE).put(p));
+        write.objectStore(META_STORE).put(true, INITIALISED_KEY);
+        await transactionDone(write);
+        localStorage.removeItem(LEGACY_KEY);
+    }
+    return projects.sort(byNewest);
+};
+
+/** Writes the given projects and deletes the removed ones in a single transaction. */
+export const saveProjects = async (changed: Project[], removedIds: string[] = []): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) {
+        const kept = (readLegacy() || []).filter(p => !removedIds.includes(p.id) && !changed.some(c => c.id === p.id));
+        localStorage.setItem(LEGACY_KEY, JSON.stringify([...changed, ...kept].sort(byNewest)));
+        return;
+    }
+
+    const transaction = db.transaction([PROJECTS_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(PROJECTS_STORE);
+    changed.forEach(p => store.put(p));
+    removedIds.forEach(id => store.delete(id));
+    transaction.objectStore(META_STORE).put(true, INITIALISED_KEY);
+    await transactionDone(transaction);
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { levelResources } from './resourceLevelling';
+import { calculateResourceUsage } from './resources';
+import { Task, Resource, LevellingOptions } from '../types';
+
+describe('levelResources', () => {
+    const pool: Resource[] = [
+        { id: 'dev', name: 'Developer', type: 'work', maxUnits: 1, costRate: 0 },
+    ];
+    const options: LevellingOptions = { enabled: true, priority: 'least-slack', allowProjectExtension: false };
+
+    // A (critical, 4d) and B (2d of slack) both need the single developer at day 0
+    const tasks: Task[] = [
+        { id: 'A', name: 'Task A', duration: 4, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+        { id: 'B', name: 'Task B', duration: 2, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+        { id: 'C', name: 'Task C', duration: 4, predecessors: [], resources: [] },
+        { id: 'D', name: 'Task D', duration: 1, predecessors: [{ id: 'A', type: 'FS', lag: 0 }, { id: 'B', type: 'FS', lag: 0 }, { id: 'C', type: 'FS', lag: 0 }] },
+    ];
+
+    it('should leave the schedule unchanged when nothing is over-allocated', () => {
+        const result = levelResources(tasks.filter(t => t.id !== 'B'), pool, options);
+        expect(result.shifts).toEqual([]);
+        expect(result.levelledDuration).toBe(result.original.projectDuration);
+    });
+
+    it('should report conflicts that cannot be resolved within slack', () => {
+        const result = levelResources(tasks, pool, options);
+
+        expect(result.levelledDuration).toBe(5);
+        expect(result.unresolved).toEqual(['B']);
+        expect(result.shifts).toEqual([]);
+    });
+
+    it('should extend the project when delays beyond slack are allowed', () => {
+        const result = levelResources(tasks, pool, { ...options, allowProjectExtension: true });
+
+        expect(result.unresolved).toEqual([]);
+        expect(result.shifts).toEqual([
+            { id: 'B', originalStart: 0, levelledStart: 4, delay: 4 },
+            { id: 'D', originalStart: 4, levelledStart: 6, delay: 2 },
+        ]);
+        expect(result.levelledDuration).toBe(7);
+
+        const [usage] = calculateResourceUsage(result.levelledTasks, pool);
+        expect(usage.overAllocatedDays).toEqual([]);
+    });
+
+    it('should delay a non-critical task within its slack', () => {
+        const relaxed: Task[] = [
+            { id: 'A', name: 'Task A', duration: 2, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+            { id: 'C', name: 'Task C', duration: 5, predecessors: [] },
+        ];
+
+        const result = levelResources(relaxed, pool, options);
+
+        expect(result.shifts).toEqual([{ id: 'B', originalStart: 0, levelledStart: 2, delay: 2 }]);
+        expect(result.levelledDuration).toBe(5);
+        expect(result.unresolved).toEqual([]);
+    });
+
+    it('should prioritise by the selected rule', () => {
+        const relaxed: Task[] = [
+            { id: 'A', name: 'Task A', duration: 1, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+            { id: 'C', name: 'Task C', duration: 5, predecessors: [] },
+        ];
+
+        const byDuration = levelResources(relaxed, pool, { ...options, priority: 'longest-duration' });
+        expect(byDuration.shifts.map(s => s.id)).toEqual(['A']);
+
+        const byId = levelResources(relaxed, pool, { ...options, priority: 'id' });
+        expect(byId.shifts.map(s => s.id)).toEqual(['B']);
+    });
+});
@@ -0,0 +1,122 @@
+import { Task, ProcessedTask, Resource, LevellingOptions, LevellingPriority, LevellingResult, TaskShift, CPMOptions } from '../types';
+import { calculateCPM, linkEarliestStart } from './cpmLogic';
+import { taskDayRange } from './resources';
+import { isComplete, isInProgress } from './progress';
+import { constrainedEarlyStart } from './constraints';
+import { rollUpSummaries } from './wbs';
+
+export const LEVELLING_PRIORITY_LABELS: Record<LevellingPriority, string> = {
+    'least-slack': 'Least slack first',
+    'longest-duration': 'Longest duration first',
+    'id': 'ID order'
+};
+
+export const DEFAULT_LEVELLING_OPTIONS: LevellingOptions = {
+    enabled: false,
+    priority: 'least-slack',
+    allowProjectExtension: false
+};
+
+const compareIds = (a: ProcessedTask, b: ProcessedTask) => a.id.localeCompare(b.id, undefined, { numeric: true });
+
+const PRIORITY_RULES: Record<LevellingPriority, (a: ProcessedTask, b: ProcessedTask) => number> = {
+    'least-slack': (a, b) => a.slack - b.slack || a.es - b.es || compareIds(a, b),
+    'longest-duration': (a, b) => b.duration - a.duration || a.slack - b.slack || compareIds(a, b),
+    'id': compareIds
+};
+
+/**
+ * Serial schedule generation: tasks are placed one at a time (highest priority among those whose
+ * predecessors are placed) at the earliest start where every assigned resource stays within capacity.
+ * Without project extension a task may only slide up to its original late start. Work that has
+ * already started stays where it is.
+ */
+export const levelResources = (tasks: Task[], pool: Resource[], options: LevellingOptions, cpmOptions: CPMOptions = {}): LevellingResult => {
+    const original = calculateCPM(tasks, cpmOptions);
+    if (original.error) return { original, levelledTasks: [], levelledDuration: 0, shifts: [], unresolved: [] };
+
+    const byId = new Map(original.processedTasks.map(t => [t.id, t]));
+    const capacity = new Map(pool.map(r => [r.id, r.maxUnits]));
+    const usage = new Map<string, number[]>(pool.map(r => [r.id, []]));
+    const placed = new Map<string, ProcessedTask>();
+    const unresolved: string[] = [];
+    const compare = PRIORITY_RULES[options.priority];
+
+    // Assignments to resources outside the pool are unconstrained
+    const constrainedAssignments = (task: Task) => (task.resources || []).filter(a => capacity.has(a.resourceId) && a.units > 0);
+
+    const fits = (task: Task, start: number) => {
+        const [from, to] = taskDayRange(start, start + task.duration);
+        return constrainedAssignments(task).every(a => {
+            const days = usage.get(a.resourceId)!;
+            for (let d = from; d < to; d++) {
+                if ((days[d] || 0) + a.units > capacity.get(a.resourceId)! + 1e-9) return false;
+            }
+            return true;
+        });
+    };
+
+    const book = (task: Task, start: number, finish: number) => {
+        const [from, to] = taskDayRange(start, finish);
+        constrainedAssignments(task).forEach(a => {
+            const days = usage.get(a.resourceId)!;
+            for (let d = from; d < to; d++) days[d] = (days[d] || 0) + a.units;
+        });
+    };
+
+    // Summary tasks carry no work; they are rolled up again from the levelled leaves
+    const pending = original.processedTasks.filter(t => !t.isSummary);
+    while (pending.length > 0) {
+        const eligible = pending.filter(t => t.predecessors.every(l => !byId.has(l.id) || placed.has(l.id)));
+        const task = eligible.sort(compare)[0];
+        pending.splice(pending.indexOf(task), 1);
+
+        if (isComplete(task) || isInProgress(task)) {
+            book(task, task.es, task.ef);
+            placed.set(task.id, task);
+            continue;
+        }
+
+        let earliest = cpmOptions.statusDate ?? 0;
+        task.predecessors.forEach(link => {
+            const pred = placed.get(link.id);
+            if (pred) earliest = Math.max(earliest, linkEarliestStart(pred, link, task.duration));
+        });
+
+        earliest = constrainedEarlyStart(task, earliest).es;
+
+        let start = earliest;
+        const assignments = constrainedAssignments(task);
+        if (task.duration > 0 && assignments.length > 0) {
+            const impossible = assignments.some(a => a.units > capacity.get(a.resourceId)! + 1e-9);
+            // Past the last booked day everything fits, which bounds the search when extending
+            const horizon = Math.max(0, ...assignments.map(a => usage.get(a.resourceId)!.length));
+            const limit = options.allowProjectExtension ? Math.max(earliest, horizon) : Math.max(earliest, task.ls);
+
+            let candidate = earliest;
+            while (!impossible && candidate <= limit && !fits(task, candidate)) candidate++;
+
+            if (impossible || candidate > limit) unresolved.push(task.id);
+            else start = candidate;
+        }
+
+        book(task, start, start + task.duration);
+        placed.set(task.id, { ...task, es: start, ef: start + task.duration });
+    }
+
+    const levelledLeaves = original.processedTasks.filter(t => !t.isSummary).map(t => placed.get(t.id)!);
+    const levelledTasks = original.processedTasks.some(t => t.isSummary)
+        ? rollUpSummaries(levelledLeaves, tasks).map(t => ({ ...t, wbsCode: byId.get(t.id)?.wbsCode }))
+        : levelledLeaves;
+    const shifts: TaskShift[] = levelledLeaves
+        .filter(t => Math.abs(t.es - byId.get(t.id)!.es) > 1e-9)
+        .map(t => ({ id: t.id, originalStart: byId.get(t.id)!.es, levelledStart: t.es, delay: t.es - byId.get(t.id)!.es }));
+
+    return {
+        original,
+        levelledTasks,
+        levelledDuration: Math.max(0, ...levelledTasks.map(t => t.ef)),
+        shifts,
+        unresolved
+    };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { calculateResourceUsage, migrateLegacyResources } from './resources';
+import { calculateCPM } from './cpmLogic';
+import { Task, Resource } from '../types';
+
+describe('resources', () => {
+    const pool: Resource[] = [
+        { id: 'dev', name: 'Developer', type: 'work', maxUnits: 1, costRate: 500 },
+    ];
+
+    it('should flag days where a resource is over-allocated', () => {
+        const tasks: Task[] = [
+            { id: 'A', name: 'Task A', duration: 3, predecessors: [], resources: [{ resourceId: 'dev', units: 1 }] },
+            { id: 'B', name: 'Task B', duration: 2, predecessors: [], resources: [{ resourceId: 'dev', units: 0.5 }] },
+            { id: 'C', name: 'Task C', duration: 1, predecessors: [{ id: 'A', type: 'FS', lag: 0 }], resources: [{ resourceId: 'dev', units: 1 }] },
+        ];
+
+        const [usage] = calculateResourceUsage(calculateCPM(tasks).processedTasks, pool);
+
+        expect(usage.daily).toEqual([1.5, 1.5, 1, 1]);
+        expect(usage.overAllocatedDays).toEqual([0, 1]);
+        expect(usage.peak).toBe(1.5);
+    });
+
+    it('should move legacy resource names into the pool', () => {
+        const tasks = [
+            { id: 'A', name: 'Task A', duration: 1, predecessors: [], resources: ['Developer', 'Tester'] },
+        ] as unknown as Task[];
+
+        const migrated = migrateLegacyResources(tasks, pool);
+
+        expect(migrated.pool.map(r => r.name)).toEqual(['Developer', 'Tester']);
+        expect(migrated.tasks[0].resources).toEqual([
+            { resourceId: 'dev', units: 1 },
+            { resourceId: migrated.pool[1].id, units: 1 },
+        ]);
+    });
+});
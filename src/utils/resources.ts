@@ -0,0 +1,119 @@
+import { Task, Resource, ResourceAssignment } from '../types';
+
+export interface ResourceUsage {
+    resource: Resource;
+    daily: number[]; // Units in use on each working day
+    overAllocatedDays: number[];
+    peak: number;
+}
+
+export const RESOURCE_TYPE_LABELS: Record<Resource['type'], string> = {
+    work: 'Work',
+    material: 'Material',
+    equipment: 'Equipment'
+};
+
+/**
+ * Moves tasks saved with free-text resource names onto the project pool, creating one
+ * full-time work resource per unknown name.
+ */
+export const migrateLegacyResources = (tasks: Task[], pool: Resource[] = []): { tasks: Task[]; pool: Resource[] } => {
+    const nextPool = [...pool];
+    const findOrCreate = (name: string): Resource => {
+        const existing = nextPool.find(r => r.name.toLowerCase() === name.toLowerCase());
+        if (existing) return existing;
+        const created: Resource = { id: crypto.randomUUID(), name, type: 'work', maxUnits: 1, costRate: 0 };
+        nextPool.push(created);
+        return created;
+    };
+
+    const migrated = tasks.map(task => {
+        const legacy = task.resources as (string | ResourceAssignment)[] | undefined;
+        if (!legacy || !legacy.some(r => typeof r === 'string')) return task;
+        return {
+            ...task,
+            resources: legacy
+                .map(r => typeof r === 'string' ? (r.trim() ? { resourceId: findOrCreate(r.trim()).id, units: 1 } : null) : r)
+                .filter((r): r is ResourceAssignment => r !== null)
+        };
+    });
+
+    return { tasks: migrated, pool: nextPool };
+};
+
+/**
+ * The working days a scheduled task occupies: [floor(es), ceil(ef)).
+ */
+export const taskDayRange = (es: number, ef: number): [number, number] => [Math.floor(es), Math.ceil(ef)];
+
+/**
+ * Day-by-day units per resource for a calculated schedule.
+ */
+export const calculateResourceUsage = (tasks: Task[], pool: Resource[], horizon?: number): ResourceUsage[] => {
+    const length = horizon ?? Math.ceil(Math.max(0, ...tasks.map(t => t.ef ?? 0)));
+
+    return pool.map(resource => {
+        const daily = new Array<number>(length).fill(0);
+        tasks.forEach(task => {
+            const assignment = task.resources?.find(a => a.resourceId === resource.id);
+            if (!assignment || task.isSummary || task.es === undefined || task.ef === undefined) return;
+            const [from, to] = taskDayRange(task.es, task.ef);
+            for (let d = Math.max(0, from); d < Math.min(length, to); d++) daily[d] += assignment.units;
+        });
+
+        const overAllocatedDays = daily.reduce<number[]>((days, units, d) => {
+            if (units > resource.maxUnits + 1e-9) days.push(d);
+            return days;
+        }, []);
+
+        return { resource, daily, overAllocatedDays, peak: Math.max(0, ...daily) };
+    });
+};
+
+export const taskResourceCost = (task: Task, pool: Resource[]): number =>
+    (task.resources || []).reduce((sum, a) => {
+        const resource = pool.find(r => r.id === a.resourceId);
+        return sum + (resource ? resource.costRate * a.units * task.duration : 0);
+    }, 0);
+
+export const formatAssignments = (assignments: ResourceAssignment[] | undefined, pool: Resource[]): string =>
+    (assignments || []).map(a => {
+        const name = pool.find(r => r.id === a.resourceId)?.name || '?';
+        return a.units === 1 ? name : `${name} ×${a.units}`;
+    }).join(', ');
+
+/**
+ * Parses the text produced by formatAssignments ("Alice, Bob ×2"). Resources can be given by
+ * name or ID; "x" and "*" are accepted for the units.
+ */
+export const parseAssignments = (input: string, pool: Resource[]): { assignments: ResourceAssignment[]; unknown: string[] } => {
+    const assignments: ResourceAssignment[] = [];
+    const unknown: string[] = [];
+    input.split(',').map(s => s.trim()).filter(s => s !== '').forEach(entry => {
+        const match = entry.match(/^(.*?)(?:\s*[×x*]\s*(\d+(?:\.\d+)?))?$/i);
+        const name = (match?.[1] || entry).trim().toLowerCase();
+        const resource = pool.find(r => r.name.toLowerCase() === name || r.id.toLowerCase() === name);
+        if (!resource) unknown.push(entry);
+        else assignments.push({ resourceId: resource.id, units: match?.[2] ? Number(match[2]) : 1 });
+    });
+    return { assignments, unknown };
+};
+
+/**
+ * Adds imported resources to a pool, reusing any existing resource with the same name. Returns the
+ * merged pool and the pool ID each imported resource now maps to.
+ */
+export const mergeResourcePools = (pool: Resource[], incoming: Resource[]): { pool: Resource[]; idMap: Map<string, string> } => {
+    const merged = [...pool];
+    const idMap = new Map<string, string>();
+    incoming.forEach(resource => {
+        const existing = merged.find(r => r.name.trim().toLowerCase() === resource.name.trim().toLowerCase());
+        if (existing) {
+            idMap.set(resource.id, existing.id);
+        } else {
+            merged.push(resource);
+            idMap.set(resource.id, resource.id);
+        }
+    });
+    return { pool: merged, idMap };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { applyCellEdit, pasteCells, parseClipboardRows, validateGrid } from './taskGrid';
+import { Task, Resource } from '../types';
+
+const fs = (id: string) => ({ id, type: 'FS' as const, lag: 0 });
+
+describe('taskGrid', () => {
+    const pool: Resource[] = [
+        { id: 'dev', name: 'Developer', type: 'work', maxUnits: 2, costRate: 500 },
+    ];
+    const tasks: Task[] = [
+        { id: 'A', name: 'Design', duration: 2, predecessors: [] },
+        { id: 'B', name: 'Build', duration: 3, predecessors: [fs('A')] },
+    ];
+
+    it('should rename references when an ID is edited', () => {
+        const result = applyCellEdit(tasks, 'A', 'id', 'x', pool);
+
+        expect(result.error).toBeUndefined();
+        expect(result.tasks.map(t => t.id)).toEqual(['X', 'B']);
+        expect(result.tasks[1].predecessors[0].id).toBe('X');
+        expect(applyCellEdit(tasks, 'A', 'id', 'B', pool).error).toContain('already exists');
+    });
+
+    it('should parse predecessors, resources and reject bad numbers', () => {
+        const withLinks = applyCellEdit(tasks, 'B', 'predecessors', 'A SS+1', pool).tasks;
+        expect(withLinks[1].predecessors).toEqual([{ id: 'A', type: 'SS', lag: 1 }]);
+
+        const staffed = applyCellEdit(tasks, 'B', 'resources', 'developer x2', pool).tasks;
+        expect(staffed[1].resources).toEqual([{ resourceId: 'dev', units: 2 }]);
+
+        expect(applyCellEdit(tasks, 'B', 'resources', 'Tester', pool).error).toContain('Unknown resource');
+        expect(applyCellEdit(tasks, 'B', 'duration', 'soon', pool).error).toBeDefined();
+
+        expect(applyCellEdit(tasks, 'B', 'cost', '$1,200', pool).tasks[1].cost).toBe(1200);
+        expect(applyCellEdit(tasks, 'B', 'cost', 'n/a', pool).error).toContain('not a valid cost');
+        expect(applyCellEdit(tasks, 'B', 'cost', 'abc', pool).error).toContain('not a valid cost');
+    });
+
+    it('should paste spreadsheet rows over existing and new tasks', () => {
+        const rows = parseClipboardRows('B\tBuild it\t4\tA\r\nC\tTest\t2\tB\r\n');
+        const result = pasteCells(tasks, ['A', 'B'], 1, 0, rows, pool);
+
+        expect(result.errors).toEqual([]);
+        expect(result.tasks.map(t => [t.id, t.name, t.duration])).toEqual([['A', 'Design', 2], ['B', 'Build it', 4], ['C', 'Test', 2]]);
+        expect(result.tasks[2].predecessors).toEqual([fs('B')]);
+    });
+
+    it('should flag unknown predecessors and dependency loops', () => {
+        const issues = validateGrid([
+            { id: 'A', name: 'A', duration: 1, predecessors: [fs('C')] },
+            { id: 'B', name: 'B', duration: 1, predecessors: [fs('A'), fs('Z')] },
+            { id: 'C', name: 'C', duration: 1, predecessors: [fs('B')] },
+            { id: 'D', name: 'D', duration: 1, predecessors: [] },
+        ]);
+
+        expect(issues.get('B')?.unknownPredecessors).toEqual(['Z']);
+        expect(issues.get('A')?.cycle).toEqual(['A', 'B', 'C']);
+        expect(issues.has('D')).toBe(false);
+    });
+});
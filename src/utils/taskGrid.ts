@@ -0,0 +1,179 @@
+import { Task, Resource } from '../types';
+import { parsePredecessors, formatPredecessor, findCycles, findUnknownPredecessors } from './dependencies';
+import { formatAssignments, parseAssignments } from './resources';
+
+export type GridColumnKey = 'id' | 'name' | 'duration' | 'predecessors' | 'resources' | 'cost' | 'es' | 'ef' | 'ls' | 'lf' | 'slack';
+
+export interface GridColumn {
+    key: GridColumnKey;
+    label: string;
+    editable: boolean;
+    numeric: boolean;
+    width: number; // Pixels
+}
+
+export const GRID_COLUMNS: GridColumn[] = [
+    { key: 'id', label: 'ID', editable: true, numeric: false, width: 72 },
+    { key: 'name', label: 'Name', editable: true, numeric: false, width: 240 },
+    { key: 'duration', label: 'Duration', editable: true, numeric: true, width: 80 },
+    { key: 'predecessors', label: 'Predecessors', editable: true, numeric: false, width: 160 },
+    { key: 'resources', label: 'Resources', editable: true, numeric: false, width: 160 },
+    { key: 'cost', label: 'Cost', editable: true, numeric: true, width: 88 },
+    { key: 'es', label: 'ES', editable: false, numeric: true, width: 56 },
+    { key: 'ef', label: 'EF', editable: false, numeric: true, width: 56 },
+    { key: 'ls', label: 'LS', editable: false, numeric: true, width: 56 },
+    { key: 'lf', label: 'LF', editable: false, numeric: true, width: 56 },
+    { key: 'slack', label: 'Slack', editable: false, numeric: true, width: 56 }
+];
+
+/** Text shown in (and edited from) a cell. Computed columns read from the scheduled task, if any. */
+export const cellText = (task: Task, scheduled: Task | undefined, key: GridColumnKey, pool: Resource[]): string => {
+    switch (key) {
+        case 'id': return task.id;
+        case 'name': return task.name;
+        case 'duration': return String(task.duration);
+        case 'predecessors': return task.predecessors.map(formatPredecessor).join(', ');
+        case 'resources': return formatAssignments(task.resources, pool);
+        case 'cost': return task.cost ? String(task.cost) : '';
+        default: {
+            const value = scheduled?.[key];
+            return value === undefined ? '' : String(value);
+        }
+    }
+};
+
+/** Lowest unused whole-number ID, counting up from the number of tasks like the quick-add bar. */
+export const nextTaskId = (tasks: Task[]): string => {
+    const ids = new Set(tasks.map(t => t.id));
+    let n = tasks.length + 1;
+    while (ids.has(String(n))) n++;
+    return String(n);
+};
+
+const renameTask = (tasks: Task[], originalId: string, newId: string): Task[] => tasks.map(t => {
+    if (t.id === originalId) return { ...t, id: newId };
+    if (t.parentId !== originalId && !t.predecessors.some(p => p.id === originalId)) return t;
+    return {
+        ...t,
+        parentId: t.parentId === originalId ? newId : t.parentId,
+        predecessors: t.predecessors.map(p => p.id === originalId ? { ...p, id: newId } : p)
+    };
+});
+
+/**
+ * Writes one cell's text into the task list and returns the new list, or an error when the value
+ * is rejected. A missing `taskId` appends a new task. Changing an ID renames every reference to it.
+ */
+export const applyCellEdit = (
+    tasks: Task[], taskId: string | null, key: GridColumnKey, text: string, pool: Resource[]
+): { tasks: Task[]; error?: string } => {
+    const value = text.trim();
+    const column = GRID_COLUMNS.find(c => c.key === key);
+    if (!column?.editable) return { tasks };
+
+    let list = tasks;
+    let id = taskId;
+    if (id === null) {
+        if (value === '') return { tasks };
+        id = key === 'id' ? value.toUpperCase() : nextTaskId(tasks);
+        if (tasks.some(t => t.id === id)) return { tasks, error: `Task ID "${id}" already exists` };
+        list = [...tasks, { id, name: `Task ${id}`, duration: 1, predecessors: [] }];
+        if (key === 'id') return { tasks: list };
+    }
+    const task = list.find(t => t.id === id);
+    if (!task) return { tasks, error: `Task ${id} not found` };
+
+    const update = (updates: Partial<Task>) => ({ tasks: list.map(t => t.id === id ? { ...t, ...updates } : t) });
+
+    switch (key) {
+        case 'id': {
+            const newId = value.toUpperCase();
+            if (newId === '') return { tasks, error: 'Task ID is required' };
+            if (newId === id) return { tasks: list };
+            if (list.some(t => t.id === newId)) return { tasks, error: `Task ID "${newId}" already exists` };
+            return { tasks: renameTask(list, id, newId) };
+        }
+        case 'name':
+            return value === '' ? { tasks, error: 'Name is required' } : update({ name: value });
+        case 'duration': {
+            const duration = Number(value);
+            if (value === '' || !Number.isFinite(duration) || duration < 0) return { tasks, error: `"${text}" is not a valid duration` };
+            if (task.isSummary || list.some(t => t.parentId === id)) return { tasks, error: 'Summary task durations are rolled up from their children' };
+            return update({ duration });
+        }
+        case 'predecessors':
+            return update({ predecessors: parsePredecessors(value) });
+        case 'resources': {
+            const { assignments, unknown } = parseAssignments(value, pool);
+            if (unknown.length > 0) return { tasks, error: `Unknown resource: ${unknown.join(', ')}` };
+            return update({ resources: assignments });
+        }
+        case 'cost': {
+            // Currency symbols and separators are dropped, but text without any digits is not a cost
+            const digits = value.replace(/[^\d.-]/g, '');
+            const cost = value === '' ? 0 : Number(digits);
+            if ((value !== '' && digits === '') || !Number.isFinite(cost) || cost < 0) return { tasks, error: `"${text}" is not a valid cost` };
+            return update({ cost: cost || undefined });
+        }
+        default:
+            return { tasks };
+    }
+};
+
+/** Tab-separated rows as copied from a spreadsheet. A single trailing line break is ignored. */
+export const parseClipboardRows = (text: string): string[][] =>
+    text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n').map(line => line.split('\t'));
+
+/**
+ * Pastes a block of cells with its top-left corner at the given visible row and column. Rows past
+ * the end of `rowIds` become new tasks; cells landing on computed columns are skipped. Rejected
+ * cells are reported and left unchanged.
+ */
+export const pasteCells = (
+    tasks: Task[], rowIds: string[], startRow: number, startColumn: number, rows: string[][], pool: Resource[]
+): { tasks: Task[]; errors: string[] } => {
+    let list = tasks;
+    const errors: string[] = [];
+
+    rows.forEach((cells, r) => {
+        let rowId: string | null = rowIds[startRow + r] ?? null;
+        // An ID cell in a new row has to be applied first so the other cells land on that task
+        const ordered = cells
+            .map((text, c) => ({ text, column: GRID_COLUMNS[startColumn + c] }))
+            .filter(cell => cell.column?.editable)
+            .sort((a, b) => (a.column.key === 'id' ? -1 : 0) - (b.column.key === 'id' ? -1 : 0));
+
+        ordered.forEach(({ text, column }) => {
+            if (rowId === null && text.trim() === '') return;
+            const before = list;
+            const result = applyCellEdit(list, rowId, column.key, text, pool);
+            if (result.error) {
+                errors.push(`Row ${startRow + r + 1}, ${column.label}: ${result.error}`);
+                return;
+            }
+            list = result.tasks;
+            if (rowId === null) rowId = list.length > before.length ? list[list.length - 1].id : null;
+            else if (column.key === 'id') rowId = text.trim().toUpperCase();
+        });
+    });
+
+    return { tasks: list, errors };
+};
+
+export interface GridRowIssues {
+    unknownPredecessors: string[];
+    cycle?: string[];
+}
+
+/** Per-task problems to flag inline: links to missing tasks and membership of a dependency loop. */
+export const validateGrid = (tasks: Task[]): Map<string, GridRowIssues> => {
+    const issues = new Map<string, GridRowIssues>();
+    findUnknownPredecessors(tasks).forEach(({ taskId, predecessorId }) => {
+        const issue = issues.get(taskId) || { unknownPredecessors: [] };
+        issues.set(taskId, { ...issue, unknownPredecessors: [...issue.unknownPredecessors, predecessorId] });
+    });
+    findCycles(tasks).forEach(cycle => cycle.forEach(id => {
+        issues.set(id, { unknownPredecessors: issues.get(id)?.unknownPredecessors || [], cycle });
+    }));
+    return issues;
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { dayToX, barGeometry, barYToLayoutY, floatTail, axisDays, TIME_SCALE_DAY_WIDTH } from './timeScaledLayout';
+import { calculateLayout } from './layoutLogic';
+import { calculateCPM } from './cpmLogic';
+import { Task } from '../types';
+
+const tasks: Task[] = [
+    { id: 'A', name: 'Design', duration: 3, predecessors: [] },
+    { id: 'B', name: 'Build', duration: 5, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+    { id: 'C', name: 'Docs', duration: 2, predecessors: [{ id: 'A', type: 'FS', lag: 0 }] },
+    { id: 'M', name: 'Review', duration: 0, predecessors: [{ id: 'C', type: 'FS', lag: 0 }] },
+];
+
+const layout = () => new Map(calculateLayout(calculateCPM(tasks).processedTasks).map(n => [n.id, n]));
+
+describe('timeScaledLayout', () => {
+    it('should place bars on a linear working-day axis', () => {
+        const nodes = layout();
+        const build = barGeometry(nodes.get('B')!);
+
+        expect(dayToX(1) - dayToX(0)).toBe(TIME_SCALE_DAY_WIDTH);
+        expect(build.x).toBe(dayToX(3));
+        expect(build.width).toBe(5 * TIME_SCALE_DAY_WIDTH);
+        expect(barYToLayoutY(build.y)).toBeCloseTo(nodes.get('B')!.y);
+        // Milestones still get a bar that can be clicked
+        expect(barGeometry(nodes.get('M')!).width).toBeGreaterThan(0);
+    });
+
+    it('should draw total float from the bar finish', () => {
+        const nodes = layout();
+        const docs = barGeometry(nodes.get('C')!);
+        const tail = floatTail(docs, nodes.get('C')!.slack)!;
+
+        expect(nodes.get('C')!.slack).toBe(3);
+        expect(tail.start.x).toBe(dayToX(5));
+        expect(tail.end.x).toBe(dayToX(8));
+        expect(tail.start.y).toBe(tail.end.y);
+        expect(floatTail(barGeometry(nodes.get('B')!), 0)).toBeNull();
+    });
+
+    it('should thin out axis labels on long projects', () => {
+        expect(axisDays(4)).toEqual({ days: [0, 1, 2, 3, 4], step: 1 });
+
+        const long = axisDays(299);
+        expect(long.step).toBe(5);
+        expect(long.days).toHaveLength(60);
+        expect(long.days[59]).toBe(295);
+    });
+});
@@ -0,0 +1,51 @@
+import { LayoutNode } from '../types';
+
+// Time-scaled network geometry: bars sit at their early dates on a linear working-day axis and keep
+// the vertical position of the layered layout.
+
+export const TIME_SCALE_DAY_WIDTH = 48;
+export const TIME_SCALE_BAR_HEIGHT = 44;
+const ORIGIN_X = 100;
+const MIN_BAR_WIDTH = 28;
+// Layout rows are spaced for circular nodes; bars need far less room
+const Y_SCALE = 0.4;
+const MAX_AXIS_LABELS = 60;
+
+export interface TimeScaledBar {
+    x: number;
+    y: number;
+    width: number;
+}
+
+export interface Segment {
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+}
+
+export const dayToX = (day: number): number => ORIGIN_X + day * TIME_SCALE_DAY_WIDTH;
+
+/** Bar for a task from its early start to its early finish; zero-length tasks keep a visible minimum width. */
+export const barGeometry = (node: LayoutNode): TimeScaledBar => ({
+    x: dayToX(node.es),
+    y: node.y * Y_SCALE,
+    width: Math.max((node.ef - node.es) * TIME_SCALE_DAY_WIDTH, MIN_BAR_WIDTH)
+});
+
+/** Layout y to pin when a bar is dragged to the given canvas y. */
+export const barYToLayoutY = (y: number): number => y / Y_SCALE;
+
+/** Total float drawn from the bar's finish, or null for tasks without positive float. */
+export const floatTail = (bar: TimeScaledBar, slack: number): Segment | null => {
+    if (slack <= 0) return null;
+    const y = bar.y + TIME_SCALE_BAR_HEIGHT / 2;
+    return {
+        start: { x: bar.x + bar.width, y },
+        end: { x: bar.x + bar.width + slack * TIME_SCALE_DAY_WIDTH, y }
+    };
+};
+
+/** Labelled axis days and the number of days between labels, thinned out on long projects. */
+export const axisDays = (projectDuration: number): { days: number[]; step: number } => {
+    const step = Math.max(1, Math.ceil((projectDuration + 1) / MAX_AXIS_LABELS));
+    return { days: Array.from({ length: Math.floor(projectDuration / step) + 1 }, (_, i) => i * step), step };
+};
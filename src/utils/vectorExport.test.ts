@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { computeTiles, drawingToSvg, drawingToPdf, TitleBlock } from './vectorExport';
+import { buildGanttDrawing, buildNetworkDrawing } from './planDrawing';
+import { calculateCPM } from './cpmLogic';
+import { calculateLayout } from './layoutLogic';
+import { Task } from '../types';
+
+const tasks: Task[] = [
+    { id: 'A', name: 'Design & <review>', duration: 3, predecessors: [] },
+    { id: 'B', name: 'Build', duration: 5, predecessors: [{ id: 'A', type: 'SS', lag: 1 }] },
+    { id: 'C', name: 'Test', duration: 2, predecessors: [{ id: 'B', type: 'FS', lag: 0 }] },
+];
+
+const title: TitleBlock = { project: 'Demo', view: 'Gantt Chart', stats: '3 Tasks / 8 Days', date: '01/03/2025' };
+
+describe('vectorExport', () => {
+    it('should tile with overlap in reading order', () => {
+        expect(computeTiles(100, 50, 100, 50, 10)).toEqual([{ row: 0, column: 0, x: 0, y: 0 }]);
+
+        const tiles = computeTiles(250, 60, 100, 50, 10);
+        expect(tiles.map(t => [t.row, t.column])).toEqual([[0, 0], [0, 1], [0, 2], [1, 0], [1, 1], [1, 2]]);
+        expect(tiles.slice(0, 3).map(t => t.x)).toEqual([0, 90, 180]);
+        expect(tiles[3].y).toBe(40);
+    });
+
+    it('should write the drawing and title block as SVG', () => {
+        const { processedTasks } = calculateCPM(tasks);
+        const svg = drawingToSvg(buildGanttDrawing(processedTasks, { startDate: '2025-03-03' }), title);
+
+        expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+        expect(svg).toContain('Design &amp; &lt;review&gt;');
+        expect(svg).toContain('Mar 2025');
+        expect(svg).toContain('3 TASKS / 8 DAYS');
+        expect(new DOMParser().parseFromString(svg, 'image/svg+xml').querySelector('parsererror')).toBeNull();
+    });
+
+    it('should fit on one page or tile across several', () => {
+        const { processedTasks } = calculateCPM(tasks);
+        const drawing = buildNetworkDrawing(calculateLayout(processedTasks), 2);
+
+        expect(drawingToPdf(drawing, title, { paper: 'A4', orientation: 'landscape', mode: 'fit', scale: 1 }).getNumberOfPages()).toBe(1);
+        expect(drawingToPdf(drawing, title, { paper: 'A4', orientation: 'landscape', mode: 'tile', scale: 2 }).getNumberOfPages()).toBeGreaterThan(1);
+    });
+});
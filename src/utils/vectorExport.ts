@@ -0,0 +1,254 @@
+import { jsPDF } from 'jspdf';
+import { Drawing, Point, Shape } from './planDrawing';
+
+export interface TitleBlock {
+    project: string;
+    view: string;
+    stats: string;
+    date: string;
+}
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'Letter' | 'Tabloid';
+
+// Portrait width and height in millimetres
+export const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+    A4: [210, 297],
+    A3: [297, 420],
+    A2: [420, 594],
+    A1: [594, 841],
+    A0: [841, 1189],
+    Letter: [215.9, 279.4],
+    Tabloid: [279.4, 431.8]
+};
+
+export interface PdfExportOptions {
+    paper: PaperSize;
+    orientation: 'portrait' | 'landscape';
+    // 'fit' scales the whole drawing onto one page; 'tile' prints it at `scale` across as many pages as needed
+    mode: 'fit' | 'tile';
+    scale: number; // 1 = 100%, used when tiling
+}
+
+const MM_PER_PX = 25.4 / 96;
+const MM_PER_PT = 25.4 / 72;
+const PAGE_MARGIN = 10; // mm
+const TILE_OVERLAP = 10; // mm repeated on neighbouring pages so they can be trimmed and taped together
+const TITLE_ROW_HEIGHT = 5; // mm
+const TITLE_WIDTH = 100; // mm
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const svgPoints = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+const svgShape = (shape: Shape): string => {
+    switch (shape.kind) {
+        case 'rect':
+            return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}"${shape.radius ? ` rx="${shape.radius}"` : ''} fill="${shape.fill || 'none'}"${shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${shape.strokeWidth ?? 1}"` : ''}${shape.dash ? ` stroke-dasharray="${shape.dash.join(' ')}"` : ''}/>`;
+        case 'circle':
+            return `<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${shape.fill || 'none'}"${shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${shape.strokeWidth ?? 1}"` : ''}/>`;
+        case 'line':
+            return `<polyline points="${svgPoints(shape.points)}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth ?? 1}"${shape.dash ? ` stroke-dasharray="${shape.dash.join(' ')}"` : ''}/>`;
+        case 'polygon':
+            return `<polygon points="${svgPoints(shape.points)}" fill="${shape.fill}"/>`;
+        case 'text': {
+            const anchor = shape.align === 'center' ? 'middle' : shape.align === 'right' ? 'end' : 'start';
+            return `<text x="${shape.x}" y="${shape.y}" font-size="${shape.size}" fill="${shape.color}"${shape.bold ? ' font-weight="bold"' : ''} text-anchor="${anchor}">${escapeXml(shape.text)}</text>`;
+        }
+    }
+};
+
+const titleRows = (title: TitleBlock): [string, string][] => [
+    ['Project', title.project],
+    ['View', title.view],
+    ['Stats', title.stats],
+    ['Date', title.date]
+];
+
+/** Standalone SVG of a drawing with the title block below it on the right. */
+export const drawingToSvg = (drawing: Drawing, title: TitleBlock): string => {
+    const rows = titleRows(title);
+    const rowHeight = 22;
+    const tableWidth = 400;
+    const width = Math.max(drawing.width, tableWidth + 40);
+    const height = drawing.height + rows.length * rowHeight + 40;
+    const tableX = width - tableWidth - 20;
+    const tableY = drawing.height + 20;
+    const table = rows.map(([label, value], i) => {
+        const y = tableY + i * rowHeight;
+        return [
+            `<rect x="${tableX}" y="${y}" width="120" height="${rowHeight}" fill="none" stroke="#000000"/>`,
+            `<rect x="${tableX + 120}" y="${y}" width="${tableWidth - 120}" height="${rowHeight}" fill="none" stroke="#000000"/>`,
+            `<text x="${tableX + 8}" y="${y + 15}" font-size="10" font-weight="bold">${escapeXml(label.toUpperCase())}</text>`,
+            `<text x="${tableX + 128}" y="${y + 15}" font-size="10">${escapeXml(value.toUpperCase())}</text>`
+        ].join('');
+    });
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+        `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+        ...drawing.shapes.map(svgShape),
+        ...table,
+        `</svg>`
+    ].join('\n');
+};
+
+export interface Tile {
+    row: number;
+    column: number;
+    x: number; // Offset into the drawing, in the same units as the sizes
+    y: number;
+}
+
+/**
+ * Splits a drawing into page-sized tiles in reading order. Neighbouring tiles share `overlap` so
+ * that trimmed pages line up.
+ */
+export const computeTiles = (width: number, height: number, areaWidth: number, areaHeight: number, overlap: number): Tile[] => {
+    const count = (size: number, area: number) => Math.max(1, Math.ceil((size - overlap) / (area - overlap)));
+    const columns = count(width, areaWidth);
+    const rows = count(height, areaHeight);
+    const tiles: Tile[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            tiles.push({ row, column, x: column * (areaWidth - overlap), y: row * (areaHeight - overlap) });
+        }
+    }
+    return tiles;
+};
+
+const drawShape = (pdf: jsPDF, shape: Shape, at: (p: Point) => Point, mm: number) => {
+    const dash = (pattern?: number[]) => pdf.setLineDashPattern(pattern ? pattern.map(d => d * mm) : [], 0);
+    switch (shape.kind) {
+        case 'rect': {
+            const p = at({ x: shape.x, y: shape.y });
+            if (shape.fill) pdf.setFillColor(shape.fill);
+            if (shape.stroke) {
+                pdf.setDrawColor(shape.stroke);
+                pdf.setLineWidth((shape.strokeWidth ?? 1) * mm);
+                dash(shape.dash);
+            }
+            const style = shape.fill && shape.stroke ? 'FD' : shape.fill ? 'F' : 'S';
+            const r = (shape.radius || 0) * mm;
+            pdf.roundedRect(p.x, p.y, shape.width * mm, shape.height * mm, r, r, style);
+            break;
+        }
+        case 'circle': {
+            const c = at({ x: shape.cx, y: shape.cy });
+            if (shape.fill) pdf.setFillColor(shape.fill);
+            if (shape.stroke) {
+                pdf.setDrawColor(shape.stroke);
+                pdf.setLineWidth((shape.strokeWidth ?? 1) * mm);
+                dash();
+            }
+            pdf.circle(c.x, c.y, shape.r * mm, shape.fill && shape.stroke ? 'FD' : shape.fill ? 'F' : 'S');
+            break;
+        }
+        case 'line': {
+            const points = shape.points.map(at);
+            pdf.setDrawColor(shape.stroke);
+            pdf.setLineWidth((shape.strokeWidth ?? 1) * mm);
+            dash(shape.dash);
+            pdf.lines(points.slice(1).map((p, i) => [p.x - points[i].x, p.y - points[i].y]), points[0].x, points[0].y, [1, 1], 'S', false);
+            break;
+        }
+        case 'polygon': {
+            const points = shape.points.map(at);
+            pdf.setFillColor(shape.fill);
+            pdf.lines(points.slice(1).map((p, i) => [p.x - points[i].x, p.y - points[i].y]), points[0].x, points[0].y, [1, 1], 'F', true);
+            break;
+        }
+        case 'text': {
+            const p = at({ x: shape.x, y: shape.y });
+            pdf.setFont('helvetica', shape.bold ? 'bold' : 'normal');
+            pdf.setFontSize(shape.size * mm / MM_PER_PT);
+            pdf.setTextColor(shape.color);
+            pdf.text(shape.text, p.x, p.y, { align: shape.align || 'left' });
+            break;
+        }
+    }
+};
+
+const drawTitleBlock = (pdf: jsPDF, title: TitleBlock, page: string, pageWidth: number, pageHeight: number) => {
+    const rows: [string, string][] = [...titleRows(title), ['Sheet', page]];
+    const x = pageWidth - PAGE_MARGIN - TITLE_WIDTH;
+    const y = pageHeight - PAGE_MARGIN - rows.length * TITLE_ROW_HEIGHT;
+    pdf.setLineDashPattern([], 0);
+    pdf.setDrawColor('#000000');
+    pdf.setFillColor('#ffffff');
+    pdf.setLineWidth(0.2);
+    pdf.setTextColor('#000000');
+    pdf.setFontSize(7);
+    rows.forEach(([label, value], i) => {
+        const rowY = y + i * TITLE_ROW_HEIGHT;
+        pdf.rect(x, rowY, 30, TITLE_ROW_HEIGHT, 'FD');
+        pdf.rect(x + 30, rowY, TITLE_WIDTH - 30, TITLE_ROW_HEIGHT, 'FD');
+        pdf.setFont('helvetica', 'bold');
+        pdf.text(label.toUpperCase(), x + 2, rowY + 3.5);
+        pdf.setFont('helvetica', 'normal');
+        pdf.text(value.toUpperCase(), x + 32, rowY + 3.5, { maxWidth: TITLE_WIDTH - 34 });
+    });
+};
+
+/**
+ * Renders a drawing to a PDF with the title block on every page. In fit mode the drawing is scaled
+ * to one page; in tile mode it keeps the chosen scale and runs across pages, with the shared
+ * strips marked by dashed lines and each sheet labelled by row and column.
+ */
+export const drawingToPdf = (drawing: Drawing, title: TitleBlock, options: PdfExportOptions): jsPDF => {
+    const [short, long] = PAPER_SIZES[options.paper];
+    const [pageWidth, pageHeight] = options.orientation === 'portrait' ? [short, long] : [long, short];
+    const pdf = new jsPDF({ orientation: options.orientation, unit: 'mm', format: [short, long] });
+
+    const titleHeight = (titleRows(title).length + 1) * TITLE_ROW_HEIGHT;
+    const area = { x: PAGE_MARGIN, y: PAGE_MARGIN, width: pageWidth - 2 * PAGE_MARGIN, height: pageHeight - 3 * PAGE_MARGIN - titleHeight };
+
+    if (options.mode === 'fit') {
+        const mm = Math.min(area.width / drawing.width, area.height / drawing.height);
+        const offsetX = area.x + (area.width - drawing.width * mm) / 2;
+        const offsetY = area.y + (area.height - drawing.height * mm) / 2;
+        drawing.shapes.forEach(shape => drawShape(pdf, shape, p => ({ x: offsetX + p.x * mm, y: offsetY + p.y * mm }), mm));
+        drawTitleBlock(pdf, title, '1 of 1', pageWidth, pageHeight);
+        return pdf;
+    }
+
+    const mm = MM_PER_PX * options.scale;
+    const tiles = computeTiles(drawing.width * mm, drawing.height * mm, area.width, area.height, TILE_OVERLAP);
+    const columns = Math.max(...tiles.map(t => t.column)) + 1;
+    const rows = Math.max(...tiles.map(t => t.row)) + 1;
+
+    tiles.forEach((tile, index) => {
+        if (index > 0) pdf.addPage();
+        drawing.shapes.forEach(shape => drawShape(pdf, shape, p => ({ x: area.x - tile.x + p.x * mm, y: area.y - tile.y + p.y * mm }), mm));
+
+        // Blank out what spilled past the printable area instead of clipping every shape
+        pdf.setFillColor('#ffffff');
+        pdf.rect(0, 0, pageWidth, area.y, 'F');
+        pdf.rect(0, area.y + area.height, pageWidth, pageHeight - area.y - area.height, 'F');
+        pdf.rect(0, 0, area.x, pageHeight, 'F');
+        pdf.rect(area.x + area.width, 0, pageWidth - area.x - area.width, pageHeight, 'F');
+
+        // Overlap marks on the edges shared with neighbouring sheets
+        pdf.setDrawColor('#94a3b8');
+        pdf.setLineWidth(0.2);
+        pdf.setLineDashPattern([2, 2], 0);
+        const left = area.x;
+        const right = area.x + area.width;
+        const top = area.y;
+        const bottom = area.y + area.height;
+        if (tile.column > 0) pdf.line(left + TILE_OVERLAP, top, left + TILE_OVERLAP, bottom);
+        if (tile.column < columns - 1) pdf.line(right - TILE_OVERLAP, top, right - TILE_OVERLAP, bottom);
+        if (tile.row > 0) pdf.line(left, top + TILE_OVERLAP, right, top + TILE_OVERLAP);
+        if (tile.row < rows - 1) pdf.line(left, bottom - TILE_OVERLAP, right, bottom - TILE_OVERLAP);
+        pdf.setLineDashPattern([], 0);
+        pdf.rect(area.x, area.y, area.width, area.height, 'S');
+
+        const sheet = `${String.fromCharCode(65 + (tile.row % 26))}${tile.column + 1}`;
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(8);
+        pdf.setTextColor('#64748b');
+        pdf.text(`Sheet ${sheet} (row ${tile.row + 1} of ${rows}, column ${tile.column + 1} of ${columns})`, area.x, area.y - 2);
+        drawTitleBlock(pdf, title, `${sheet} · ${index + 1} of ${tiles.length}`, pageWidth, pageHeight);
+    });
+    return pdf;
+};
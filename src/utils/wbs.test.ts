@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { computeWbsCodes, collapseNetwork, rollUpCost, displayLinks } from './wbs';
+import { calculateCPM } from './cpmLogic';
+import { Task } from '../types';
+
+const wbs: Task[] = [
+    { id: 'S', name: 'Start', duration: 2, predecessors: [] },
+    { id: 'P', name: 'Phase', duration: 0, predecessors: [{ id: 'S', type: 'FS', lag: 0 }] },
+    { id: 'A', name: 'Task A', duration: 3, predecessors: [], parentId: 'P', cost: 100 },
+    { id: 'B', name: 'Task B', duration: 4, predecessors: [], parentId: 'P', cost: 200 },
+    { id: 'C', name: 'Task C', duration: 2, predecessors: [{ id: 'B', type: 'FS', lag: 0 }], parentId: 'P', cost: 50 },
+    { id: 'F', name: 'Finish', duration: 1, predecessors: [{ id: 'P', type: 'FS', lag: 0 }] },
+];
+
+describe('WBS', () => {
+    it('should number tasks by outline position', () => {
+        const codes = computeWbsCodes([...wbs, { id: 'C1', name: 'Sub', duration: 1, predecessors: [], parentId: 'C' }]);
+
+        expect(codes.get('S')).toBe('1');
+        expect(codes.get('P')).toBe('2');
+        expect(codes.get('B')).toBe('2.2');
+        expect(codes.get('C1')).toBe('2.3.1');
+        expect(codes.get('F')).toBe('3');
+    });
+
+    it('should apply links on a summary to all of its children and roll up their dates', () => {
+        const result = calculateCPM(wbs);
+        const byId = new Map(result.processedTasks.map(t => [t.id, t]));
+
+        // Every child waits for S; F waits for the last child
+        expect(byId.get('A')!.es).toBe(2);
+        expect(byId.get('B')!.es).toBe(2);
+        expect(byId.get('F')!.es).toBe(8);
+        expect(result.projectDuration).toBe(9);
+
+        const phase = byId.get('P')!;
+        expect(phase.isSummary).toBe(true);
+        expect(phase.es).toBe(2);
+        expect(phase.ef).toBe(8);
+        expect(phase.duration).toBe(6);
+        expect(phase.isCritical).toBe(true);
+        expect(phase.wbsCode).toBe('2');
+
+        expect(result.criticalPath).toEqual(['S', 'B', 'C', 'F']);
+        expect(rollUpCost('P', wbs, [])).toBe(350);
+    });
+
+    it('should fold a collapsed branch into its summary node', () => {
+        const result = calculateCPM(wbs);
+        const network = collapseNetwork(result.processedTasks, wbs, new Set(['P']));
+
+        expect(network.map(t => t.id)).toEqual(['S', 'P', 'F']);
+        expect(network.find(t => t.id === 'P')!.predecessors.map(l => l.id)).toEqual(['S']);
+        expect(network.find(t => t.id === 'F')!.predecessors.map(l => l.id)).toEqual(['P']);
+
+        // Expanded summaries are drawn as their children instead
+        expect(collapseNetwork(result.processedTasks, wbs, new Set()).map(t => t.id)).toEqual(['S', 'A', 'B', 'C', 'F']);
+    });
+
+    it('should show links as entered, not as expanded for scheduling', () => {
+        const byId = new Map(calculateCPM(wbs).processedTasks.map(t => [t.id, t]));
+
+        // Scheduling sees F waiting on every leaf of P and the leaves waiting on S
+        expect(byId.get('F')!.predecessors.map(l => l.id)).toEqual(['A', 'B', 'C']);
+        expect(byId.get('A')!.predecessors.map(l => l.id)).toEqual(['S']);
+
+        expect(displayLinks(byId.get('F')!)).toEqual([{ id: 'P', type: 'FS', lag: 0 }]);
+        expect(displayLinks(byId.get('P')!)).toEqual([{ id: 'S', type: 'FS', lag: 0 }]);
+        expect(displayLinks(byId.get('A')!)).toEqual([]);
+        expect(displayLinks(byId.get('C')!)).toEqual([{ id: 'B', type: 'FS', lag: 0 }]);
+    });
+});
@@ -0,0 +1,241 @@
+import { Task, ProcessedTask, PredecessorLink, Resource } from '../types';
+import { taskTotalCost } from './baselines';
+
+export const hasHierarchy = (tasks: Task[]): boolean => {
+    const ids = new Set(tasks.map(t => t.id));
+    return tasks.some(t => t.parentId !== undefined && ids.has(t.parentId));
+};
+
+/**
+ * Children per parent ID, in task-list order. Parents that do not exist are ignored so the
+ * orphaned tasks behave as top-level tasks.
+ */
+export const buildChildrenMap = (tasks: Task[]): Map<string, string[]> => {
+    const ids = new Set(tasks.map(t => t.id));
+    const children = new Map<string, string[]>();
+    tasks.forEach(t => {
+        if (t.parentId === undefined || !ids.has(t.parentId) || t.parentId === t.id) return;
+        if (!children.has(t.parentId)) children.set(t.parentId, []);
+        children.get(t.parentId)!.push(t.id);
+    });
+    return children;
+};
+
+/**
+ * Ancestors from the direct parent upwards; stops on a loop in the parent chain.
+ */
+export const getAncestors = (id: string, tasks: Task[]): string[] => {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const ancestors: string[] = [];
+    let parent = byId.get(id)?.parentId;
+    while (parent !== undefined && byId.has(parent) && parent !== id && !ancestors.includes(parent)) {
+        ancestors.push(parent);
+        parent = byId.get(parent)!.parentId;
+    }
+    return ancestors;
+};
+
+export const getDescendants = (id: string, children: Map<string, string[]>): string[] => {
+    const result: string[] = [];
+    const visit = (current: string) => (children.get(current) || []).forEach(child => {
+        if (child === id || result.includes(child)) return;
+        result.push(child);
+        visit(child);
+    });
+    visit(id);
+    return result;
+};
+
+/**
+ * Outline numbers (1, 1.1, 1.2.3) following task-list order within each parent.
+ */
+export const computeWbsCodes = (tasks: Task[]): Map<string, string> => {
+    const children = buildChildrenMap(tasks);
+    const ids = new Set(tasks.map(t => t.id));
+    const codes = new Map<string, string>();
+    const assign = (id: string, code: string) => {
+        if (codes.has(id)) return;
+        codes.set(id, code);
+        (children.get(id) || []).forEach((child, i) => assign(child, `${code}.${i + 1}`));
+    };
+    tasks
+        .filter(t => t.parentId === undefined || !ids.has(t.parentId) || t.parentId === t.id)
+        .forEach((t, i) => assign(t.id, `${i + 1}`));
+    return codes;
+};
+
+/**
+ * Tasks in outline order: each parent followed by its subtree.
+ */
+export const wbsOrder = <T extends Task>(tasks: T[]): T[] => {
+    const codes = computeWbsCodes(tasks);
+    const key = (code = '') => code.split('.').map(Number);
+    return [...tasks].sort((a, b) => {
+        const ka = key(codes.get(a.id));
+        const kb = key(codes.get(b.id));
+        for (let i = 0; i < Math.min(ka.length, kb.length); i++) if (ka[i] !== kb[i]) return ka[i] - kb[i];
+        return ka.length - kb.length;
+    });
+};
+
+/**
+ * The schedulable network behind a WBS: only leaf tasks, with every link to a summary task
+ * expanded to its leaves and every link on a summary task inherited by its leaves. Derived links
+ * record where they came from so views can show the links as entered (see displayLinks).
+ */
+export const expandSummaryLinks = (tasks: Task[]): Task[] => {
+    const children = buildChildrenMap(tasks);
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const leavesOf = (id: string): string[] => {
+        if (!children.has(id)) return [id];
+        return getDescendants(id, children).filter(d => !children.has(d));
+    };
+
+    return tasks
+        .filter(t => !children.has(t.id))
+        .map(task => {
+            const inherited = getAncestors(task.id, tasks).flatMap(a => byId.get(a)!.predecessors.map(link => ({ ...link, inheritedFrom: a })));
+            const links: PredecessorLink[] = [];
+            [...task.predecessors, ...inherited].forEach(link => {
+                const expandedFrom = children.has(link.id) ? link.id : undefined;
+                leavesOf(link.id).forEach(leafId => {
+                    // Own links come first, so they win over inherited ones to the same task
+                    if (leafId !== task.id && !links.some(l => l.id === leafId)) links.push(expandedFrom ? { ...link, id: leafId, expandedFrom } : { ...link, id: leafId });
+                });
+            });
+            return { ...task, predecessors: links };
+        });
+};
+
+/**
+ * A scheduled task's links as the user entered them: links inherited from a summary are left to
+ * that summary's row, and links expanded to a summary's leaves point at the summary again.
+ */
+export const displayLinks = (task: Task): PredecessorLink[] => {
+    const links: PredecessorLink[] = [];
+    task.predecessors.forEach(link => {
+        if (link.inheritedFrom) return;
+        const id = link.expandedFrom ?? link.id;
+        if (!links.some(l => l.id === id)) links.push({ id, type: link.type, lag: link.lag });
+    });
+    return links;
+};
+
+/**
+ * Summary rows for a scheduled set of leaves: dates span the children, slack is the tightest
+ * child's, and percent complete is weighted by child duration.
+ */
+export const rollUpSummaries = (scheduled: ProcessedTask[], tasks: Task[]): ProcessedTask[] => {
+    const children = buildChildrenMap(tasks);
+    const result = new Map(scheduled.map(t => [t.id, t]));
+
+    const rollUp = (id: string, visiting = new Set<string>()): ProcessedTask | undefined => {
+        if (result.has(id)) return result.get(id);
+        const task = tasks.find(t => t.id === id);
+        if (!task || visiting.has(id)) return undefined;
+        visiting.add(id);
+
+        const kids = (children.get(id) || []).map(c => rollUp(c, visiting)).filter((c): c is ProcessedTask => c !== undefined);
+        if (kids.length === 0) return undefined;
+
+        const es = Math.min(...kids.map(k => k.es));
+        const ef = Math.max(...kids.map(k => k.ef));
+        const totalDuration = kids.reduce((sum, k) => sum + k.duration, 0);
+        const done = kids.reduce((sum, k) => sum + k.duration * (k.percentComplete ?? 0), 0);
+
+        const summary: ProcessedTask = {
+            ...task,
+            isSummary: true,
+            es, ef,
+            ls: Math.min(...kids.map(k => k.ls)),
+            lf: Math.max(...kids.map(k => k.lf)),
+            duration: ef - es,
+            slack: Math.min(...kids.map(k => k.slack)),
+            isCritical: kids.some(k => k.isCritical),
+            percentComplete: totalDuration > 0 ? done / totalDuration : undefined,
+            // Summaries carry no work of their own
+            resources: [],
+            cost: 0,
+            actualStart: undefined,
+            actualFinish: undefined,
+            remainingDuration: undefined,
+            actualCost: undefined,
+            freeFloat: undefined,
+            interferingFloat: undefined
+        };
+        result.set(id, summary);
+        return summary;
+    };
+
+    // Keep the caller's task order
+    return tasks
+        .map(t => rollUp(t.id))
+        .filter((t): t is ProcessedTask => t !== undefined);
+};
+
+/**
+ * Total cost under a summary task: fixed and resource costs of all its leaves.
+ */
+export const rollUpCost = (id: string, tasks: Task[], pool: Resource[]): number => {
+    const children = buildChildrenMap(tasks);
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const leaves = children.has(id) ? getDescendants(id, children).filter(d => !children.has(d)) : [id];
+    return leaves.reduce((sum, leaf) => sum + (byId.has(leaf) ? taskTotalCost(byId.get(leaf)!, pool) : 0), 0);
+};
+
+/**
+ * Network view with collapsed branches folded into their summary node: hidden tasks disappear
+ * and links to or from them are redirected to the visible summary that contains them.
+ */
+export const collapseNetwork = (processed: ProcessedTask[], tasks: Task[], collapsed: Set<string>): ProcessedTask[] => {
+    const children = buildChildrenMap(tasks);
+    const byId = new Map(processed.map(t => [t.id, t]));
+
+    // The outermost collapsed ancestor (or the task itself) stands in for every task
+    const representative = (id: string): string => {
+        const chain = [id, ...getAncestors(id, tasks)];
+        const outermost = chain.filter(a => collapsed.has(a) && children.has(a)).pop();
+        return outermost ?? id;
+    };
+
+    const visible = processed.filter(t => {
+        const rep = representative(t.id);
+        if (rep !== t.id) return false; // Folded into a collapsed summary
+        return !t.isSummary || collapsed.has(t.id); // Expanded summaries are drawn as their children
+    });
+
+    return visible.map(node => {
+        const members = node.isSummary ? getDescendants(node.id, children).filter(d => !children.has(d)) : [node.id];
+        const links: PredecessorLink[] = [];
+        members.forEach(member => {
+            (byId.get(member)?.predecessors || []).forEach(link => {
+                const rep = representative(link.id);
+                if (rep === node.id || links.some(l => l.id === rep)) return;
+                links.push({ ...link, id: rep });
+            });
+        });
+        return { ...node, predecessors: links };
+    });
+};
+
+/**
+ * Outline rows for a schedule: each summary followed by its children, siblings sorted by early
+ * start and then ID. Children of collapsed summaries are left out.
+ */
+export const outlineRows = <T extends Task>(tasks: T[], collapsed: Set<string> = new Set()): { task: T; depth: number }[] => {
+    const children = buildChildrenMap(tasks);
+    const byStart = (a: T, b: T) => (a.es || 0) - (b.es || 0) || a.id.localeCompare(b.id);
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const rows: { task: T; depth: number }[] = [];
+    const visited = new Set<string>();
+    const visit = (task: T, depth: number) => {
+        if (visited.has(task.id)) return;
+        visited.add(task.id);
+        rows.push({ task, depth });
+        if (collapsed.has(task.id)) return;
+        (children.get(task.id) || []).map(id => byId.get(id)!).sort(byStart).forEach(child => visit(child, depth + 1));
+    };
+    const childIds = new Set([...children.values()].flat());
+    tasks.filter(t => !childIds.has(t.id)).sort(byStart).forEach(t => visit(t, 0));
+    return rows;
+};
@@ -0,0 +1,24 @@
+import { Task, MonteCarloOptions, MonteCarloResult, CPMOptions } from '../types';
+import { runMonteCarlo } from '../utils/monteCarlo';
+
+export interface MonteCarloWorkerRequest {
+    tasks: Task[];
+    options: MonteCarloOptions;
+    cpmOptions: CPMOptions;
+}
+
+export type MonteCarloWorkerResponse =
+    | { type: 'progress'; completed: number }
+    | { type: 'result'; result: MonteCarloResult }
+    | { type: 'error'; message: string };
+
+const post = (message: MonteCarloWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<MonteCarloWorkerRequest>) => {
+    try {
+        const result = runMonteCarlo(e.data.tasks, e.data.options, e.data.cpmOptions, completed => post({ type: 'progress', completed }));
+        post({ type: 'result', result });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
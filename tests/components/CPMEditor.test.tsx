@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { CPMEditor } from '../../src/components/CPMEditor';
 import { Project } from '../../src/types';
+import { CURRENT_SCHEMA_VERSION } from '../../src/utils/projectMigration';
 import { vi, describe, it, expect } from 'vitest';
 
 // Mock child components
@@ -30,6 +31,7 @@ describe('CPMEditor Undo/Redo', () => {
     const mockProject: Project = {
         id: '1',
         name: 'Test Project',
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         data: [],
         structuredAnalysis: {
             contextDiagram: { id: 'context', nodes: [], connections: [] },
@@ -0,0 +1,19 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EditTaskModal } from '../../src/components/EditTaskModal';
+import { Task } from '../../src/types';
+
+describe('EditTaskModal', () => {
+    const task: Task = { id: 'A', name: 'Design', duration: 4, predecessors: [], optimistic: 2, mostLikely: 4, pessimistic: 7 };
+
+    it('should save a fractional PERT expected duration', () => {
+        const onSave = vi.fn();
+        render(<EditTaskModal task={task} onSave={onSave} onDelete={vi.fn()} onClose={vi.fn()} allTaskIds={['A']} />);
+
+        // te = (2 + 4 × 4 + 7) / 6 ≈ 4.17
+        fireEvent.click(screen.getByText('Use as duration'));
+        fireEvent.click(screen.getByText('Save Changes'));
+
+        expect(onSave).toHaveBeenCalledWith('A', 'A', expect.objectContaining({ duration: 4.17 }));
+    });
+});